@@ -1,25 +1,201 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Avatar, EnglishLevel, PracticeType, ChatTurn } from './types';
-import { AVATARS, LEVELS, PRACTICE_MODES } from './constants';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Avatar, CefrBand, PracticeType, ChatTurn, CallStatus, CallStatusDetail, InputMode, StoredSession, Scenario, InterviewConfig, InterviewRecord, MonologueConfig, MonologueRecord, L1Policy, PlacementResult, LearnerProfile, DrillConfig, DrillRecord, AudioDeviceSettings, TargetLanguage } from './types';
+import { AVATARS, LEVELS, PRACTICE_MODES, INPUT_MODES, NATIVE_LANGUAGES, L1_POLICIES, TARGET_LANGUAGES } from './constants';
 import { AvatarCard } from './components/AvatarCard';
 import { GeminiLiveService } from './services/geminiLiveService';
+import { getConfiguredTransportKind } from './services/liveTransport';
+import { createSessionId, saveSession } from './services/sessionStore';
+import { saveRecording } from './services/recordingStore';
+import { SessionLibrary } from './components/SessionLibrary';
+import { CallReport } from './components/CallReport';
+import { FluencyHud } from './components/FluencyHud';
+import { VocabularyNotebook } from './components/VocabularyNotebook';
+import { AvatarEditor, createBlankAvatar } from './components/AvatarEditor';
+import { deleteCustomAvatar, listCustomAvatars, teaches } from './services/avatarStore';
+import { ScenarioPicker } from './components/ScenarioPicker';
+import { ScenarioChecklist } from './components/ScenarioChecklist';
+import { BUNDLED_SCENARIOS, deleteCustomScenario, listCustomScenarios } from './services/scenarioLibrary';
+import { InterviewSetup } from './components/InterviewSetup';
+import { InterviewPanel } from './components/InterviewPanel';
+import { InterviewController, InterviewState } from './services/interviewController';
+import { createInterviewScorer } from './services/interviewScoring';
+import { buildInterviewPlan, DEFAULT_INTERVIEW_CONFIG } from './services/interviewPlan';
+import { MonologueSetup } from './components/MonologueSetup';
+import { MonologuePanel } from './components/MonologuePanel';
+import { DEFAULT_MONOLOGUE_CONFIG, MonologueController, MonologueState } from './services/monologueController';
+import { createTranslator, MessageKey, resolveLocale } from './utils/i18n';
+import { PlacementPanel } from './components/PlacementPanel';
+import { PlacementReport } from './components/PlacementReport';
+import { PlacementController, PlacementState } from './services/placementController';
+import { assessPlacement } from './services/placementScoring';
+import { isRetestDue, latestPlacement, savePlacement } from './services/placementStore';
+import { formatDateTime } from './utils/format';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { TextComposer } from './components/TextComposer';
+import { CoachLevelRing, SpectrumBars } from './components/AudioVisualizer';
+import { SpeakingState } from './services/audioLevels';
+import { LearnerProfilePanel } from './components/LearnerProfilePanel';
+import { loadLearnerProfile } from './services/learnerProfile';
+import { DrillSetup } from './components/DrillSetup';
+import { DrillPanel } from './components/DrillPanel';
+import { DrillController, DrillState } from './services/drillController';
+import { buildDrillSet, DEFAULT_DRILL_CONFIG, loadMistakeSentences } from './services/drillPlan';
+import { AudioSettingsPanel } from './components/AudioSettingsPanel';
+import { DEFAULT_AUDIO_SETTINGS, loadAudioSettings, saveAudioSettings } from './services/audioDevices';
+import { CoachToolOverlays, LessonEnd } from './components/CoachToolOverlays';
+import { CoachToolCall } from './services/coachTools';
+import { addVocabulary, listDueVocabulary } from './services/vocabularyStore';
+import { loadSetting, saveSetting } from './services/settingsStore';
+import { toTargetLanguage } from './services/legacyRecords';
+
+interface CallSetup {
+  avatar: Avatar;
+  level: CefrBand;
+  language: TargetLanguage;
+  mode: PracticeType;
+  scenario: Scenario | null;
+}
+
+// The stored session the current call writes into when it ends
+interface ActiveSessionRecord extends CallSetup {
+  id: string;
+  startedAt: number;
+  priorDurationMs: number;
+  callStartedAt: number;
+  /** Due notebook words given to the coach; kept across reconnects. */
+  reviewWords?: string[];
+  /** The learner profile as it was when the session started. */
+  profile?: LearnerProfile;
+  /** Interview results from earlier calls of a continued session. */
+  interview?: InterviewRecord;
+  /** Speeches delivered in earlier calls of a continued session. */
+  monologue?: MonologueRecord;
+  /** Sentences drilled in earlier calls of a continued session. */
+  drill?: DrillRecord;
+  /** Turns of earlier calls already counted in the learner profile. */
+  profileTurns?: number;
+}
+
+const REVIEW_WORDS_PER_CALL = 8;
+
+// Cards the coach put on screen, besides pinned words, that stay visible at once
+const MAX_TOOL_CARDS = 3;
+// Time for the coach's goodbye to finish playing after its turn completes
+const LESSON_END_DELAY_MS = 4000;
+
+const TARGET_LANGUAGE_KEY = 'targetLanguage';
+
+const loadReviewWords = (language: TargetLanguage) =>
+  listDueVocabulary(Date.now(), REVIEW_WORDS_PER_CALL, language)
+    .then(entries => entries.map(e => e.term))
+    .catch(err => {
+      console.error('Failed to load review words', err);
+      return [] as string[];
+    });
+
+const LEVEL_LABELS: Record<CefrBand, MessageKey> = {
+  A1: 'level.a1',
+  A2: 'level.a2',
+  B1: 'level.b1',
+  B2: 'level.b2',
+  C1: 'level.c1',
+  C2: 'level.c2'
+};
+
+const STATUS_LABELS: Record<CallStatus, MessageKey> = {
+  connecting: 'call.status.connecting',
+  open: 'call.status.open',
+  closed: 'call.status.closed',
+  error: 'call.status.error',
+  reconnecting: 'call.status.reconnecting'
+};
+
+const TARGET_LABELS: Record<TargetLanguage, MessageKey> = {
+  en: 'target.en',
+  es: 'target.es',
+  de: 'target.de'
+};
+
+// Levels at which the coach may fall back on the learner's native language
+const NATIVE_SUPPORT_LEVELS: CefrBand[] = ['A1', 'A2', 'B1', 'B2'];
+
+const MODE_LABELS: Record<PracticeType, MessageKey> = {
+  'General Speaking': 'mode.general',
+  'Daily Conversation': 'mode.daily',
+  'Interview Practice': 'mode.interview',
+  'Public Speaking': 'mode.publicSpeaking',
+  'Vocabulary & Fluency': 'mode.vocabulary',
+  'Shadowing Drill': 'mode.shadowing'
+};
+
+// First guess at the learner's native language, from the browser
+const detectNativeLanguage = () => {
+  const code = (navigator.language || 'en').toLowerCase().split('-')[0];
+  return NATIVE_LANGUAGES.some(l => l.code === code) ? code : 'en';
+};
 
 const App: React.FC = () => {
+  const [view, setView] = useState<'setup' | 'sessions' | 'report' | 'vocabulary' | 'placement' | 'progress' | 'profile' | 'audio'>('setup');
+  const [reportSession, setReportSession] = useState<StoredSession | null>(null);
   const [step, setStep] = useState(1);
   const [selectedAvatar, setSelectedAvatar] = useState<Avatar | null>(null);
-  const [selectedLevel, setSelectedLevel] = useState<EnglishLevel>('Intermediate');
-  const [selectedMode, setSelectedMode] = useState<PracticeType>('General English Speaking');
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>('en');
+  const [selectedLevel, setSelectedLevel] = useState<CefrBand>('B1');
+  const [selectedMode, setSelectedMode] = useState<PracticeType>('General Speaking');
+  const [selectedInputMode, setSelectedInputMode] = useState<InputMode>('continuous');
+  // What the current call actually uses: speeches force push-to-talk, and a missing microphone falls back to text
+  const [callInputMode, setCallInputMode] = useState<InputMode>('continuous');
+  const [micNotice, setMicNotice] = useState<string | null>(null);
+  const [audioSettings, setAudioSettings] = useState<AudioDeviceSettings>(DEFAULT_AUDIO_SETTINGS);
+  const [toolCards, setToolCards] = useState<CoachToolCall[]>([]);
+  const [lessonEnd, setLessonEnd] = useState<LessonEnd | null>(null);
+  const [speakingState, setSpeakingState] = useState<SpeakingState>('silence');
+  const [recordCall, setRecordCall] = useState(true);
   const [isCalling, setIsCalling] = useState(false);
-  const [callStatus, setCallStatus] = useState<'idle' | 'connecting' | 'open' | 'closed' | 'error' | 'reconnecting'>('idle');
+  const [callStatus, setCallStatus] = useState<'idle' | CallStatus>('idle');
+  const [statusDetail, setStatusDetail] = useState<CallStatusDetail | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [history, setHistory] = useState<ChatTurn[]>([]);
   const [currentSpeech, setCurrentSpeech] = useState<{ role: string, text: string }>({ role: '', text: '' });
   const [isKeyMissing, setIsKeyMissing] = useState(false);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  const [customAvatars, setCustomAvatars] = useState<Avatar[]>([]);
+  const [editingAvatar, setEditingAvatar] = useState<Avatar | null>(null);
+  const [customScenarios, setCustomScenarios] = useState<Scenario[]>([]);
+  const [selectedScenario, setSelectedScenario] = useState<Scenario | null>(null);
+  const [interviewConfig, setInterviewConfig] = useState<InterviewConfig>(DEFAULT_INTERVIEW_CONFIG);
+  const [interviewState, setInterviewState] = useState<InterviewState | null>(null);
+  const [monologueConfig, setMonologueConfig] = useState<MonologueConfig>(DEFAULT_MONOLOGUE_CONFIG);
+  const [monologueState, setMonologueState] = useState<MonologueState | null>(null);
+  const [drillConfig, setDrillConfig] = useState<DrillConfig>(DEFAULT_DRILL_CONFIG);
+  const [drillState, setDrillState] = useState<DrillState | null>(null);
+  const [nativeLanguage, setNativeLanguage] = useState(detectNativeLanguage);
+  const [l1Policy, setL1Policy] = useState<L1Policy>('on-request');
+  const [lastPlacement, setLastPlacement] = useState<PlacementResult | null>(null);
+  const [placementReport, setPlacementReport] = useState<PlacementResult | null>(null);
+  const [placementState, setPlacementState] = useState<PlacementState | null>(null);
+
+  const t = useMemo(() => createTranslator(nativeLanguage), [nativeLanguage]);
+  const nativeLanguageInfo = NATIVE_LANGUAGES.find(l => l.code === nativeLanguage) ?? NATIVE_LANGUAGES[0];
+  const targetLanguageName = t(TARGET_LABELS[targetLanguage]);
+
+  const allAvatars = [...AVATARS, ...customAvatars];
+  const allScenarios = [...BUNDLED_SCENARIOS, ...customScenarios];
+  // What can be picked for the language being practised
+  const languageAvatars = allAvatars.filter(a => teaches(a, targetLanguage));
+  const languageScenarios = allScenarios.filter(s => s.language === targetLanguage);
   
   const geminiService = useRef<GeminiLiveService | null>(null);
   const historyRef = useRef<ChatTurn[]>([]);
+  const sessionRecord = useRef<ActiveSessionRecord | null>(null);
+  const interviewRef = useRef<InterviewController | null>(null);
+  const monologueRef = useRef<MonologueController | null>(null);
+  const placementRef = useRef<PlacementController | null>(null);
+  const drillRef = useRef<DrillController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Set synchronously in startCall, before the render that shows the call screen
+  const liveService = geminiService.current;
 
   useEffect(() => {
     historyRef.current = history;
@@ -28,8 +204,36 @@ const App: React.FC = () => {
     }
   }, [history, currentSpeech]);
 
+  useEffect(() => {
+    document.documentElement.lang = resolveLocale(nativeLanguage);
+  }, [nativeLanguage]);
+
+  useEffect(() => {
+    listCustomAvatars()
+      .then(setCustomAvatars)
+      .catch(err => console.error('Failed to load custom coaches', err));
+    listCustomScenarios()
+      .then(setCustomScenarios)
+      .catch(err => console.error('Failed to load custom scenarios', err));
+    loadSetting<TargetLanguage>(TARGET_LANGUAGE_KEY, 'en')
+      .then(async saved => {
+        const language = toTargetLanguage(saved);
+        setTargetLanguage(language);
+        const result = await latestPlacement(language);
+        if (!result) return;
+        setLastPlacement(result);
+        setSelectedLevel(result.band);
+      })
+      .catch(err => console.error('Failed to load placement result', err));
+    loadAudioSettings()
+      .then(setAudioSettings)
+      .catch(err => console.error('Failed to load audio settings', err));
+  }, []);
+
   useEffect(() => {
     const checkKey = async () => {
+      // The scripted transport replays a local fixture and needs no key
+      if (getConfiguredTransportKind() === 'scripted') return;
       if (window.aistudio) {
         const hasSelected = await window.aistudio.hasSelectedApiKey();
         if (!hasSelected && !process.env.API_KEY) {
@@ -40,6 +244,40 @@ const App: React.FC = () => {
     checkKey();
   }, []);
 
+  // Only changes of state re-render: React skips updates that set the same value
+  useEffect(() => {
+    if (!isCalling || !liveService) return;
+    const unsubscribe = liveService.subscribeLevels(levels => setSpeakingState(levels.speaking));
+    return () => {
+      unsubscribe();
+      setSpeakingState('silence');
+    };
+  }, [isCalling, liveService]);
+
+  // The coach ended the lesson: hang up once its goodbye has had time to play
+  useEffect(() => {
+    if (!lessonEnd?.endsAt) return;
+    const timer = setTimeout(() => handleEndCall(), Math.max(0, lessonEnd.endsAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [lessonEnd]);
+
+  // Space bar doubles as the push-to-talk button during a call; speeches open the mic themselves
+  useEffect(() => {
+    if (!isCalling || callInputMode !== 'push-to-talk' || selectedMode === 'Public Speaking') return;
+    const onKey = (e: KeyboardEvent) => {
+      // Spaces typed into the composer are just spaces
+      if (e.code !== 'Space' || e.repeat || e.target instanceof HTMLInputElement) return;
+      e.preventDefault();
+      geminiService.current?.setPushToTalk(e.type === 'keydown');
+    };
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('keyup', onKey);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener('keyup', onKey);
+    };
+  }, [isCalling, callInputMode, selectedMode]);
+
   const handleOpenKeySelector = async () => {
     if (window.aistudio) {
       await window.aistudio.openSelectKey();
@@ -48,8 +286,51 @@ const App: React.FC = () => {
     }
   };
 
-  const startCall = async (isReconnect = false) => {
-    if (!selectedAvatar) return;
+  /** Switches the language being practised; coaches, scenarios and the placement result follow it. */
+  const switchTargetLanguage = async (language: TargetLanguage) => {
+    setTargetLanguage(language);
+    saveSetting(TARGET_LANGUAGE_KEY, language).catch(err => console.error('Failed to save target language', err));
+    if (selectedAvatar && !teaches(selectedAvatar, language)) setSelectedAvatar(null);
+    if (selectedScenario && selectedScenario.language !== language) setSelectedScenario(null);
+    const result = await latestPlacement(language).catch(err => {
+      console.error('Failed to load placement result', err);
+      return null;
+    });
+    setLastPlacement(result);
+    return result;
+  };
+
+  /** Shows what the coach asked for and returns the result the coach is told. */
+  const handleToolCall = (call: CoachToolCall): Record<string, unknown> => {
+    const shown = { ...call, id: call.id || createSessionId() } as CoachToolCall;
+    switch (shown.name) {
+      case 'pin_word': {
+        const { word, meaning, example } = shown.args;
+        setToolCards(prev => prev.some(c => c.name === 'pin_word' && c.args.word.toLowerCase() === word.toLowerCase()) ? prev : [...prev, shown]);
+        addVocabulary([{ term: word, meaning: meaning || undefined, example: example || word, source: 'coach' }], sessionRecord.current?.id, targetLanguage)
+          .catch(err => console.error('Failed to save pinned word', err));
+        return { pinned: word, savedToNotebook: true };
+      }
+      case 'end_lesson':
+        setLessonEnd({ id: shown.id, summary: shown.args.summary, endsAt: null });
+        return { ending: true };
+      case 'set_difficulty':
+        setSelectedLevel(shown.args.level);
+        if (sessionRecord.current) sessionRecord.current.level = shown.args.level;
+        geminiService.current?.setLevel(shown.args.level);
+        break;
+    }
+    setToolCards(prev => {
+      const pinned = prev.filter(c => c.name === 'pin_word');
+      const others = prev.filter(c => c.name !== 'pin_word');
+      return [...pinned, ...others.slice(-(MAX_TOOL_CARDS - 1)), shown];
+    });
+    return { shown: true };
+  };
+
+  const startCall = async (isReconnect = false, setup: Partial<CallSetup> = {}) => {
+    const { avatar = selectedAvatar, level = selectedLevel, language = targetLanguage, mode = selectedMode, scenario = selectedScenario } = setup;
+    if (!avatar) return;
     
     setIsCalling(true);
     setCallStatus(isReconnect ? 'reconnecting' : 'connecting');
@@ -58,55 +339,381 @@ const App: React.FC = () => {
     // Cleanup previous session
     if (geminiService.current) {
       geminiService.current.stopAll();
+      persistRecording(geminiService.current);
     }
     
-    geminiService.current = new GeminiLiveService();
+    const service = new GeminiLiveService();
+    geminiService.current = service;
     
-    if (!isReconnect) setHistory([]);
+    if (!isReconnect) {
+      setHistory([]);
+      historyRef.current = [];
+      setToolCards([]);
+      setLessonEnd(null);
+      if (mode === 'Interview Practice') {
+        const questions = buildInterviewPlan(interviewConfig);
+        const controller = new InterviewController(
+          interviewConfig,
+          questions,
+          text => geminiService.current?.sendText(text),
+          setInterviewState,
+          createInterviewScorer(language)
+        );
+        interviewRef.current = controller;
+        setInterviewState(controller.getState());
+      } else {
+        interviewRef.current = null;
+        setInterviewState(null);
+      }
+      monologueRef.current = null;
+      setMonologueState(null);
+      drillRef.current = null;
+      setDrillState(null);
+      const now = Date.now();
+      // Interviews, speeches and drills replace any roleplay scenario
+      const callScenario = interviewRef.current || mode === 'Public Speaking' || mode === 'Shadowing Drill' ? null : scenario;
+      // A placement test is not a practice session; its result is stored on its own
+      sessionRecord.current = placementRef.current
+        ? null
+        : { id: createSessionId(), avatar, level, language, mode, scenario: callScenario, startedAt: now, priorDurationMs: 0, callStartedAt: now };
+    }
+    const record = sessionRecord.current;
+    // A continued public-speaking session picks up its earlier topic
+    if (mode === 'Public Speaking' && !monologueRef.current && !placementRef.current) {
+      const controller = new MonologueController(
+        record?.monologue?.config ?? monologueConfig,
+        {
+          open: () => geminiService.current?.setPushToTalk(true),
+          close: note => {
+            geminiService.current?.sendText(note, false);
+            geminiService.current?.setPushToTalk(false);
+          }
+        },
+        setMonologueState
+      );
+      monologueRef.current = controller;
+      setMonologueState(controller.getState());
+    }
+    // The app opens the mic for each speech and closes it when the speech ends, so the coach cannot jump in.
+    // A drill scores what the learner says, so it needs the microphone
+    const inputMode: InputMode = monologueRef.current
+      ? 'push-to-talk'
+      : mode === 'Shadowing Drill' && selectedInputMode === 'text' ? 'vad' : selectedInputMode;
+    setCallInputMode(inputMode);
+    setMicNotice(null);
+    if (record && !record.reviewWords) {
+      [record.reviewWords, record.profile] = await Promise.all([
+        loadReviewWords(language),
+        loadLearnerProfile(language).catch(err => {
+          console.error('Failed to load learner profile', err);
+          return undefined;
+        })
+      ]);
+      // The call may have been ended while the words were loading
+      if (geminiService.current !== service) return;
+    }
+    // Like a speech, a continued drill keeps its earlier settings; past mistakes need the profile loaded above
+    if (mode === 'Shadowing Drill' && !drillRef.current && !placementRef.current) {
+      const config = record?.drill?.config ?? drillConfig;
+      const mistakes = config.source === 'mistakes'
+        ? await loadMistakeSentences(record?.profile, language).catch(err => {
+          console.error('Failed to load past mistakes', err);
+          return [] as string[];
+        })
+        : [];
+      if (geminiService.current !== service) return;
+      const controller = new DrillController(config, buildDrillSet(config, level, language, mistakes), text => geminiService.current?.sendText(text), setDrillState, language);
+      drillRef.current = controller;
+      setDrillState(controller.getState());
+    }
     
+    const interview = interviewRef.current;
+    const placement = placementRef.current;
+    const drill = drillRef.current;
     try {
-      await geminiService.current.connect(
-        selectedAvatar, 
-        selectedLevel, 
-        selectedMode,
+      await service.connect(
+        avatar, 
+        level, 
+        mode,
         historyRef.current,
         {
-          onTranscriptionUpdate: (role, text, isComplete) => {
+          onTranscriptionUpdate: (role, text, isComplete, turn) => {
+            // Ignore late events from a session that has since been replaced
+            if (geminiService.current !== service) return;
             if (isComplete) {
-              setHistory(prev => [...prev, { role, text, timestamp: Date.now() }]);
+              const completed = turn ?? { role, text, timestamp: Date.now() };
+              setHistory(prev => [...prev, completed]);
+              interviewRef.current?.addTurn(completed);
+              monologueRef.current?.addTurn(completed);
+              placementRef.current?.addTurn(completed);
+              drillRef.current?.addTurn(completed);
+              // The turn carrying the coach's goodbye starts the countdown to hang up
+              if (completed.role === 'model') {
+                setLessonEnd(prev => (prev && prev.endsAt === null ? { ...prev, endsAt: Date.now() + LESSON_END_DELAY_MS } : prev));
+              }
               setCurrentSpeech({ role: '', text: '' });
             } else {
               setCurrentSpeech({ role, text });
             }
           },
-          onStatusChange: (status, msg) => {
+          onStatusChange: (status, detail) => {
+            if (geminiService.current !== service) return;
             setCallStatus(status);
+            setStatusDetail(status === 'reconnecting' ? detail ?? null : null);
             if (status === 'error') {
-              setErrorMessage(msg || 'Network connection failed. Please check your API key and connection.');
+              setErrorMessage(detail?.code === 'gave-up'
+                ? t('call.gaveUp', { attempts: detail.maxAttempts })
+                : (detail?.code === 'failed' && detail.message) || t('call.connectionFailed'));
             }
           },
           onKeyRequired: () => {
             setIsKeyMissing(true);
             handleEndCall();
+          },
+          onUserActivity: (speaking) => {
+            if (geminiService.current !== service) return;
+            setIsUserSpeaking(speaking);
+          },
+          onMicrophoneUnavailable: (reason) => {
+            if (geminiService.current !== service) return;
+            setCallInputMode('text');
+            setMicNotice(t('call.micUnavailable', { reason }));
+          },
+          onToolCall: call => {
+            if (geminiService.current !== service) return { shown: false };
+            return handleToolCall(call);
+          },
+          onToolCallCancelled: ids => {
+            if (geminiService.current !== service) return;
+            setToolCards(prev => prev.filter(c => !ids.includes(c.id)));
+            setLessonEnd(prev => (prev && ids.includes(prev.id) ? null : prev));
+          },
+          onAudioDeviceChange: (kind, label) => {
+            if (geminiService.current !== service) return;
+            const device = label === 'default' ? t('call.defaultDevice') : label;
+            setMicNotice(t(kind === 'input' ? 'call.micSwitched' : 'call.speakersSwitched', { device }));
           }
+        },
+        {
+          inputMode,
+          language,
+          record: recordCall && !placementRef.current,
+          reviewWords: record?.reviewWords,
+          scenario: record?.scenario ?? undefined,
+          interview: interview ? () => interview.progress() : undefined,
+          monologue: monologueRef.current?.config,
+          nativeLanguage: { name: nativeLanguageInfo.name, policy: l1Policy },
+          profile: record?.profile,
+          placement: placement ? () => placement.progress() : undefined,
+          drill: drill ? () => drill.progress() : undefined,
+          audio: audioSettings
         }
       );
     } catch (err: any) {
       console.error("Start call failed:", err);
       setCallStatus('error');
-      setErrorMessage(err.message || "Network error. Please try again.");
+      setErrorMessage(err.message || t('call.networkError'));
+    }
+  };
+
+  const startPlacement = () => {
+    const controller = new PlacementController(text => geminiService.current?.sendText(text), setPlacementState, targetLanguage);
+    placementRef.current = controller;
+    setPlacementState(controller.getState());
+    startCall(false, { mode: 'General Speaking', scenario: null });
+  };
+
+  const persistRecording = (service: GeminiLiveService) => {
+    const recording = service.finishRecording();
+    const record = sessionRecord.current;
+    if (!recording || !record) return;
+    saveRecording({ id: createSessionId(), sessionId: record.id, ...recording })
+      .catch(err => console.error('Failed to save recording', err));
+  };
+
+  const persistSession = (): StoredSession | null => {
+    const record = sessionRecord.current;
+    sessionRecord.current = null;
+    if (!record || historyRef.current.length === 0) return null;
+    const endedAt = Date.now();
+    const session: StoredSession = {
+      id: record.id,
+      avatarId: record.avatar.id,
+      level: record.level,
+      language: record.language,
+      mode: record.mode,
+      turns: historyRef.current,
+      startedAt: record.startedAt,
+      endedAt,
+      durationMs: record.priorDurationMs + (endedAt - record.callStartedAt),
+      scenarioId: record.scenario?.id,
+      interview: record.interview,
+      monologue: record.monologue,
+      drill: record.drill,
+      profileTurns: record.profileTurns
+    };
+    saveSession(session).catch(err => console.error('Failed to save session', err));
+    return session;
+  };
+
+  const continueSession = (session: StoredSession) => {
+    const avatar = allAvatars.find(a => a.id === session.avatarId) ?? allAvatars.find(a => teaches(a, session.language)) ?? AVATARS[0];
+    const scenario = allScenarios.find(s => s.id === session.scenarioId) ?? null;
+    if (session.language !== targetLanguage) switchTargetLanguage(session.language);
+    setSelectedAvatar(avatar);
+    setSelectedScenario(scenario);
+    setSelectedLevel(session.level);
+    setSelectedMode(session.mode);
+    setHistory(session.turns);
+    historyRef.current = session.turns;
+    sessionRecord.current = {
+      id: session.id,
+      avatar,
+      level: session.level,
+      language: session.language,
+      mode: session.mode,
+      scenario,
+      interview: session.interview,
+      monologue: session.monologue,
+      drill: session.drill,
+      // Sessions reported on before this was recorded had every turn counted
+      profileTurns: session.profileTurns ?? (session.report ? session.turns.length : undefined),
+      startedAt: session.startedAt,
+      priorDurationMs: session.durationMs,
+      callStartedAt: Date.now()
+    };
+    setView('setup');
+    startCall(true, { avatar, level: session.level, language: session.language, mode: session.mode, scenario });
+  };
+
+  const handleAvatarSaved = (avatar: Avatar) => {
+    setCustomAvatars(prev => [...prev.filter(a => a.id !== avatar.id), avatar].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedAvatar(avatar);
+    setEditingAvatar(null);
+  };
+
+  const handleDuplicateAvatar = (avatar: Avatar) => {
+    setEditingAvatar({ ...avatar, id: createSessionId(), name: `${avatar.name} (copy)`.slice(0, 40), custom: true });
+  };
+
+  const handleDeleteAvatar = async (avatar: Avatar) => {
+    if (!window.confirm(t('confirm.deleteCoach', { name: avatar.name }))) return;
+    try {
+      await deleteCustomAvatar(avatar.id);
+      setCustomAvatars(prev => prev.filter(a => a.id !== avatar.id));
+      if (selectedAvatar?.id === avatar.id) setSelectedAvatar(null);
+    } catch (err) {
+      console.error('Failed to delete coach', err);
+    }
+  };
+
+  const handleDeleteScenario = async (scenario: Scenario) => {
+    if (!window.confirm(t('confirm.deleteScenario', { title: scenario.title }))) return;
+    try {
+      await deleteCustomScenario(scenario.id);
+      setCustomScenarios(prev => prev.filter(s => s.id !== scenario.id));
+      if (selectedScenario?.id === scenario.id) setSelectedScenario(null);
+    } catch (err) {
+      console.error('Failed to delete scenario', err);
     }
   };
 
   const handleEndCall = () => {
-    geminiService.current?.stopAll();
+    if (geminiService.current) {
+      geminiService.current.stopAll();
+      persistRecording(geminiService.current);
+    }
+    geminiService.current = null;
+    const interview = interviewRef.current;
+    interviewRef.current = null;
+    setInterviewState(null);
+    const placement = placementRef.current;
+    placementRef.current = null;
+    setPlacementState(null);
+    const speeches = monologueRef.current?.finish();
+    monologueRef.current = null;
+    setMonologueState(null);
+    if (speeches && sessionRecord.current) {
+      const prior = sessionRecord.current.monologue?.deliveries ?? [];
+      sessionRecord.current.monologue = { config: speeches.config, deliveries: [...prior, ...speeches.deliveries] };
+    }
+    const drilled = drillRef.current?.finish();
+    drillRef.current = null;
+    setDrillState(null);
+    if (drilled && sessionRecord.current) {
+      const prior = sessionRecord.current.drill?.items ?? [];
+      sessionRecord.current.drill = { config: drilled.config, items: [...prior, ...drilled.items] };
+    }
+    const session = persistSession();
+    const showReport = (finished: StoredSession) => {
+      if (!finished.turns.some(t => t.role === 'user')) return;
+      setReportSession(finished);
+      setView('report');
+    };
+    if (session && interview) {
+      // Answers are still being scored; save and show the report once they are done
+      interview.finish().then(record => {
+        const answers = [...(session.interview?.answers ?? []), ...record.answers];
+        const withInterview = { ...session, interview: { config: record.config, answers } };
+        saveSession(withInterview).catch(err => console.error('Failed to save interview', err));
+        showReport(withInterview);
+      });
+    } else if (session) {
+      showReport(session);
+    }
+    const placementAnswers = placement?.finish() ?? [];
+    if (placement && placementAnswers.some(a => a.transcript)) {
+      setPlacementReport(null);
+      setView('placement');
+      assessPlacement(placementAnswers, placement.language).then(result => {
+        savePlacement(result).catch(err => console.error('Failed to save placement result', err));
+        setLastPlacement(result);
+        setPlacementReport(result);
+        setSelectedLevel(result.band);
+      });
+    }
+    setToolCards([]);
+    setLessonEnd(null);
     setIsCalling(false);
     setCallStatus('idle');
+    setStatusDetail(null);
     setErrorMessage(null);
+    setIsUserSpeaking(false);
     setCurrentSpeech({ role: '', text: '' });
   };
 
   if (isCalling) {
+    // Mode-specific controls, shown beside the coach on wide screens and above the transcript otherwise
+    const sidePanel = monologueState ? (
+      <MonologuePanel
+        config={monologueRef.current?.config ?? monologueConfig}
+        state={monologueState}
+        ready={callStatus === 'open'}
+        onStartCountdown={() => monologueRef.current?.startCountdown()}
+        onStartNow={() => monologueRef.current?.startSpeech()}
+        onEndSpeech={() => monologueRef.current?.endSpeech()}
+        t={t}
+      />
+    ) : interviewState ? (
+      <InterviewPanel state={interviewState} t={t} onFollowUp={() => interviewRef.current?.askFollowUp()} onNext={() => interviewRef.current?.nextQuestion()} />
+    ) : placementState ? (
+      <PlacementPanel state={placementState} t={t} onNext={() => placementRef.current?.nextQuestion()} />
+    ) : drillState ? (
+      <DrillPanel state={drillState} t={t} onRetry={() => drillRef.current?.retry()} onNext={() => drillRef.current?.nextSentence()} />
+    ) : selectedScenario ? (
+      <ScenarioChecklist scenario={selectedScenario} turns={history} />
+    ) : null;
+    const toolOverlays = toolCards.length > 0 || lessonEnd ? (
+      <CoachToolOverlays
+        cards={toolCards}
+        lessonEnd={lessonEnd}
+        onDismiss={id => setToolCards(prev => prev.filter(c => c.id !== id))}
+        onEndNow={handleEndCall}
+        onKeepTalking={() => setLessonEnd(null)}
+        t={t}
+      />
+    ) : null;
+
     return (
       <div className="fixed inset-0 bg-slate-950 flex flex-col z-50 overflow-hidden">
         {/* Call Header */}
@@ -114,11 +721,17 @@ const App: React.FC = () => {
           <div className="flex flex-col">
             <h2 className="text-xl font-bold text-white flex items-center gap-2">
               {selectedAvatar?.name}
-              <span className="text-[10px] bg-blue-500/20 text-blue-400 px-2 py-0.5 rounded-full border border-blue-500/30 uppercase tracking-tighter">Coach</span>
+              <span className="text-[10px] bg-blue-500/20 text-blue-400 px-2 py-0.5 rounded-full border border-blue-500/30 uppercase tracking-tighter">{t('call.coachBadge')}</span>
+              {recordCall && <span className="text-[10px] bg-red-500/20 text-red-400 px-2 py-0.5 rounded-full border border-red-500/30 uppercase tracking-tighter">{t('call.rec')}</span>}
             </h2>
             <p className="text-xs text-slate-400 font-medium">
-              {callStatus === 'open' ? 'Live Conversation' : (callStatus === 'connecting' ? 'Connecting...' : 'Status: ' + callStatus)}
+              {callStatus !== 'idle' && t(STATUS_LABELS[callStatus])}
             </p>
+            {statusDetail?.code === 'retrying' && (
+              <p className="text-[10px] text-amber-400 font-bold mt-1">
+                {t('call.retrying', { seconds: statusDetail.seconds, attempt: statusDetail.attempt, attempts: statusDetail.maxAttempts })}
+              </p>
+            )}
           </div>
           <button onClick={handleEndCall} className="bg-red-500 hover:bg-red-600 p-4 rounded-full shadow-lg shadow-red-500/30 transition-all active:scale-90">
             <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -131,32 +744,49 @@ const App: React.FC = () => {
         <div className="flex-1 flex flex-col items-center justify-center relative px-6">
           <div className="relative">
             {/* Visualizer Rings */}
-            {callStatus === 'open' && (
-              <>
-                <div className="absolute inset-0 rounded-full border-4 border-blue-500/20 animate-ping" style={{ animationDuration: '3s' }}></div>
-                <div className="absolute inset-0 rounded-full border-2 border-blue-500/10 animate-ping" style={{ animationDuration: '4s', animationDelay: '1s' }}></div>
-              </>
-            )}
+            {callStatus === 'open' && <CoachLevelRing service={liveService} />}
             
             <div className={`w-48 h-48 md:w-64 md:h-64 rounded-full overflow-hidden border-4 transition-all duration-1000 ${callStatus === 'open' ? 'border-blue-500 shadow-[0_0_80px_rgba(59,130,246,0.4)] scale-110' : 'border-slate-800 grayscale'}`}>
               <img src={selectedAvatar?.image} className="w-full h-full object-cover" alt="" />
             </div>
           </div>
 
+          <div className="absolute top-28 left-0 right-0 flex justify-center px-6">
+            <FluencyHud turns={history} language={targetLanguage} t={t} />
+          </div>
+
+          {sidePanel && (
+            <div className="absolute top-28 right-6 hidden lg:block">{sidePanel}</div>
+          )}
+
+          {toolOverlays && (
+            <div className="absolute top-28 left-6 bottom-6 overflow-y-auto scrollbar-hide hidden lg:block">{toolOverlays}</div>
+          )}
+
           <div className="mt-12 text-center space-y-4">
-             {callStatus === 'connecting' && <div className="text-blue-400 font-black animate-pulse uppercase tracking-[0.3em] text-sm">Establishing Link...</div>}
-             {callStatus === 'open' && currentSpeech.role === 'model' && <div className="text-blue-400 font-black animate-bounce uppercase tracking-[0.3em] text-sm">Speaking</div>}
-             {callStatus === 'open' && currentSpeech.role === 'user' && <div className="text-green-400 font-black animate-pulse uppercase tracking-[0.3em] text-sm">Listening</div>}
+             {callStatus === 'connecting' && <div className="text-blue-400 font-black animate-pulse uppercase tracking-[0.3em] text-sm">{t('call.establishing')}</div>}
+             {callStatus === 'reconnecting' && <div className="text-amber-400 font-black animate-pulse uppercase tracking-[0.3em] text-sm">{t('call.reconnecting')}</div>}
+             {callStatus === 'open' && speakingState === 'coach' && <div className="text-blue-400 font-black animate-bounce uppercase tracking-[0.3em] text-sm">{t('call.speaking')}</div>}
+             {callStatus === 'open' && speakingState === 'learner' && <div className="text-green-400 font-black animate-pulse uppercase tracking-[0.3em] text-sm">{t('call.listening')}</div>}
+             {callStatus === 'open' && speakingState === 'both' && <div className="text-amber-400 font-black animate-pulse uppercase tracking-[0.3em] text-sm">{t('call.overlap')}</div>}
           </div>
         </div>
 
         {/* Live Transcript / Captions Area */}
         <div className="h-2/5 bg-gradient-to-t from-slate-950 via-slate-950/90 to-transparent p-6 flex flex-col">
+          {sidePanel && (
+            <div className="lg:hidden mb-4 flex justify-center">{sidePanel}</div>
+          )}
+          {toolOverlays && (
+            <div className="lg:hidden mb-4 flex justify-center max-h-48 overflow-y-auto scrollbar-hide">{toolOverlays}</div>
+          )}
           <div ref={scrollRef} className="flex-1 overflow-y-auto space-y-4 pr-2 scrollbar-hide">
             {history.slice(-10).map((turn, i) => (
               <div key={i} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2`}>
-                <div className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm ${turn.role === 'user' ? 'bg-blue-600 text-white font-medium' : 'bg-slate-800 text-slate-200 border border-slate-700'}`}>
-                  {turn.text}
+                <div className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm ${turn.role === 'user' ? 'bg-blue-600 text-white font-medium' : `bg-slate-800 text-slate-200 border ${turn.interrupted ? 'border-dashed border-amber-500/50' : 'border-slate-700'}`}`}>
+                  {turn.text}{turn.interrupted && '…'}
+                  {turn.typed && <span className="block text-[9px] font-black uppercase tracking-widest text-blue-200/60 mt-1">{t('call.typed')}</span>}
+                  {turn.interrupted && <span className="block text-[9px] font-black uppercase tracking-widest text-amber-400/80 mt-1">{t('call.interrupted')}</span>}
                 </div>
               </div>
             ))}
@@ -170,24 +800,50 @@ const App: React.FC = () => {
             {errorMessage && (
               <div className="bg-red-500/10 border border-red-500/20 p-4 rounded-xl text-center">
                 <p className="text-red-400 text-xs font-bold mb-2">{errorMessage}</p>
-                <button onClick={() => startCall(true)} className="text-[10px] font-black uppercase tracking-widest bg-red-500 text-white px-4 py-2 rounded-full">Try Again</button>
+                <button onClick={() => startCall(true)} className="text-[10px] font-black uppercase tracking-widest bg-red-500 text-white px-4 py-2 rounded-full">{t('call.tryAgain')}</button>
               </div>
             )}
           </div>
           
           <div className="pt-4 flex justify-center">
-            {callStatus === 'open' && (
-               <div className="flex gap-1 items-end h-8">
-                 {[...Array(12)].map((_, i) => (
-                   <div key={i} className="w-1 bg-blue-500 rounded-full animate-bounce" style={{ 
-                     height: `${20 + Math.random() * 80}%`, 
-                     animationDelay: `${i * 0.1}s`,
-                     animationDuration: '0.8s'
-                   }}></div>
-                 ))}
-               </div>
-            )}
+            {callStatus === 'open' && <SpectrumBars service={liveService} />}
           </div>
+
+          {callStatus === 'open' && !monologueState && callInputMode === 'push-to-talk' && (
+            <div className="pt-4 flex flex-col items-center gap-2">
+              <button
+                onPointerDown={() => geminiService.current?.setPushToTalk(true)}
+                onPointerUp={() => geminiService.current?.setPushToTalk(false)}
+                onPointerLeave={() => geminiService.current?.setPushToTalk(false)}
+                className={`px-10 py-4 rounded-full font-black uppercase tracking-widest text-sm select-none touch-none transition-all ${isUserSpeaking ? 'bg-green-500 text-white scale-105 shadow-xl shadow-green-500/30' : 'bg-slate-800 text-slate-300 border border-slate-700'}`}
+              >
+                {isUserSpeaking ? t('call.releaseToSend') : t('call.holdToTalk')}
+              </button>
+              <span className="text-[10px] text-slate-600 font-bold uppercase tracking-widest">{t('call.holdSpace')}</span>
+            </div>
+          )}
+          {callStatus === 'open' && !monologueState && callInputMode === 'vad' && (
+            <div className="pt-2 flex justify-center">
+              <span className={`text-[10px] font-black uppercase tracking-widest ${isUserSpeaking ? 'text-green-400' : 'text-slate-600'}`}>
+                {isUserSpeaking ? t('call.micSending') : t('call.micWaiting')}
+              </span>
+            </div>
+          )}
+          {micNotice && (
+            <p className="pt-4 text-center text-[10px] font-bold uppercase tracking-widest text-amber-400">{micNotice}</p>
+          )}
+          {/* Speeches and placement answers are assessed as speech, so they cannot be typed */}
+          {!monologueState && !placementState && !drillState && (callStatus === 'open' || callInputMode === 'text') && (
+            <div className="pt-4">
+              <TextComposer
+                onSend={text => geminiService.current?.sendTypedTurn(text) ?? false}
+                disabled={callStatus !== 'open'}
+                placeholder={t('call.typePlaceholder')}
+                sendLabel={t('call.send')}
+                primary={callInputMode === 'text'}
+              />
+            </div>
+          )}
         </div>
       </div>
     );
@@ -199,113 +855,340 @@ const App: React.FC = () => {
         <header className="text-center mb-12">
           <div className="inline-flex items-center gap-2 bg-blue-500/10 border border-blue-500/20 text-blue-400 px-4 py-1.5 rounded-full text-[10px] font-black mb-6 uppercase tracking-[0.2em] shadow-lg">
             <span className="w-1.5 h-1.5 bg-blue-500 rounded-full animate-pulse"></span>
-            Real-Time English Coaching
+            {t('app.badge', { language: targetLanguageName })}
           </div>
           <h1 className="text-5xl md:text-8xl font-black mb-4 tracking-tighter bg-gradient-to-b from-white to-slate-500 bg-clip-text text-transparent">
             SpeakFlow AI
           </h1>
           <p className="text-slate-400 text-lg md:text-xl font-medium max-w-2xl mx-auto">
-            Experience 1-on-1 language coaching through high-fidelity voice. 
-            Choose an avatar and start speaking.
+            {t('app.tagline')}
           </p>
         </header>
 
         {isKeyMissing && (
           <div className="bg-blue-600/10 border border-blue-500/30 p-8 rounded-[2rem] text-center mb-12 animate-in zoom-in-95 duration-500">
-            <h3 className="text-2xl font-black mb-2">Connect Your API Key</h3>
-            <p className="text-slate-400 text-sm mb-6 font-medium">This app requires a Gemini API key to power real-time voice conversations.</p>
+            <h3 className="text-2xl font-black mb-2">{t('key.title')}</h3>
+            <p className="text-slate-400 text-sm mb-6 font-medium">{t('key.body')}</p>
             <button onClick={handleOpenKeySelector} className="bg-blue-600 hover:bg-blue-500 text-white px-10 py-4 rounded-xl font-black transition-all active:scale-95 shadow-xl shadow-blue-600/20">
-              Set API Key
+              {t('key.button')}
             </button>
           </div>
         )}
 
-        {/* Step Indicator */}
-        <div className="flex justify-center gap-12 mb-12 relative">
-          {[1, 2, 3].map(n => (
-            <div key={n} className="flex flex-col items-center gap-3 relative z-10">
-              <div className={`w-10 h-10 rounded-xl flex items-center justify-center font-black text-sm border-2 transition-all duration-500 ${step >= n ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-600'}`}>
-                {n}
-              </div>
-              <span className={`text-[10px] font-black uppercase tracking-widest ${step >= n ? 'text-blue-400' : 'text-slate-700'}`}>
-                {n === 1 ? 'Coach' : n === 2 ? 'Level' : 'Mode'}
-              </span>
-            </div>
-          ))}
-          <div className="absolute top-5 left-1/4 right-1/4 h-0.5 bg-slate-900 -z-0"></div>
-        </div>
+        <nav className="flex justify-center gap-3 mb-12">
+          <button
+            onClick={() => setView(view === 'sessions' ? 'setup' : 'sessions')}
+            className={`text-[10px] font-black uppercase tracking-[0.2em] px-5 py-2 rounded-full border transition-all ${view === 'sessions' ? 'border-blue-500 text-blue-400 bg-blue-500/10' : 'border-slate-800 text-slate-500 hover:text-white hover:border-slate-700'}`}
+          >
+            {t('nav.sessions')}
+          </button>
+          <button
+            onClick={() => setView(view === 'vocabulary' ? 'setup' : 'vocabulary')}
+            className={`text-[10px] font-black uppercase tracking-[0.2em] px-5 py-2 rounded-full border transition-all ${view === 'vocabulary' ? 'border-blue-500 text-blue-400 bg-blue-500/10' : 'border-slate-800 text-slate-500 hover:text-white hover:border-slate-700'}`}
+          >
+            {t('nav.vocabulary')}
+          </button>
+          <button
+            onClick={() => setView(view === 'progress' ? 'setup' : 'progress')}
+            className={`text-[10px] font-black uppercase tracking-[0.2em] px-5 py-2 rounded-full border transition-all ${view === 'progress' ? 'border-blue-500 text-blue-400 bg-blue-500/10' : 'border-slate-800 text-slate-500 hover:text-white hover:border-slate-700'}`}
+          >
+            {t('nav.progress')}
+          </button>
+          <button
+            onClick={() => setView(view === 'profile' ? 'setup' : 'profile')}
+            className={`text-[10px] font-black uppercase tracking-[0.2em] px-5 py-2 rounded-full border transition-all ${view === 'profile' ? 'border-blue-500 text-blue-400 bg-blue-500/10' : 'border-slate-800 text-slate-500 hover:text-white hover:border-slate-700'}`}
+          >
+            {t('nav.profile')}
+          </button>
+          <button
+            onClick={() => setView(view === 'audio' ? 'setup' : 'audio')}
+            className={`text-[10px] font-black uppercase tracking-[0.2em] px-5 py-2 rounded-full border transition-all ${view === 'audio' ? 'border-blue-500 text-blue-400 bg-blue-500/10' : 'border-slate-800 text-slate-500 hover:text-white hover:border-slate-700'}`}
+          >
+            {t('nav.audio')}
+          </button>
+          <select
+            value={nativeLanguage}
+            onChange={e => setNativeLanguage(e.target.value)}
+            aria-label={t('nav.nativeLanguage')}
+            title={t('nav.nativeLanguage')}
+            className="text-[10px] font-black uppercase tracking-[0.2em] px-4 py-2 rounded-full border border-slate-800 bg-slate-950 text-slate-500 hover:text-white hover:border-slate-700 outline-none"
+          >
+            {NATIVE_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName}</option>)}
+          </select>
+        </nav>
 
-        {/* Selection Content */}
-        <div className="flex-1">
-          {step === 1 && (
-            <div className="animate-in fade-in slide-in-from-bottom-4 duration-700">
-              <h2 className="text-2xl font-black text-center mb-8">Select Your Speaking Partner</h2>
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-                {AVATARS.map(a => <AvatarCard key={a.id} avatar={a} isSelected={selectedAvatar?.id === a.id} onSelect={setSelectedAvatar} />)}
-              </div>
-              <div className="mt-12 flex justify-center">
-                <button 
-                  disabled={!selectedAvatar} 
-                  onClick={() => setStep(2)} 
-                  className="bg-white text-slate-950 hover:bg-slate-200 disabled:opacity-20 px-16 py-4 rounded-2xl font-black text-lg transition-all active:scale-95 shadow-2xl"
-                >
-                  Next Step
-                </button>
+        {view === 'report' && reportSession && (
+          <CallReport
+            session={reportSession}
+            avatarName={allAvatars.find(a => a.id === reportSession.avatarId)?.name ?? 'Coach'}
+            onReportReady={setReportSession}
+            onClose={() => setView('setup')}
+          />
+        )}
+
+        {view === 'placement' && (
+          <PlacementReport result={placementReport} onClose={() => setView('setup')} />
+        )}
+
+        {view === 'sessions' && (
+          <SessionLibrary avatars={allAvatars} onContinue={continueSession} onClose={() => setView('setup')} />
+        )}
+
+        {view === 'vocabulary' && (
+          <VocabularyNotebook language={targetLanguage} onClose={() => setView('setup')} />
+        )}
+
+        {view === 'progress' && (
+          <ProgressDashboard avatars={allAvatars} onClose={() => setView('setup')} />
+        )}
+
+        {view === 'profile' && (
+          <LearnerProfilePanel language={targetLanguage} onClose={() => setView('setup')} />
+        )}
+
+        {view === 'audio' && (
+          <AudioSettingsPanel
+            settings={audioSettings}
+            onChange={settings => {
+              setAudioSettings(settings);
+              saveAudioSettings(settings).catch(err => console.error('Failed to save audio settings', err));
+            }}
+            onClose={() => setView('setup')}
+          />
+        )}
+
+        {view === 'setup' && (
+          <>
+          {/* Step Indicator */}
+          <div className="flex justify-center gap-12 mb-12 relative">
+            {[1, 2, 3].map(n => (
+              <div key={n} className="flex flex-col items-center gap-3 relative z-10">
+                <div className={`w-10 h-10 rounded-xl flex items-center justify-center font-black text-sm border-2 transition-all duration-500 ${step >= n ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-600'}`}>
+                  {n}
+                </div>
+                <span className={`text-[10px] font-black uppercase tracking-widest ${step >= n ? 'text-blue-400' : 'text-slate-700'}`}>
+                  {t(n === 1 ? 'steps.coach' : n === 2 ? 'steps.level' : 'steps.mode')}
+                </span>
               </div>
-            </div>
-          )}
+            ))}
+            <div className="absolute top-5 left-1/4 right-1/4 h-0.5 bg-slate-900 -z-0"></div>
+          </div>
 
-          {step === 2 && (
-            <div className="animate-in fade-in slide-in-from-right-8 duration-700 max-w-md mx-auto">
-              <h2 className="text-2xl font-black text-center mb-8">Current Proficiency</h2>
-              <div className="space-y-4">
-                {LEVELS.map(l => (
-                  <button 
-                    key={l} 
-                    onClick={() => setSelectedLevel(l as EnglishLevel)} 
-                    className={`w-full py-6 rounded-2xl border-2 font-black text-xl transition-all ${selectedLevel === l ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+          {/* Selection Content */}
+          <div className="flex-1">
+            {step === 1 && editingAvatar && (
+              <AvatarEditor
+                initial={editingAvatar}
+                isNew={!customAvatars.some(a => a.id === editingAvatar.id)}
+                onSaved={handleAvatarSaved}
+                onCancel={() => setEditingAvatar(null)}
+              />
+            )}
+
+            {step === 1 && !editingAvatar && (
+              <div className="animate-in fade-in slide-in-from-bottom-4 duration-700">
+                <h3 className="text-sm font-black uppercase tracking-widest text-slate-500 text-center mb-4">{t('setup.targetLanguage')}</h3>
+                <div className="flex justify-center gap-3 mb-10">
+                  {TARGET_LANGUAGES.map(l => (
+                    <button
+                      key={l.code}
+                      onClick={() => switchTargetLanguage(l.code).then(result => result && setSelectedLevel(result.band))}
+                      className={`px-6 py-3 rounded-2xl border-2 font-black capitalize transition-all ${targetLanguage === l.code ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+                    >
+                      {t(TARGET_LABELS[l.code])}
+                    </button>
+                  ))}
+                </div>
+                <h2 className="text-2xl font-black text-center mb-8">{t('setup.coachTitle')}</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                  {languageAvatars.map(a => (
+                    <AvatarCard
+                      key={a.id}
+                      avatar={a}
+                      isSelected={selectedAvatar?.id === a.id}
+                      onSelect={setSelectedAvatar}
+                      onEdit={a.custom ? setEditingAvatar : undefined}
+                      onDuplicate={handleDuplicateAvatar}
+                      onDelete={a.custom ? handleDeleteAvatar : undefined}
+                    />
+                  ))}
+                  <button
+                    onClick={() => setEditingAvatar(createBlankAvatar(createSessionId()))}
+                    className="rounded-2xl border-2 border-dashed border-slate-700 text-slate-500 hover:text-white hover:border-slate-500 transition-all flex flex-col items-center justify-center gap-2 p-8 min-h-[16rem]"
                   >
-                    {l}
+                    <span className="text-4xl font-black">+</span>
+                    <span className="text-xs font-black uppercase tracking-widest">{t('setup.createCoach')}</span>
                   </button>
-                ))}
-              </div>
-              <div className="flex justify-between mt-12">
-                <button onClick={() => setStep(1)} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Back</button>
-                <button onClick={() => setStep(3)} className="bg-blue-600 text-white px-12 py-4 rounded-2xl font-black shadow-lg shadow-blue-600/20 active:scale-95">Continue</button>
-              </div>
-            </div>
-          )}
-
-          {step === 3 && (
-            <div className="animate-in fade-in slide-in-from-right-8 duration-700 max-w-2xl mx-auto">
-              <h2 className="text-2xl font-black text-center mb-8">What do you want to practice?</h2>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                {PRACTICE_MODES.map(m => (
+                </div>
+                <div className="mt-12 flex justify-center">
                   <button 
-                    key={m} 
-                    onClick={() => setSelectedMode(m as PracticeType)} 
-                    className={`p-6 rounded-2xl border-2 text-left font-black transition-all ${selectedMode === m ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+                    disabled={!selectedAvatar} 
+                    onClick={() => setStep(2)} 
+                    className="bg-white text-slate-950 hover:bg-slate-200 disabled:opacity-20 px-16 py-4 rounded-2xl font-black text-lg transition-all active:scale-95 shadow-2xl"
                   >
-                    {m}
+                    {t('setup.next')}
                   </button>
-                ))}
+                </div>
               </div>
-              <div className="mt-12 flex flex-col items-center gap-8">
-                <div className="flex items-center gap-8">
-                  <button onClick={() => setStep(2)} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Back</button>
-                  <button 
-                    onClick={() => startCall()} 
-                    className="bg-green-600 hover:bg-green-500 text-white px-12 py-5 rounded-[2rem] text-2xl font-black shadow-2xl shadow-green-500/20 active:scale-95 flex items-center gap-4 group"
-                  >
-                    <span className="group-hover:rotate-12 transition-transform">📞</span>
-                    Start Calling
+            )}
+
+            {step === 2 && (
+              <div className="animate-in fade-in slide-in-from-right-8 duration-700 max-w-md mx-auto">
+                <h2 className="text-2xl font-black text-center mb-8">{t('setup.levelTitle')}</h2>
+                <div className="mb-8 bg-slate-900/50 border border-slate-800 rounded-2xl p-5 text-center">
+                  {lastPlacement ? (
+                    <>
+                      <p className="text-sm font-bold text-slate-300">
+                        {t('placement.result', { level: t(LEVEL_LABELS[lastPlacement.band]), date: formatDateTime(lastPlacement.takenAt) })}
+                      </p>
+                      {isRetestDue(lastPlacement) && <p className="text-xs text-amber-400 font-medium mt-2">{t('placement.retestDue')}</p>}
+                    </>
+                  ) : (
+                    <>
+                      <p className="font-black">{t('placement.prompt')}</p>
+                      <p className="text-xs text-slate-400 font-medium mt-1">{t('placement.promptBody')}</p>
+                    </>
+                  )}
+                  <div className="flex justify-center gap-3 mt-4">
+                    <button onClick={startPlacement} className="text-[10px] font-black uppercase tracking-widest px-5 py-2 rounded-full bg-blue-600 text-white hover:bg-blue-500">
+                      {t(lastPlacement ? 'placement.retake' : 'placement.start')}
+                    </button>
+                    {lastPlacement && (
+                      <button
+                        onClick={() => { setPlacementReport(lastPlacement); setView('placement'); }}
+                        className="text-[10px] font-black uppercase tracking-widest px-5 py-2 rounded-full border border-slate-700 text-slate-300 hover:text-white"
+                      >
+                        {t('placement.view')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  {LEVELS.map(l => (
+                    <button 
+                      key={l} 
+                      onClick={() => setSelectedLevel(l)} 
+                      className={`w-full py-5 rounded-2xl border-2 font-black text-lg transition-all ${selectedLevel === l ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+                    >
+                      {t(LEVEL_LABELS[l])}
+                    </button>
+                  ))}
+                </div>
+                {nativeLanguage !== targetLanguage && NATIVE_SUPPORT_LEVELS.includes(selectedLevel) && (
+                  <>
+                    <h3 className="text-sm font-black uppercase tracking-widest text-slate-500 text-center mt-10 mb-4">
+                      {t('setup.nativeSupport', { language: nativeLanguageInfo.nativeName })}
+                    </h3>
+                    <div className="space-y-2">
+                      {L1_POLICIES.map(p => (
+                        <button
+                          key={p}
+                          onClick={() => setL1Policy(p)}
+                          className={`w-full p-4 rounded-2xl border-2 text-left transition-all ${l1Policy === p ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+                        >
+                          <div className="font-black">{t(`l1.${p}.label`)}</div>
+                          <div className="text-xs font-medium mt-1 opacity-80">{t(`l1.${p}.description`, { language: targetLanguageName })}</div>
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-600 font-medium text-center mt-3">{t('setup.nativeSupportNote', { language: targetLanguageName })}</p>
+                  </>
+                )}
+                <div className="flex justify-between mt-12">
+                  <button onClick={() => setStep(1)} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">{t('setup.back')}</button>
+                  <button onClick={() => setStep(3)} className="bg-blue-600 text-white px-12 py-4 rounded-2xl font-black shadow-lg shadow-blue-600/20 active:scale-95">{t('setup.continue')}</button>
+                </div>
+              </div>
+            )}
+
+            {step === 3 && (
+              <div className="animate-in fade-in slide-in-from-right-8 duration-700 max-w-2xl mx-auto">
+                <h2 className="text-2xl font-black text-center mb-8">{t('setup.modeTitle')}</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {PRACTICE_MODES.map(m => (
+                    <button 
+                      key={m} 
+                      onClick={() => setSelectedMode(m as PracticeType)} 
+                      className={`p-6 rounded-2xl border-2 text-left font-black transition-all ${selectedMode === m ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+                    >
+                      {t(MODE_LABELS[m as PracticeType], { language: targetLanguageName })}
+                    </button>
+                  ))}
+                </div>
+                {selectedMode === 'Interview Practice' ? (
+                  <>
+                    <h3 className="text-sm font-black uppercase tracking-widest text-slate-500 text-center mt-10 mb-4">{t('setup.interview')}</h3>
+                    <InterviewSetup config={interviewConfig} onChange={setInterviewConfig} />
+                  </>
+                ) : selectedMode === 'Public Speaking' ? (
+                  <>
+                    <h3 className="text-sm font-black uppercase tracking-widest text-slate-500 text-center mt-10 mb-4">{t('setup.speech')}</h3>
+                    <MonologueSetup config={monologueConfig} onChange={setMonologueConfig} />
+                  </>
+                ) : selectedMode === 'Shadowing Drill' ? (
+                  <>
+                    <h3 className="text-sm font-black uppercase tracking-widest text-slate-500 text-center mt-10 mb-4">{t('setup.drill')}</h3>
+                    <DrillSetup config={drillConfig} onChange={setDrillConfig} />
+                  </>
+                ) : (
+                  <>
+                    <h3 className="text-sm font-black uppercase tracking-widest text-slate-500 text-center mt-10 mb-4">{t('setup.scenario')}</h3>
+                    <ScenarioPicker
+                      scenarios={languageScenarios}
+                      selectedId={selectedScenario?.id ?? null}
+                      onSelect={setSelectedScenario}
+                      onImported={scenario => setCustomScenarios(prev => [...prev.filter(s => s.id !== scenario.id), scenario].sort((a, b) => a.title.localeCompare(b.title)))}
+                      onDelete={handleDeleteScenario}
+                    />
+                  </>
+                )}
+                <h3 className="text-sm font-black uppercase tracking-widest text-slate-500 text-center mt-10 mb-4">{t('setup.microphone')}</h3>
+                {selectedMode === 'Public Speaking' ? (
+                  <p className="text-sm text-slate-400 font-medium text-center">
+                    {t('setup.speechMic')}
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    {INPUT_MODES.filter(m => selectedMode !== 'Shadowing Drill' || m !== 'text').map(m => (
+                      <button
+                        key={m}
+                        onClick={() => setSelectedInputMode(m)}
+                        className={`p-4 rounded-2xl border-2 text-left transition-all ${selectedInputMode === m ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+                      >
+                        <div className="font-black">{t(`input.${m}.label`)}</div>
+                        <div className="text-xs font-medium mt-1 opacity-80">{t(`input.${m}.description`)}</div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-4 text-center">
+                  <button onClick={() => setView('audio')} className="text-[10px] font-black uppercase tracking-widest text-blue-400 hover:text-white">
+                    {t('setup.audioCheck')}
                   </button>
                 </div>
-                <p className="text-xs text-slate-600 font-medium uppercase tracking-[0.2em]">Microphone access required</p>
+                <label className="mt-6 flex items-center justify-center gap-3 text-sm font-bold text-slate-400 cursor-pointer select-none">
+                  <input type="checkbox" checked={recordCall} onChange={e => setRecordCall(e.target.checked)} className="w-4 h-4 accent-blue-500" />
+                  {t('setup.record')}
+                </label>
+                <div className="mt-12 flex flex-col items-center gap-8">
+                  <div className="flex items-center gap-8">
+                    <button onClick={() => setStep(2)} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">{t('setup.back')}</button>
+                    <button 
+                      onClick={() => startCall()} 
+                      disabled={selectedMode === 'Public Speaking' && !monologueConfig.topic.trim()}
+                      className="bg-green-600 hover:bg-green-500 disabled:opacity-30 text-white px-12 py-5 rounded-[2rem] text-2xl font-black shadow-2xl shadow-green-500/20 active:scale-95 flex items-center gap-4 group"
+                    >
+                      <span className="group-hover:rotate-12 transition-transform">📞</span>
+                      {t('setup.start')}
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-600 font-medium uppercase tracking-[0.2em]">{t('setup.micRequired')}</p>
+                </div>
               </div>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,200 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioDeviceSettings } from '../types';
+import { AudioDeviceList, applyOutputDevice, canChooseOutput, deviceLabel, listAudioDevices } from '../services/audioDevices';
+import { MicCheck } from '../services/micCheck';
+
+interface AudioSettingsPanelProps {
+  settings: AudioDeviceSettings;
+  onChange: (settings: AudioDeviceSettings) => void;
+  onClose: () => void;
+}
+
+type CheckPhase = 'idle' | 'starting' | 'running' | 'recording' | 'playing';
+
+const SAMPLE_MS = 3000;
+
+const PROCESSING: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string; hint: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation', hint: 'Stops the coach hearing itself through your speakers.' },
+  { key: 'noiseSuppression', label: 'Noise suppression', hint: 'Filters out steady background noise such as fans.' },
+  { key: 'autoGainControl', label: 'Automatic gain', hint: 'Evens out your volume when you move closer or further away.' }
+];
+
+// Keeps the per-frame updates inside the bar, so the rest of the panel does not re-render
+const MicLevelBar: React.FC<{ check: MicCheck; active: boolean }> = ({ check, active }) => {
+  const [level, setLevel] = useState(0);
+  useEffect(() => {
+    if (!active) return;
+    let frame = requestAnimationFrame(function tick() {
+      setLevel(check.level());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      setLevel(0);
+    };
+  }, [check, active]);
+  return (
+    <div className="h-3 bg-slate-800 rounded-full overflow-hidden" role="meter" aria-label="Microphone level" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(level * 100)}>
+      <div className={`h-full rounded-full transition-[width] duration-75 ${level > 0.85 ? 'bg-red-500' : 'bg-green-500'}`} style={{ width: `${level * 100}%` }} />
+    </div>
+  );
+};
+
+/** Microphone and speaker choice, microphone processing, and a test of both before a call. */
+export const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const [devices, setDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] });
+  const [phase, setPhase] = useState<CheckPhase>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [activeLabel, setActiveLabel] = useState('');
+  const check = useRef(new MicCheck());
+  const player = useRef<HTMLAudioElement | null>(null);
+  const outputSupported = canChooseOutput();
+
+  const refreshDevices = useCallback(() => {
+    listAudioDevices()
+      .then(setDevices)
+      .catch(err => console.error('Failed to list audio devices', err));
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    const micCheck = check.current;
+    return () => {
+      navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+      micCheck.stop();
+      player.current?.pause();
+    };
+  }, [refreshDevices]);
+
+  const startCheck = async (next: AudioDeviceSettings) => {
+    setPhase('starting');
+    setError(null);
+    try {
+      await check.current.start(next);
+      setActiveLabel(check.current.deviceLabel);
+      setPhase('running');
+      // Device names are only revealed once the microphone has been allowed
+      refreshDevices();
+    } catch (err: any) {
+      check.current.stop();
+      setPhase('idle');
+      setError(err?.name === 'NotAllowedError' ? 'The browser blocked the microphone. Allow it in the address bar and try again.' : err?.message || 'Could not open the microphone.');
+    }
+  };
+
+  const stopCheck = () => {
+    check.current.stop();
+    player.current?.pause();
+    setPhase('idle');
+  };
+
+  const update = (next: AudioDeviceSettings) => {
+    onChange(next);
+    // Reopen the microphone so the test reflects the new choice
+    if (phase === 'running' && (next.inputDeviceId !== settings.inputDeviceId || PROCESSING.some(p => next[p.key] !== settings[p.key]))) {
+      startCheck(next);
+    }
+  };
+
+  const playBack = async () => {
+    setPhase('recording');
+    setError(null);
+    try {
+      const blob = await check.current.recordSample(SAMPLE_MS);
+      const url = URL.createObjectURL(blob);
+      const audio = new Audio(url);
+      player.current = audio;
+      if (settings.outputDeviceId) await applyOutputDevice(audio, settings.outputDeviceId).catch(() => false);
+      setPhase('playing');
+      audio.onended = () => {
+        URL.revokeObjectURL(url);
+        setPhase(check.current.isRunning ? 'running' : 'idle');
+      };
+      await audio.play();
+    } catch (err: any) {
+      setError(err?.message || 'Playback failed.');
+      setPhase(check.current.isRunning ? 'running' : 'idle');
+    }
+  };
+
+  const select = 'w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-sm text-white focus:border-blue-500 outline-none';
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 max-w-3xl mx-auto w-full space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-black">Audio</h2>
+          <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Used for every call on this device</p>
+        </div>
+        <button onClick={onClose} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Back</button>
+      </div>
+
+      <section className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6 space-y-4">
+        <h3 className="text-xs font-black uppercase tracking-widest text-blue-400">Devices</h3>
+        <div>
+          <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Microphone</label>
+          <select value={settings.inputDeviceId} onChange={e => update({ ...settings, inputDeviceId: e.target.value })} className={select}>
+            <option value="">System default</option>
+            {devices.inputs.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>{deviceLabel(d, i)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Speakers</label>
+          {outputSupported ? (
+            <select value={settings.outputDeviceId} onChange={e => update({ ...settings, outputDeviceId: e.target.value })} className={select}>
+              <option value="">System default</option>
+              {devices.outputs.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+                <option key={d.deviceId} value={d.deviceId}>{deviceLabel(d, i)}</option>
+              ))}
+            </select>
+          ) : (
+            <p className="text-sm text-slate-500">This browser always plays through the system's default output. Change it in your system sound settings.</p>
+          )}
+        </div>
+        {devices.inputs.length > 0 && devices.inputs.every(d => !d.label) && (
+          <p className="text-xs text-slate-500">Run the microphone check to see device names.</p>
+        )}
+      </section>
+
+      <section className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6 space-y-4">
+        <h3 className="text-xs font-black uppercase tracking-widest text-blue-400">Microphone processing</h3>
+        {PROCESSING.map(p => (
+          <label key={p.key} className="flex items-start gap-3 cursor-pointer select-none">
+            <input type="checkbox" checked={settings[p.key]} onChange={e => update({ ...settings, [p.key]: e.target.checked })} className="w-4 h-4 mt-0.5 accent-blue-500" />
+            <span>
+              <span className="block text-sm font-bold text-white">{p.label}</span>
+              <span className="block text-xs text-slate-500">{p.hint}</span>
+            </span>
+          </label>
+        ))}
+        <p className="text-xs text-slate-600">Turn echo cancellation off only when you use headphones.</p>
+      </section>
+
+      <section className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xs font-black uppercase tracking-widest text-blue-400">Microphone check</h3>
+          {phase === 'idle' || phase === 'starting' ? (
+            <button onClick={() => startCheck(settings)} disabled={phase === 'starting'} className="text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-full bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40">
+              {phase === 'starting' ? 'Opening...' : 'Start Check'}
+            </button>
+          ) : (
+            <button onClick={stopCheck} className="text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-full bg-slate-800 text-slate-300 hover:text-white">Stop</button>
+          )}
+        </div>
+        <MicLevelBar check={check.current} active={phase !== 'idle' && phase !== 'starting'} />
+        {phase !== 'idle' && phase !== 'starting' && (
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-xs text-slate-400 truncate">{activeLabel ? `Listening on ${activeLabel}` : 'Listening'}. Speak and watch the bar move.</p>
+            <button onClick={playBack} disabled={phase !== 'running'} className="shrink-0 text-[10px] font-black uppercase tracking-widest text-blue-400 hover:text-white disabled:opacity-50">
+              {phase === 'recording' ? 'Recording 3s...' : phase === 'playing' ? 'Playing back...' : 'Record & Play Back'}
+            </button>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-400 font-bold">{error}</p>}
+      </section>
+    </div>
+  );
+};
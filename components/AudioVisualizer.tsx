@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { GeminiLiveService } from '../services/geminiLiveService';
+import { AudioLevels, silentLevels } from '../services/audioLevels';
+
+// Each visualizer keeps its own state, so the per-frame updates only re-render it and not the call screen
+const useLevels = (service: GeminiLiveService | null): AudioLevels => {
+  const [levels, setLevels] = useState(silentLevels);
+  useEffect(() => {
+    if (!service) return;
+    const unsubscribe = service.subscribeLevels(setLevels);
+    return () => {
+      unsubscribe();
+      setLevels(silentLevels());
+    };
+  }, [service]);
+  return levels;
+};
+
+/** Frequency bars under the transcript: green while the learner talks, blue while the coach does. */
+export const SpectrumBars: React.FC<{ service: GeminiLiveService | null }> = ({ service }) => {
+  const { learnerSpectrum, coachSpectrum, speaking } = useLevels(service);
+  const spectrum = speaking === 'learner' ? learnerSpectrum : speaking === 'coach' ? coachSpectrum : learnerSpectrum.map((v, i) => Math.max(v, coachSpectrum[i]));
+  const color = speaking === 'learner' ? 'bg-green-500' : speaking === 'silence' ? 'bg-slate-700' : 'bg-blue-500';
+  return (
+    <div className="flex gap-1 items-end h-8" aria-hidden>
+      {spectrum.map((value, i) => (
+        <div key={i} className={`w-1 rounded-full transition-[height] duration-75 ${color}`} style={{ height: `${Math.max(12, value * 100)}%` }} />
+      ))}
+    </div>
+  );
+};
+
+/** Halo around the coach's portrait that swells with the loudness of the coach's voice. */
+export const CoachLevelRing: React.FC<{ service: GeminiLiveService | null }> = ({ service }) => {
+  const { coach } = useLevels(service);
+  return (
+    <>
+      <div
+        className="absolute inset-0 rounded-full border-4 border-blue-500/40 transition-transform duration-75"
+        style={{ transform: `scale(${1.1 + coach * 0.35})`, opacity: 0.2 + coach * 0.8 }}
+      />
+      <div
+        className="absolute inset-0 rounded-full border-2 border-blue-500/20 transition-transform duration-150"
+        style={{ transform: `scale(${1.1 + coach * 0.6})`, opacity: coach * 0.6 }}
+      />
+    </>
+  );
+};
@@ -6,9 +6,18 @@ interface AvatarCardProps {
   avatar: Avatar;
   isSelected: boolean;
   onSelect: (avatar: Avatar) => void;
+  onEdit?: (avatar: Avatar) => void;
+  onDuplicate?: (avatar: Avatar) => void;
+  onDelete?: (avatar: Avatar) => void;
 }
 
-export const AvatarCard: React.FC<AvatarCardProps> = ({ avatar, isSelected, onSelect }) => {
+export const AvatarCard: React.FC<AvatarCardProps> = ({ avatar, isSelected, onSelect, onEdit, onDuplicate, onDelete }) => {
+  const actions = [
+    { label: 'Edit', run: onEdit },
+    { label: 'Duplicate', run: onDuplicate },
+    { label: 'Delete', run: onDelete }
+  ].filter(a => a.run);
+
   return (
     <div 
       onClick={() => onSelect(avatar)}
@@ -24,6 +33,20 @@ export const AvatarCard: React.FC<AvatarCardProps> = ({ avatar, isSelected, onSe
       <h3 className="text-xl font-bold text-white mb-1">{avatar.name}</h3>
       <p className="text-blue-400 text-sm font-medium mb-3">{avatar.role}</p>
       <p className="text-slate-400 text-xs leading-relaxed">{avatar.description}</p>
+
+      {actions.length > 0 && (
+        <div className="mt-auto pt-4 flex gap-3">
+          {actions.map(a => (
+            <button
+              key={a.label}
+              onClick={e => { e.stopPropagation(); a.run!(avatar); }}
+              className={`text-[10px] font-black uppercase tracking-widest text-slate-500 ${a.label === 'Delete' ? 'hover:text-red-400' : 'hover:text-white'}`}
+            >
+              {a.label}
+            </button>
+          ))}
+        </div>
+      )}
       
       {isSelected && (
         <div className="absolute top-3 right-3 bg-blue-500 rounded-full p-1">
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Avatar, TargetLanguage, VoiceName } from '../types';
+import { SPEEDS, TARGET_LANGUAGES, VOICES } from '../constants';
+import { AVATAR_LIMITS, saveCustomAvatar, validateAvatar } from '../services/avatarStore';
+import { canPreviewVoices, playVoicePreview } from '../services/voicePreview';
+import { generateAvatarImage, resizeImageFile } from '../utils/avatarImage';
+
+interface AvatarEditorProps {
+  /** The coach to edit; a copy of a built-in coach or a blank draft for a new one. */
+  initial: Avatar;
+  isNew: boolean;
+  onSaved: (avatar: Avatar) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm text-white placeholder-slate-600 focus:border-blue-500 outline-none';
+const labelClass = 'block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2';
+
+export const createBlankAvatar = (id: string): Avatar => ({
+  id,
+  name: '',
+  role: '',
+  description: '',
+  tone: '',
+  speed: 'normal',
+  image: '',
+  voiceName: 'Kore',
+  custom: true
+});
+
+/** Form for creating or editing a custom coach. */
+export const AvatarEditor: React.FC<AvatarEditorProps> = ({ initial, isNew, onSaved, onCancel }) => {
+  const [draft, setDraft] = useState<Avatar>(initial);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [previewing, setPreviewing] = useState<VoiceName | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof Avatar>(field: K, value: Avatar[K]) => setDraft(prev => ({ ...prev, [field]: value }));
+
+  const toggleLanguage = (code: TargetLanguage) => {
+    const current = draft.languages ?? [];
+    update('languages', current.includes(code) ? current.filter(l => l !== code) : [...current, code]);
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      update('image', await resizeImageFile(file));
+    } catch (err: any) {
+      setErrors([err.message]);
+    }
+  };
+
+  const handlePreview = async (voiceName: VoiceName) => {
+    setPreviewing(voiceName);
+    try {
+      await playVoicePreview(voiceName, draft.languages?.[0]);
+    } catch (err: any) {
+      console.error('Voice preview failed', err);
+      setErrors([err.message || 'Could not play a preview of this voice.']);
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const handleSave = async () => {
+    // A coach saved without a picture gets a monogram
+    const avatar = draft.image || !draft.name.trim() ? draft : { ...draft, image: generateAvatarImage(draft.name) };
+    const problems = validateAvatar(avatar);
+    setErrors(problems);
+    if (problems.length) return;
+    setIsSaving(true);
+    try {
+      onSaved(await saveCustomAvatar(avatar));
+    } catch (err: any) {
+      setErrors([err.message || 'Could not save this coach.']);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 max-w-2xl mx-auto w-full">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-3xl font-black">{isNew ? 'New Coach' : 'Edit Coach'}</h2>
+        <button onClick={onCancel} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Cancel</button>
+      </div>
+
+      <div className="space-y-6">
+        <div className="flex items-center gap-6">
+          <div className="w-24 h-24 rounded-full overflow-hidden border-2 border-slate-700 bg-slate-900 shrink-0">
+            {draft.image && <img src={draft.image} alt="" className="w-full h-full object-cover" />}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <label className="cursor-pointer text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-full border border-slate-800 text-slate-400 hover:text-white">
+              Upload Picture
+              <input type="file" accept="image/*" className="hidden" onChange={e => handleUpload(e.target.files?.[0])} />
+            </label>
+            <button
+              onClick={() => update('image', generateAvatarImage(draft.name || 'Coach', `${draft.name}-${Date.now()}`))}
+              className="text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-full border border-slate-800 text-slate-400 hover:text-white"
+            >
+              Generate
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input className={inputClass} value={draft.name} maxLength={AVATAR_LIMITS.name} placeholder="Coach Maya" onChange={e => update('name', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Role</label>
+            <input className={inputClass} value={draft.role} maxLength={AVATAR_LIMITS.role} placeholder="Travel Conversation Guide" onChange={e => update('role', e.target.value)} />
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Tone</label>
+          <input className={inputClass} value={draft.tone} maxLength={AVATAR_LIMITS.tone} placeholder="Cheerful, curious and patient." onChange={e => update('tone', e.target.value)} />
+        </div>
+
+        <div>
+          <label className={labelClass}>Persona Notes</label>
+          <textarea
+            className={`${inputClass} h-24 resize-none`}
+            value={draft.description}
+            maxLength={AVATAR_LIMITS.description}
+            placeholder="Grew up in Dublin, loves hiking, asks lots of follow-up questions."
+            onChange={e => update('description', e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>Speaking Speed</label>
+          <div className="grid grid-cols-3 gap-3">
+            {SPEEDS.map(s => (
+              <button
+                key={s.id}
+                onClick={() => update('speed', s.id)}
+                className={`py-3 rounded-xl border-2 font-black text-sm transition-all ${draft.speed === s.id ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Teaches</label>
+          <div className="grid grid-cols-3 gap-3">
+            {TARGET_LANGUAGES.map(l => (
+              <button
+                key={l.code}
+                onClick={() => toggleLanguage(l.code)}
+                className={`py-3 rounded-xl border-2 font-black text-sm transition-all ${draft.languages?.includes(l.code) ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+              >
+                {l.name}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-600 mt-2">Leave all unselected for a coach who teaches every language.</p>
+        </div>
+
+        <div>
+          <label className={labelClass}>Voice</label>
+          <div className="space-y-2">
+            {VOICES.map(v => (
+              <div
+                key={v.name}
+                onClick={() => update('voiceName', v.name)}
+                className={`flex items-center justify-between px-4 py-3 rounded-xl border-2 cursor-pointer transition-all ${draft.voiceName === v.name ? 'border-blue-500 bg-blue-600/10' : 'border-slate-800 hover:border-slate-700'}`}
+              >
+                <div>
+                  <span className="font-black text-white">{v.name}</span>
+                  <span className="text-slate-500 text-xs ml-2">{v.description}</span>
+                </div>
+                {canPreviewVoices() && (
+                  <button
+                    onClick={e => { e.stopPropagation(); handlePreview(v.name); }}
+                    disabled={previewing !== null}
+                    className="text-[10px] font-black uppercase tracking-widest text-blue-400 hover:text-white disabled:opacity-40"
+                  >
+                    {previewing === v.name ? 'Playing...' : 'Preview'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="bg-red-500/10 border border-red-500/20 p-4 rounded-xl space-y-1">
+            {errors.map(e => <li key={e} className="text-red-400 text-xs font-bold">{e}</li>)}
+          </ul>
+        )}
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white py-4 rounded-2xl font-black text-lg transition-all active:scale-95"
+        >
+          Save Coach
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { FeedbackReport, StoredSession } from '../types';
+import { createFeedbackProvider } from '../services/feedbackReport';
+import { saveSession } from '../services/sessionStore';
+import { addVocabulary } from '../services/vocabularyStore';
+import { extractVocabulary } from '../utils/vocabularyExtraction';
+import { recordReportInProfile, reportSinceTurn } from '../services/learnerProfile';
+import { ERROR_CATEGORIES } from '../constants';
+import { formatDuration, languageName } from '../utils/format';
+import { FluencySummary } from './FluencyHud';
+import { InterviewScorecard } from './InterviewScorecard';
+import { MonologueSummary } from './MonologueSummary';
+import { DrillSummary } from './DrillSummary';
+
+interface CallReportProps {
+  session: StoredSession;
+  avatarName: string;
+  onReportReady?: (session: StoredSession) => void;
+  onClose: () => void;
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6">
+    <h3 className="text-xs font-black uppercase tracking-widest text-blue-400 mb-4">{title}</h3>
+    {children}
+  </section>
+);
+
+/**
+ * Results screen for a finished call. Shows the stored report, or generates one
+ * and saves it onto the session the first time it is opened.
+ */
+export const CallReport: React.FC<CallReportProps> = ({ session, avatarName, onReportReady, onClose }) => {
+  const [report, setReport] = useState<FeedbackReport | null>(session.report ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [savedWords, setSavedWords] = useState(0);
+
+  useEffect(() => {
+    if (session.report) {
+      setReport(session.report);
+      return;
+    }
+    let cancelled = false;
+    setError(null);
+    createFeedbackProvider()
+      .generate({ turns: session.turns, level: session.level, language: session.language, mode: session.mode })
+      .then(async generated => {
+        if (cancelled) return;
+        const updated = { ...session, report: generated, profileTurns: session.turns.length };
+        setReport(generated);
+        await saveSession(updated);
+        onReportReady?.(updated);
+        // Collect new words into the notebook once, when the report is first made
+        addVocabulary(extractVocabulary(session.turns, generated), session.id, session.language)
+          .then(added => { if (!cancelled) setSavedWords(added.length); })
+          .catch(err => console.error('Failed to save vocabulary', err));
+        // A continued session's earlier turns were counted when it was first reported on
+        recordReportInProfile(reportSinceTurn(generated, session.turns, session.profileTurns ?? 0), session.language).catch(err => console.error('Failed to update learner profile', err));
+      })
+      .catch(err => {
+        console.error('Report generation failed', err);
+        if (!cancelled) setError(err?.message || 'Could not generate your report.');
+      });
+    return () => { cancelled = true; };
+  }, [session.id, attempt]);
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 max-w-3xl mx-auto w-full space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-3xl font-black">Call Report</h2>
+          <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">
+            {avatarName} · {languageName(session.language)} · {session.mode} · {session.level} · {formatDuration(session.durationMs)}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Done</button>
+      </div>
+
+      {!report && !error && (
+        <div className="text-blue-400 font-black animate-pulse uppercase tracking-[0.3em] text-sm text-center py-16">Reviewing your call...</div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 p-6 rounded-2xl text-center">
+          <p className="text-red-400 text-sm font-bold mb-3">{error}</p>
+          <button onClick={() => setAttempt(a => a + 1)} className="text-[10px] font-black uppercase tracking-widest bg-red-500 text-white px-4 py-2 rounded-full">Try Again</button>
+        </div>
+      )}
+
+      {session.interview && (
+        <Section title="Interview Scorecard">
+          <InterviewScorecard interview={session.interview} />
+        </Section>
+      )}
+
+      {session.monologue && (
+        <Section title="Speech Delivery">
+          <MonologueSummary monologue={session.monologue} language={session.language} />
+        </Section>
+      )}
+
+      {session.drill && (
+        <Section title="Shadowing Drill">
+          <DrillSummary drill={session.drill} />
+        </Section>
+      )}
+
+      <Section title="Speaking Stats">
+        <FluencySummary turns={session.turns} language={session.language} />
+      </Section>
+
+      {report && (
+        <>
+          <p className="text-slate-300 text-lg font-medium leading-relaxed">{report.summary}</p>
+
+          <Section title="Grammar Corrections">
+            {report.grammarCorrections.length === 0 ? (
+              <p className="text-sm text-slate-400">No corrections this time. Nice work!</p>
+            ) : (
+              <ul className="space-y-4">
+                {report.grammarCorrections.map((c, i) => (
+                  <li key={i} className="text-sm">
+                    <p className="text-red-300 line-through decoration-red-500/50">{c.original}</p>
+                    <p className="text-green-300 font-bold">{c.corrected}</p>
+                    <p className="text-slate-400 text-xs mt-1">
+                      {c.category && <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 mr-2">{ERROR_CATEGORIES.find(e => e.id === c.category)?.label}</span>}
+                      {c.explanation}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Section>
+
+          {report.vocabulary.length > 0 && (
+            <Section title="Vocabulary to Try">
+              <ul className="space-y-3">
+                {report.vocabulary.map((v, i) => (
+                  <li key={i} className="text-sm">
+                    <span className="font-black text-white">{v.word}</span>
+                    {v.replaces && <span className="text-slate-500"> instead of "{v.replaces}"</span>}
+                    <span className="text-slate-400">: {v.meaning}</span>
+                    <p className="text-slate-500 italic text-xs mt-0.5">{v.example}</p>
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Section title="Strengths">
+              <ul className="space-y-2 text-sm text-slate-300 list-disc list-inside">
+                {report.strengths.map((s, i) => <li key={i}>{s}</li>)}
+              </ul>
+            </Section>
+            <Section title="Next Steps">
+              <ul className="space-y-2 text-sm text-slate-300 list-disc list-inside">
+                {report.nextSteps.map((s, i) => <li key={i}>{s}</li>)}
+              </ul>
+            </Section>
+          </div>
+
+          {savedWords > 0 && (
+            <p className="text-xs text-slate-400 font-bold text-center">
+              {savedWords} new {savedWords === 1 ? 'word was' : 'words were'} added to your vocabulary notebook.
+            </p>
+          )}
+
+          {report.source === 'local' && (
+            <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest text-center">Generated offline</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
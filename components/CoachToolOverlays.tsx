@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { CefrBand } from '../types';
+import { CoachToolCall } from '../services/coachTools';
+import { Translate } from '../utils/i18n';
+
+export interface LessonEnd {
+  id: string;
+  summary: string;
+  /** Set once the coach has finished saying goodbye; null until then. */
+  endsAt: number | null;
+}
+
+interface CoachToolOverlaysProps {
+  cards: CoachToolCall[];
+  lessonEnd: LessonEnd | null;
+  onDismiss: (id: string) => void;
+  onEndNow: () => void;
+  onKeepTalking: () => void;
+  t: Translate;
+}
+
+const card = 'bg-slate-900/80 border border-slate-800 rounded-2xl p-4 backdrop-blur w-72 max-w-full animate-in fade-in slide-in-from-left-4';
+const heading = 'text-[10px] font-black uppercase tracking-widest';
+
+const DismissButton: React.FC<{ onClick: () => void; t: Translate }> = ({ onClick, t }) => (
+  <button onClick={onClick} className="text-slate-600 hover:text-white font-black leading-none" aria-label={t('tools.dismiss')}>×</button>
+);
+
+const LessonEndCard: React.FC<{ lessonEnd: LessonEnd; onEndNow: () => void; onKeepTalking: () => void; t: Translate }> = ({ lessonEnd, onEndNow, onKeepTalking, t }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (lessonEnd.endsAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [lessonEnd.endsAt]);
+  const seconds = lessonEnd.endsAt === null ? null : Math.max(0, Math.ceil((lessonEnd.endsAt - now) / 1000));
+  return (
+    <div className={`${card} border-green-500/30`}>
+      <p className={`${heading} text-green-400 mb-2`}>{t('tools.lessonComplete')}</p>
+      {lessonEnd.summary && <p className="text-sm text-slate-200 font-medium leading-snug">{lessonEnd.summary}</p>}
+      <p className="text-[10px] text-slate-500 font-bold mt-2">{seconds === null ? t('tools.sayingGoodbye') : t('tools.endingIn', { seconds })}</p>
+      <div className="flex gap-2 mt-3">
+        <button onClick={onKeepTalking} className="flex-1 text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-full bg-slate-800 text-slate-300 hover:text-white">{t('tools.keepTalking')}</button>
+        <button onClick={onEndNow} className="flex-1 text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-full bg-green-600 text-white hover:bg-green-500">{t('tools.endNow')}</button>
+      </div>
+    </div>
+  );
+};
+
+/** What the coach has put on screen during the call: corrections, pinned words, example sentences and level changes. */
+export const CoachToolOverlays: React.FC<CoachToolOverlaysProps> = ({ cards, lessonEnd, onDismiss, onEndNow, onKeepTalking, t }) => {
+  const pinned = cards.filter((c): c is Extract<CoachToolCall, { name: 'pin_word' }> => c.name === 'pin_word');
+  const others = cards.filter(c => c.name !== 'pin_word');
+  return (
+    <div className="space-y-3">
+      {lessonEnd && <LessonEndCard lessonEnd={lessonEnd} onEndNow={onEndNow} onKeepTalking={onKeepTalking} t={t} />}
+      {others.map(c => {
+        switch (c.name) {
+          case 'show_correction':
+            return (
+              <div key={c.id} className={card}>
+                <div className="flex justify-between items-start mb-2">
+                  <p className={`${heading} text-amber-400`}>{t('tools.correction')}</p>
+                  <DismissButton onClick={() => onDismiss(c.id)} t={t} />
+                </div>
+                <p className="text-sm text-red-300 line-through decoration-red-500/50">{c.args.original}</p>
+                <p className="text-sm text-green-300 font-bold mt-1">{c.args.corrected}</p>
+                {c.args.explanation && <p className="text-xs text-slate-400 mt-2">{c.args.explanation}</p>}
+              </div>
+            );
+          case 'show_example':
+            return (
+              <div key={c.id} className={card}>
+                <div className="flex justify-between items-start mb-2">
+                  <p className={`${heading} text-blue-400`}>{t('tools.example')}</p>
+                  <DismissButton onClick={() => onDismiss(c.id)} t={t} />
+                </div>
+                <p className="text-base text-white font-bold leading-snug">{c.args.sentence}</p>
+                {c.args.note && <p className="text-xs text-slate-400 mt-2">{c.args.note}</p>}
+              </div>
+            );
+          case 'set_difficulty':
+            return (
+              <div key={c.id} className={card}>
+                <div className="flex justify-between items-start mb-1">
+                  <p className={`${heading} text-purple-400`}>{t('tools.levelChanged', { level: t(`level.${c.args.level.toLowerCase() as Lowercase<CefrBand>}`) })}</p>
+                  <DismissButton onClick={() => onDismiss(c.id)} t={t} />
+                </div>
+                {c.args.reason && <p className="text-xs text-slate-400">{c.args.reason}</p>}
+              </div>
+            );
+          default:
+            return null;
+        }
+      })}
+      {pinned.length > 0 && (
+        <div className={card}>
+          <p className={`${heading} text-blue-400 mb-2`}>{t('tools.pinned')}</p>
+          <ul className="space-y-2">
+            {pinned.map(c => (
+              <li key={c.id} className="flex justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-black text-white">{c.args.word}</p>
+                  {c.args.meaning && <p className="text-xs text-slate-400">{c.args.meaning}</p>}
+                </div>
+                <DismissButton onClick={() => onDismiss(c.id)} t={t} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
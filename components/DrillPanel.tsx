@@ -0,0 +1,68 @@
+import React from 'react';
+import { DrillState, DRILL_PASS_SCORE, bestScore } from '../services/drillController';
+import { Translate } from '../utils/i18n';
+import { WordDiffView } from './WordDiffView';
+
+interface DrillPanelProps {
+  state: DrillState;
+  t: Translate;
+  onRetry: () => void;
+  onNext: () => void;
+}
+
+export const scoreColor = (score: number) => score >= DRILL_PASS_SCORE ? 'text-green-400' : score >= 50 ? 'text-amber-400' : 'text-red-400';
+
+/** The sentence to repeat, how the last attempt went, and the controls to retry or move on, on the call screen. */
+export const DrillPanel: React.FC<DrillPanelProps> = ({ state, t, onRetry, onNext }) => {
+  const item = state.items[state.index];
+  const last = item?.attempts[item.attempts.length - 1];
+
+  return (
+    <div className="bg-slate-900/70 border border-slate-800 rounded-2xl p-4 backdrop-blur w-72 max-w-full">
+      {item ? (
+        <>
+          <div className="flex justify-between items-baseline mb-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-blue-400">
+              {t('drill.progress', { number: state.index + 1, total: state.items.length })}
+            </span>
+            {item.attempts.length > 0 && (
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                {t(item.attempts.length === 1 ? 'drill.attempts.one' : 'drill.attempts.other', { count: item.attempts.length, best: bestScore(item) })}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-slate-200 font-medium leading-snug">{item.text}</p>
+          {last ? (
+            <div className="mt-3 border-t border-slate-800 pt-3">
+              <div className="flex justify-between items-baseline mb-1">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('drill.lastAttempt')}</span>
+                <span className={`text-lg font-black tabular-nums ${scoreColor(last.score)}`}>{last.score}</span>
+              </div>
+              <WordDiffView diff={last.diff} />
+            </div>
+          ) : (
+            <p className="text-[10px] text-slate-500 font-bold mt-3">
+              {state.presented ? t('drill.repeatNow') : t('drill.listenFirst')}
+            </p>
+          )}
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={onRetry}
+              className={`flex-1 text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-full ${last && last.score < DRILL_PASS_SCORE ? 'bg-blue-600 text-white hover:bg-blue-500' : 'bg-slate-800 text-slate-300 hover:text-white'}`}
+            >
+              {t('drill.tryAgain')}
+            </button>
+            <button
+              onClick={onNext}
+              className={`flex-1 text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-full ${last && last.score < DRILL_PASS_SCORE ? 'bg-slate-800 text-slate-300 hover:text-white' : 'bg-blue-600 text-white hover:bg-blue-500'}`}
+            >
+              {state.index + 1 === state.items.length ? t('panel.finish') : t('drill.nextSentence')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-slate-300 font-medium">{t('drill.complete')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { DrillConfig, PracticeType } from '../types';
+import { DRILL_SENTENCE_COUNTS, DRILL_SOURCES, PRACTICE_MODES } from '../constants';
+
+interface DrillSetupProps {
+  config: DrillConfig;
+  onChange: (config: DrillConfig) => void;
+}
+
+const DRILL_PRACTICE_TYPES = PRACTICE_MODES.filter(m => m !== 'Shadowing Drill') as PracticeType[];
+
+/** Where the drill's sentences come from and how many there are. */
+export const DrillSetup: React.FC<DrillSetupProps> = ({ config, onChange }) => {
+  const pill = (selected: boolean) =>
+    `px-4 py-2 rounded-xl border-2 text-sm font-black transition-all ${selected ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Sentences from</label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {DRILL_SOURCES.map(s => (
+            <button key={s.id} onClick={() => onChange({ ...config, source: s.id })} className={`${pill(config.source === s.id)} text-left`}>
+              <div>{s.label}</div>
+              <div className="text-xs font-medium opacity-80">{s.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+      {config.source === 'practice' && (
+        <div>
+          <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Practice type</label>
+          <div className="flex flex-wrap gap-2">
+            {DRILL_PRACTICE_TYPES.map(m => (
+              <button key={m} onClick={() => onChange({ ...config, practiceType: m })} className={pill(config.practiceType === m)}>{m}</button>
+            ))}
+          </div>
+        </div>
+      )}
+      <div>
+        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Sentences</label>
+        <div className="flex gap-2">
+          {DRILL_SENTENCE_COUNTS.map(n => (
+            <button key={n} onClick={() => onChange({ ...config, sentenceCount: n })} className={pill(config.sentenceCount === n)}>{n}</button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 font-medium text-center">
+        {config.source === 'mistakes'
+          ? 'If you have not made enough mistakes yet, the drill is topped up with sentences for your level.'
+          : 'The coach says each sentence; repeat it as closely as you can and see which words were heard.'}
+      </p>
+    </div>
+  );
+};
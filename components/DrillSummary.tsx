@@ -0,0 +1,47 @@
+import React from 'react';
+import { DrillRecord } from '../types';
+import { bestScore, drillScore } from '../services/drillController';
+import { scoreColor } from './DrillPanel';
+import { WordDiffLegend, WordDiffView } from './WordDiffView';
+
+/** Each drilled sentence with its best attempt, and how many tries it took. */
+export const DrillSummary: React.FC<{ drill: DrillRecord }> = ({ drill }) => {
+  const overall = drillScore(drill.items);
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-baseline gap-4">
+        <WordDiffLegend />
+        {overall !== null && <span className={`text-2xl font-black tabular-nums ${scoreColor(overall)}`}>{overall}<span className="text-xs text-slate-500"> / 100</span></span>}
+      </div>
+      {drill.items.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">No sentences were drilled.</p>
+      ) : (
+        <ol className="space-y-4">
+          {drill.items.map((item, i) => {
+            const best = [...item.attempts].sort((a, b) => b.score - a.score)[0];
+            const retries = Math.max(0, item.attempts.length - 1);
+            return (
+              <li key={`${item.sentenceId}-${i}`} className="border-t border-slate-800 pt-4">
+                <div className="flex justify-between gap-4">
+                  <p className="text-sm text-white font-bold">{item.text}</p>
+                  {best && <span className={`text-sm font-black tabular-nums ${scoreColor(bestScore(item))}`}>{bestScore(item)}</span>}
+                </div>
+                {best ? (
+                  <>
+                    <div className="mt-2"><WordDiffView diff={best.diff} /></div>
+                    <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-1">
+                      {retries === 0 ? 'First try' : `${retries} retr${retries === 1 ? 'y' : 'ies'}`}
+                      {item.attempts.length > 1 && ` · scores ${item.attempts.map(a => a.score).join(' → ')}`}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-xs text-slate-500 italic mt-1">Not attempted.</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
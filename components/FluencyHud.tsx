@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { ChatTurn, TargetLanguage } from '../types';
+import { computeSessionMetrics, computeTurnMetrics } from '../utils/fluencyMetrics';
+import { Translate } from '../utils/i18n';
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="flex flex-col items-center" title={hint}>
+    <span className="text-sm font-black text-white tabular-nums">{value}</span>
+    <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">{label}</span>
+  </div>
+);
+
+/** Compact live readout of the learner's fluency, shown on the call screen. */
+export const FluencyHud: React.FC<{ turns: ChatTurn[]; language: TargetLanguage; t: Translate }> = ({ turns, language, t }) => {
+  const session = useMemo(() => computeSessionMetrics(turns, language), [turns, language]);
+  const lastUserTurn = useMemo(() => [...turns].reverse().find(t => t.role === 'user' && !t.typed), [turns]);
+  const last = lastUserTurn ? computeTurnMetrics(lastUserTurn, language) : null;
+
+  if (session.userTurns === 0) return null;
+
+  return (
+    <div className="flex gap-5 bg-slate-900/70 border border-slate-800 rounded-2xl px-4 py-2 backdrop-blur">
+      <Stat label={t('hud.wpm')} value={last?.wpm != null ? String(last.wpm) : '–'} hint={t('hud.wpmHint')} />
+      <Stat label={t('hud.avgWpm')} value={session.wpm != null ? String(session.wpm) : '–'} />
+      <Stat label={t('hud.fillers')} value={String(session.fillerCount)} hint={t('hud.fillersHint')} />
+      <Stat label={t('hud.variety')} value={session.typeTokenRatio.toFixed(2)} hint={t('hud.varietyHint')} />
+      <Stat label={t('hud.wordsPerTurn')} value={session.avgUtteranceLength.toFixed(1)} />
+    </div>
+  );
+};
+
+/** Full session totals for the results screen. */
+export const FluencySummary: React.FC<{ turns: ChatTurn[]; language: TargetLanguage }> = ({ turns, language }) => {
+  const m = useMemo(() => computeSessionMetrics(turns, language), [turns, language]);
+  if (m.userTurns === 0) return null;
+
+  const rows: [string, string][] = [
+    ['Speaking pace', m.wpm != null ? `${m.wpm} words/min` : 'Not measured'],
+    ['Words spoken', `${m.totalWords} in ${m.userTurns} turns`],
+    ['Average answer', `${m.avgUtteranceLength.toFixed(1)} words`],
+    ['Vocabulary variety', `${Math.round(m.typeTokenRatio * 100)}% different words`],
+    ['Filler words', `${m.fillerCount} (${m.fillerRate.toFixed(1)} per 100 words)${m.topFillers.length ? `: ${m.topFillers.map(([f, n]) => `"${f}" ×${n}`).join(', ')}` : ''}`],
+    ['Pauses', m.pauseCount ? `${m.pauseCount}, average ${(m.avgPauseMs! / 1000).toFixed(1)}s, longest ${(m.longestPauseMs / 1000).toFixed(1)}s` : 'None measured']
+  ];
+  if (m.typedTurns > 0) rows.push(['Typed turns', `${m.typedTurns}, not counted above`]);
+
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label}>
+          <dt className="text-[10px] font-black uppercase tracking-widest text-slate-500">{label}</dt>
+          <dd className="text-slate-200 font-medium">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { InterviewState } from '../services/interviewController';
+import { averageStarScore } from '../services/interviewScoring';
+import { formatDuration } from '../utils/format';
+import { Translate } from '../utils/i18n';
+
+interface InterviewPanelProps {
+  state: InterviewState;
+  t: Translate;
+  onFollowUp: () => void;
+  onNext: () => void;
+}
+
+/** Current question, answer timer and pacing controls on the call screen. */
+export const InterviewPanel: React.FC<InterviewPanelProps> = ({ state, t, onFollowUp, onNext }) => {
+  const [now, setNow] = useState(Date.now());
+  const question = state.questions[state.index];
+
+  useEffect(() => {
+    if (state.answerStartedAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [state.answerStartedAt]);
+
+  const lastScored = [...state.answers].reverse().find(a => a.score);
+
+  return (
+    <div className="bg-slate-900/70 border border-slate-800 rounded-2xl p-4 backdrop-blur w-72 max-w-full">
+      {question ? (
+        <>
+          <div className="flex justify-between items-baseline mb-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-blue-400">
+              {t('interview.progress', { number: state.index + 1, total: state.questions.length, category: t(`interview.category.${question.category}`) })}
+            </span>
+            <span className="text-xs font-black text-white tabular-nums">
+              {state.answerStartedAt === null ? '–' : formatDuration(Math.max(0, now - state.answerStartedAt))}
+            </span>
+          </div>
+          <p className="text-sm text-slate-200 font-medium leading-snug">{question.text}</p>
+          {state.followUps > 0 && (
+            <p className="text-[10px] text-slate-500 font-bold mt-1">{t(state.followUps === 1 ? 'interview.followUps.one' : 'interview.followUps.other', { count: state.followUps })}</p>
+          )}
+          <div className="flex gap-2 mt-4">
+            <button onClick={onFollowUp} className="flex-1 text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-full border border-slate-700 text-slate-300 hover:text-white">
+              {t('interview.followUp')}
+            </button>
+            <button onClick={onNext} className="flex-1 text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-full bg-blue-600 text-white hover:bg-blue-500">
+              {state.index + 1 === state.questions.length ? t('panel.finish') : t('panel.nextQuestion')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-slate-300 font-medium">{t('interview.complete')}</p>
+      )}
+      {lastScored?.score && (
+        <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-3">
+          {t('interview.lastScored')} <span className="text-white">{averageStarScore(lastScored.score).toFixed(1)} / 5</span>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { InterviewRecord, StarScore } from '../types';
+import { averageStarScore, STAR_CRITERIA } from '../services/interviewScoring';
+import { formatDuration } from '../utils/format';
+
+const ScoreBar: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div className="flex items-center gap-3 text-xs">
+    <span className="w-24 text-slate-400 font-bold">{label}</span>
+    <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+      <div className="h-full bg-blue-500 rounded-full" style={{ width: `${(value / 5) * 100}%` }} />
+    </div>
+    <span className="w-8 text-right text-white font-black tabular-nums">{value.toFixed(1)}</span>
+  </div>
+);
+
+/** Per-answer STAR scores and the averages across the interview. */
+export const InterviewScorecard: React.FC<{ interview: InterviewRecord }> = ({ interview }) => {
+  const scores = interview.answers.map(a => a.score).filter((s): s is StarScore => !!s);
+  const averageOf = (key: typeof STAR_CRITERIA[number]['key']) =>
+    scores.length ? scores.reduce((sum, s) => sum + s[key], 0) / scores.length : 0;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-slate-500 font-bold uppercase tracking-widest">
+        {interview.config.seniority} {interview.config.role || 'role'} · {interview.answers.length} questions
+      </p>
+
+      {scores.length > 0 && (
+        <div className="space-y-2">
+          {STAR_CRITERIA.map(c => <ScoreBar key={c.key} label={c.label} value={averageOf(c.key)} />)}
+        </div>
+      )}
+
+      <ol className="space-y-4">
+        {interview.answers.map((answer, i) => (
+          <li key={`${answer.questionId}-${i}`} className="border-t border-slate-800 pt-4">
+            <div className="flex justify-between gap-4">
+              <p className="text-sm text-white font-bold">{i + 1}. {answer.question}</p>
+              {answer.score && (
+                <span className="text-sm font-black text-blue-400 tabular-nums shrink-0">{averageStarScore(answer.score).toFixed(1)}</span>
+              )}
+            </div>
+            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-1">
+              {answer.category} · {formatDuration(answer.answerMs)}{answer.followUps ? ` · ${answer.followUps} follow-up${answer.followUps === 1 ? '' : 's'}` : ''}
+            </p>
+            {!answer.transcript ? (
+              <p className="text-xs text-slate-500 italic mt-2">Not answered.</p>
+            ) : answer.score ? (
+              <>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+                  {STAR_CRITERIA.map(c => (
+                    <span key={c.key} className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                      {c.label} <span className="text-slate-200">{answer.score![c.key]}</span>
+                    </span>
+                  ))}
+                </div>
+                {answer.score.comment && <p className="text-xs text-slate-400 mt-2">{answer.score.comment}</p>}
+              </>
+            ) : (
+              <p className="text-xs text-slate-500 italic mt-2">Not scored.</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
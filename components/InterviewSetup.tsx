@@ -0,0 +1,66 @@
+import React from 'react';
+import { InterviewConfig, QuestionCategory } from '../types';
+import { QUESTION_CATEGORIES, SENIORITIES } from '../constants';
+
+interface InterviewSetupProps {
+  config: InterviewConfig;
+  onChange: (config: InterviewConfig) => void;
+}
+
+const QUESTION_COUNTS = [3, 5, 8];
+
+/** Role, seniority and question mix for a structured interview. */
+export const InterviewSetup: React.FC<InterviewSetupProps> = ({ config, onChange }) => {
+  const toggleCategory = (category: QuestionCategory) => {
+    const categories = config.categories.includes(category)
+      ? config.categories.filter(c => c !== category)
+      : [...config.categories, category];
+    // Keep at least one category selected
+    if (categories.length) onChange({ ...config, categories });
+  };
+
+  const pill = (selected: boolean) =>
+    `px-4 py-2 rounded-xl border-2 text-sm font-black transition-all ${selected ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Role you are applying for</label>
+        <input
+          value={config.role}
+          onChange={e => onChange({ ...config, role: e.target.value })}
+          placeholder="e.g. Product Manager"
+          maxLength={60}
+          className="w-full bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm text-white placeholder-slate-600 focus:border-blue-500 outline-none"
+        />
+      </div>
+      <div>
+        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Seniority</label>
+        <div className="flex flex-wrap gap-2">
+          {SENIORITIES.map(s => (
+            <button key={s} onClick={() => onChange({ ...config, seniority: s })} className={pill(config.seniority === s)}>{s}</button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Question types</label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {QUESTION_CATEGORIES.map(c => (
+            <button key={c.id} onClick={() => toggleCategory(c.id)} className={`${pill(config.categories.includes(c.id))} text-left`}>
+              <div>{c.label}</div>
+              <div className="text-xs font-medium opacity-80">{c.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Questions</label>
+        <div className="flex gap-2">
+          {QUESTION_COUNTS.map(n => (
+            <button key={n} onClick={() => onChange({ ...config, questionCount: n })} className={pill(config.questionCount === n)}>{n}</button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { ErrorCategory, LearnerProfile, TargetLanguage } from '../types';
+import { ERROR_CATEGORIES } from '../constants';
+import { EMPTY_PROFILE, loadLearnerProfile, rankErrors, saveLearnerProfile } from '../services/learnerProfile';
+import { formatDateTime, languageName } from '../utils/format';
+
+interface LearnerProfilePanelProps {
+  /** Each target language has its own profile. */
+  language: TargetLanguage;
+  onClose: () => void;
+}
+
+type ListField = 'weakAreas' | 'interests' | 'goals';
+
+const LISTS: { field: ListField; title: string; hint: string; placeholder: string }[] = [
+  { field: 'weakAreas', title: 'Areas to work on', hint: 'Your coach steers calls toward these.', placeholder: 'e.g. phrasal verbs' },
+  { field: 'interests', title: 'Interests', hint: 'Picked up from your calls; used to choose topics.', placeholder: 'e.g. cycling' },
+  { field: 'goals', title: 'Goals', hint: 'What you are learning this language for.', placeholder: 'e.g. job interviews abroad' }
+];
+
+const categoryLabel = (category: ErrorCategory) => ERROR_CATEGORIES.find(c => c.id === category)?.label ?? category;
+
+// One editable list of short phrases
+const PhraseList: React.FC<{ items: string[]; placeholder: string; onChange: (items: string[]) => void }> = ({ items, placeholder, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    const item = draft.trim();
+    if (item && !items.some(i => i.toLowerCase() === item.toLowerCase())) onChange([...items, item]);
+    setDraft('');
+  };
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {items.map(item => (
+          <span key={item} className="inline-flex items-center gap-2 bg-slate-800 text-slate-200 text-sm font-medium pl-3 pr-2 py-1 rounded-full">
+            {item}
+            <button onClick={() => onChange(items.filter(i => i !== item))} className="text-slate-500 hover:text-red-400 font-black" aria-label={`Remove ${item}`}>×</button>
+          </span>
+        ))}
+        {items.length === 0 && <span className="text-sm text-slate-600 italic">None yet.</span>}
+      </div>
+      <form onSubmit={add} className="flex gap-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder={placeholder}
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm text-white placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+        />
+        <button type="submit" disabled={!draft.trim()} className="text-[10px] font-black uppercase tracking-widest px-4 rounded-xl bg-slate-800 text-slate-300 hover:text-white disabled:opacity-40">Add</button>
+      </form>
+    </div>
+  );
+};
+
+/** What the coach remembers between calls, with controls to correct or clear it. */
+export const LearnerProfilePanel: React.FC<LearnerProfilePanelProps> = ({ language, onClose }) => {
+  const [profile, setProfile] = useState<LearnerProfile | null>(null);
+
+  useEffect(() => {
+    setProfile(null);
+    loadLearnerProfile(language)
+      .then(setProfile)
+      .catch(err => {
+        console.error('Failed to load learner profile', err);
+        setProfile(EMPTY_PROFILE);
+      });
+  }, [language]);
+
+  const update = (next: LearnerProfile) => {
+    setProfile(next);
+    saveLearnerProfile(next, language).catch(err => console.error('Failed to save learner profile', err));
+  };
+
+  const handleForget = (category: ErrorCategory) => {
+    if (!profile || !window.confirm(`Stop tracking "${categoryLabel(category)}"? Your coach will no longer focus on it.`)) return;
+    update({ ...profile, errors: profile.errors.filter(e => e.category !== category) });
+  };
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 max-w-3xl mx-auto w-full space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-black">Learner Profile · {languageName(language)}</h2>
+          <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">
+            {!profile ? 'Loading...' : profile.updatedAt ? `Updated ${formatDateTime(profile.updatedAt)}` : 'Builds up as you finish calls'}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Back</button>
+      </div>
+
+      <p className="text-sm text-slate-400 font-medium">
+        Your coach reads a short summary of this page at the start of every call and uses it to practise what you find hardest.
+      </p>
+
+      {profile && (
+        <>
+          <section className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6">
+            <h3 className="text-xs font-black uppercase tracking-widest text-blue-400 mb-1">Recurring mistakes</h3>
+            <p className="text-xs text-slate-500 mb-4">Counted from your call reports. Mistakes seen at least twice are passed to your coach.</p>
+            {profile.errors.length === 0 ? (
+              <p className="text-sm text-slate-600 italic">Nothing tracked yet.</p>
+            ) : (
+              <ul className="space-y-4">
+                {rankErrors(profile.errors).map(error => (
+                  <li key={error.category} className="flex justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-black text-white">
+                        {categoryLabel(error.category)} <span className="text-slate-500 font-bold text-sm tabular-nums">×{error.count}</span>
+                      </p>
+                      {error.examples[0] && (
+                        <p className="text-xs mt-1 truncate">
+                          <span className="text-red-300 line-through decoration-red-500/50">{error.examples[0].original}</span>
+                          <span className="text-slate-600"> → </span>
+                          <span className="text-green-300">{error.examples[0].corrected}</span>
+                        </p>
+                      )}
+                    </div>
+                    <button onClick={() => handleForget(error.category)} className="shrink-0 text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-red-400">
+                      Stop tracking
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {LISTS.map(({ field, title, hint, placeholder }) => (
+            <section key={field} className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6">
+              <h3 className="text-xs font-black uppercase tracking-widest text-blue-400 mb-1">{title}</h3>
+              <p className="text-xs text-slate-500 mb-4">{hint}</p>
+              <PhraseList items={profile[field]} placeholder={placeholder} onChange={items => update({ ...profile, [field]: items })} />
+            </section>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
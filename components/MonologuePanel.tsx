@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { MonologueConfig } from '../types';
+import { comparePacing, MonologueState, Pacing } from '../services/monologueController';
+import { formatDuration } from '../utils/format';
+import { Translate } from '../utils/i18n';
+
+interface MonologuePanelProps {
+  config: MonologueConfig;
+  state: MonologueState;
+  /** False while the call is connecting; the countdown cannot start yet. */
+  ready: boolean;
+  onStartCountdown: () => void;
+  onStartNow: () => void;
+  onEndSpeech: () => void;
+  t: Translate;
+}
+
+// The timer turns amber this long before the target
+const WARNING_MS = 15000;
+
+const pacingLabel = ({ status, gapMs }: Pacing, t: Translate) =>
+  status === 'on-time' ? t('speech.onTime') : t(status === 'short' ? 'speech.short' : 'speech.over', { gap: formatDuration(gapMs) });
+
+/** Countdown, elapsed time against the target and the end-of-speech control on the call screen. */
+export const MonologuePanel: React.FC<MonologuePanelProps> = ({ config, state, ready, onStartCountdown, onStartNow, onEndSpeech, t }) => {
+  const [now, setNow] = useState(Date.now());
+  const ticking = state.phase === 'countdown' || state.phase === 'speaking';
+
+  useEffect(() => {
+    if (!ticking) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [ticking]);
+
+  const elapsed = state.speechStartedAt === null ? 0 : Math.max(0, now - state.speechStartedAt);
+  const timerColor = elapsed > config.targetMs ? 'text-red-400' : elapsed > config.targetMs - WARNING_MS ? 'text-amber-400' : 'text-white';
+  const lastDelivery = state.deliveries[state.deliveries.length - 1];
+
+  return (
+    <div className="bg-slate-900/70 border border-slate-800 rounded-2xl p-4 backdrop-blur w-72 max-w-full">
+      <p className="text-[10px] font-black uppercase tracking-widest text-blue-400 mb-1">{t('speech.target', { duration: formatDuration(config.targetMs) })}</p>
+      <p className="text-sm text-slate-200 font-medium leading-snug">{config.topic}</p>
+
+      {state.phase === 'countdown' && state.countdownEndsAt !== null && (
+        <div className="mt-4 text-center">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('speech.startingIn')}</p>
+          <p className="text-5xl font-black text-white tabular-nums">{Math.max(1, Math.ceil((state.countdownEndsAt - now) / 1000))}</p>
+          <button onClick={onStartNow} className="mt-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white">{t('speech.startNow')}</button>
+        </div>
+      )}
+
+      {state.phase === 'speaking' && (
+        <div className="mt-4">
+          <p className={`text-4xl font-black tabular-nums text-center ${timerColor}`}>{formatDuration(elapsed)}</p>
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mt-3">
+            <div
+              className={`h-full rounded-full ${elapsed > config.targetMs ? 'bg-red-500' : 'bg-green-500'}`}
+              style={{ width: `${Math.min(100, (elapsed / config.targetMs) * 100)}%` }}
+            />
+          </div>
+          <button onClick={onEndSpeech} className="w-full mt-4 text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-full bg-blue-600 text-white hover:bg-blue-500">
+            {t('speech.end')}
+          </button>
+        </div>
+      )}
+
+      {(state.phase === 'ready' || state.phase === 'feedback') && (
+        <div className="mt-4">
+          {lastDelivery && (
+            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mb-3">
+              {t('speech.last')} <span className="text-white">{formatDuration(lastDelivery.durationMs)}</span> · {pacingLabel(comparePacing(lastDelivery.durationMs, config.targetMs), t)}
+            </p>
+          )}
+          <button
+            onClick={onStartCountdown}
+            disabled={!ready}
+            className="w-full text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-full bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-30"
+          >
+            {state.deliveries.length ? t('speech.again') : t('speech.startCountdown')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
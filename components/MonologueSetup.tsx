@@ -0,0 +1,59 @@
+import React from 'react';
+import { MonologueConfig } from '../types';
+import { SPEECH_PREP_MS, SPEECH_TARGETS_MS, SPEECH_TOPICS } from '../constants';
+
+interface MonologueSetupProps {
+  config: MonologueConfig;
+  onChange: (config: MonologueConfig) => void;
+}
+
+const seconds = (ms: number) => `${ms / 1000}s`;
+const minutes = (ms: number) => `${ms / 60000} min`;
+
+/** Topic, target length and preparation countdown for a timed speech. */
+export const MonologueSetup: React.FC<MonologueSetupProps> = ({ config, onChange }) => {
+  const suggestTopic = () => {
+    const others = SPEECH_TOPICS.filter(t => t !== config.topic);
+    onChange({ ...config, topic: others[Math.floor(Math.random() * others.length)] });
+  };
+
+  const pill = (selected: boolean) =>
+    `px-4 py-2 rounded-xl border-2 text-sm font-black transition-all ${selected ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex justify-between items-baseline mb-2">
+          <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500">Topic</label>
+          <button onClick={suggestTopic} className="text-[10px] font-black uppercase tracking-widest text-blue-400 hover:text-white">Suggest one</button>
+        </div>
+        <input
+          value={config.topic}
+          onChange={e => onChange({ ...config, topic: e.target.value })}
+          placeholder="What will you talk about?"
+          maxLength={120}
+          className="w-full bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm text-white placeholder-slate-600 focus:border-blue-500 outline-none"
+        />
+      </div>
+      <div>
+        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Target length</label>
+        <div className="flex flex-wrap gap-2">
+          {SPEECH_TARGETS_MS.map(ms => (
+            <button key={ms} onClick={() => onChange({ ...config, targetMs: ms })} className={pill(config.targetMs === ms)}>{minutes(ms)}</button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Countdown before you start</label>
+        <div className="flex flex-wrap gap-2">
+          {SPEECH_PREP_MS.map(ms => (
+            <button key={ms} onClick={() => onChange({ ...config, prepMs: ms })} className={pill(config.prepMs === ms)}>{seconds(ms)}</button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 font-medium text-center">
+        The coach stays silent while you speak and gives feedback when you end your speech.
+      </p>
+    </div>
+  );
+};
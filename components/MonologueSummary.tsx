@@ -0,0 +1,46 @@
+import React from 'react';
+import { MonologueRecord, TargetLanguage } from '../types';
+import { comparePacing, describePacing } from '../services/monologueController';
+import { countFillers, tokenize } from '../utils/fluencyMetrics';
+import { formatDuration } from '../utils/format';
+
+const pacingColor = { 'on-time': 'text-green-400', short: 'text-amber-400', over: 'text-red-400' };
+
+/** Length, pace and fillers of each speech delivered in a public-speaking call. */
+export const MonologueSummary: React.FC<{ monologue: MonologueRecord; language: TargetLanguage }> = ({ monologue, language }) => (
+  <div className="space-y-4">
+    <p className="text-xs text-slate-500 font-bold uppercase tracking-widest">
+      {monologue.config.topic} · target {formatDuration(monologue.config.targetMs)}
+    </p>
+    {monologue.deliveries.length === 0 ? (
+      <p className="text-sm text-slate-500 italic">No speech was delivered.</p>
+    ) : (
+      <ol className="space-y-4">
+        {monologue.deliveries.map((delivery, i) => {
+          const pacing = comparePacing(delivery.durationMs, monologue.config.targetMs);
+          const words = tokenize(delivery.transcript).length;
+          const fillers = Object.entries(countFillers(delivery.transcript, language)).sort((a, b) => b[1] - a[1]);
+          const fillerCount = fillers.reduce((sum, [, n]) => sum + n, 0);
+          return (
+            <li key={delivery.startedAt} className="border-t border-slate-800 pt-4">
+              <div className="flex justify-between gap-4">
+                <p className="text-sm text-white font-bold">Speech {i + 1}</p>
+                <span className={`text-sm font-black tabular-nums ${pacingColor[pacing.status]}`}>
+                  {formatDuration(delivery.durationMs)} · {describePacing(pacing)}
+                </span>
+              </div>
+              {delivery.transcript ? (
+                <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-1">
+                  {words} words · {delivery.durationMs >= 1000 ? Math.round(words / (delivery.durationMs / 60000)) : 0} wpm · {fillerCount} filler{fillerCount === 1 ? '' : 's'}
+                  {fillers.length > 0 && ` (${fillers.slice(0, 3).map(([f, n]) => `"${f}" ×${n}`).join(', ')})`}
+                </p>
+              ) : (
+                <p className="text-xs text-slate-500 italic mt-1">Not transcribed.</p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    )}
+  </div>
+);
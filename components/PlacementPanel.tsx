@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { PlacementState } from '../services/placementController';
+import { formatDuration } from '../utils/format';
+import { Translate } from '../utils/i18n';
+
+interface PlacementPanelProps {
+  state: PlacementState;
+  t: Translate;
+  onNext: () => void;
+}
+
+/** Progress through the placement test and the control to move on, on the call screen. */
+export const PlacementPanel: React.FC<PlacementPanelProps> = ({ state, t, onNext }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (state.answerStartedAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [state.answerStartedAt]);
+
+  return (
+    <div className="bg-slate-900/70 border border-slate-800 rounded-2xl p-4 backdrop-blur w-72 max-w-full">
+      {state.question ? (
+        <>
+          <div className="flex justify-between items-baseline mb-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-blue-400">
+              {t('placementTest.progress', { number: state.index + 1, total: state.total })}
+            </span>
+            <span className="text-xs font-black text-white tabular-nums">
+              {state.answerStartedAt === null ? '–' : formatDuration(Math.max(0, now - state.answerStartedAt))}
+            </span>
+          </div>
+          <p className="text-sm text-slate-200 font-medium leading-snug">{state.question.text}</p>
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mt-3">
+            <div className="h-full bg-blue-500 rounded-full" style={{ width: `${(state.index / state.total) * 100}%` }} />
+          </div>
+          <button onClick={onNext} className="w-full mt-4 text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-full bg-blue-600 text-white hover:bg-blue-500">
+            {state.index + 1 === state.total ? t('panel.finish') : t('panel.nextQuestion')}
+          </button>
+          <p className="text-[10px] text-slate-500 font-bold mt-2 text-center">{t('placementTest.hint')}</p>
+        </>
+      ) : (
+        <p className="text-sm text-slate-300 font-medium">{t('placementTest.complete')}</p>
+      )}
+    </div>
+  );
+};
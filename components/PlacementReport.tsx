@@ -0,0 +1,67 @@
+import React from 'react';
+import { PlacementResult } from '../types';
+import { LEVEL_NAMES } from '../constants';
+import { PLACEMENT_CRITERIA } from '../services/placementScoring';
+import { formatDateTime, formatDuration, languageName } from '../utils/format';
+
+interface PlacementReportProps {
+  /** Null while the answers are still being scored. */
+  result: PlacementResult | null;
+  onClose: () => void;
+}
+
+/** Recommended CEFR band, criterion scores and rationale of a placement test. */
+export const PlacementReport: React.FC<PlacementReportProps> = ({ result, onClose }) => (
+  <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 max-w-3xl mx-auto w-full space-y-6">
+    <div className="flex justify-between items-start">
+      <div>
+        <h2 className="text-3xl font-black">Placement Result</h2>
+        {result && (
+          <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">
+            {languageName(result.language)} · {formatDateTime(result.takenAt)} · {result.answers.length} answers{result.source === 'local' ? ' · estimated offline' : ''}
+          </p>
+        )}
+      </div>
+      <button onClick={onClose} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Done</button>
+    </div>
+
+    {!result ? (
+      <div className="text-blue-400 font-black animate-pulse uppercase tracking-[0.3em] text-sm text-center py-16">Scoring your answers...</div>
+    ) : (
+      <>
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 flex items-center gap-6">
+          <div className="w-20 h-20 rounded-2xl bg-blue-600 flex items-center justify-center text-3xl font-black shrink-0">{result.band}</div>
+          <div>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Recommended level</p>
+            <p className="text-2xl font-black text-white">{LEVEL_NAMES[result.band]}</p>
+            <p className="text-xs text-slate-400 font-medium mt-1">Selected for your next calls. You can still change it on the Level step.</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {PLACEMENT_CRITERIA.map(c => (
+            <div key={c.key} className="flex items-center gap-3 text-xs">
+              <span className="w-32 text-slate-400 font-bold">{c.label}</span>
+              <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500 rounded-full" style={{ width: `${(result[c.key] / 5) * 100}%` }} />
+              </div>
+              <span className="w-8 text-right text-white font-black tabular-nums">{result[c.key]}</span>
+            </div>
+          ))}
+        </div>
+
+        {result.rationale && <p className="text-slate-300 text-lg font-medium leading-relaxed">{result.rationale}</p>}
+
+        <ol className="space-y-4">
+          {result.answers.map((answer, i) => (
+            <li key={`${answer.questionId}-${i}`} className="border-t border-slate-800 pt-4">
+              <p className="text-sm text-white font-bold">{i + 1}. {answer.question}</p>
+              <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-1">{answer.band} question · {formatDuration(answer.answerMs)}</p>
+              <p className="text-xs text-slate-400 mt-2">{answer.transcript || <span className="italic">Not answered.</span>}</p>
+            </li>
+          ))}
+        </ol>
+      </>
+    )}
+  </div>
+);
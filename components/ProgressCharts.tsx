@@ -0,0 +1,86 @@
+import React from 'react';
+
+interface TrendChartProps {
+  title: string;
+  /** Oldest first; null values leave a gap in the line. */
+  values: (number | null)[];
+  format: (value: number) => string;
+  /** Whether a falling line is good news, as for filler rate. */
+  lowerIsBetter?: boolean;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const PADDING = 6;
+
+/** A small SVG line chart of one metric across sessions, drawn without any charting library. */
+export const TrendChart: React.FC<TrendChartProps> = ({ title, values, format, lowerIsBetter = false }) => {
+  const present = values.filter((v): v is number => v !== null);
+  const latest = present[present.length - 1];
+  const first = present[0];
+
+  let path = '';
+  if (present.length > 1) {
+    const min = Math.min(...present);
+    const max = Math.max(...present);
+    const span = max - min || 1;
+    const x = (i: number) => PADDING + (i / (values.length - 1)) * (WIDTH - 2 * PADDING);
+    const y = (v: number) => HEIGHT - PADDING - ((v - min) / span) * (HEIGHT - 2 * PADDING);
+    let pen = 'M';
+    values.forEach((v, i) => {
+      if (v === null) {
+        pen = 'M';
+        return;
+      }
+      path += `${pen}${x(i).toFixed(1)},${y(v).toFixed(1)} `;
+      pen = 'L';
+    });
+  }
+
+  const improving = present.length > 1 && latest !== first && (latest < first) === lowerIsBetter;
+  const color = present.length < 2 || latest === first ? 'text-slate-400' : improving ? 'text-green-400' : 'text-amber-400';
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-2xl p-5">
+      <div className="flex justify-between items-baseline mb-3">
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">{title}</p>
+        <p className={`text-lg font-black tabular-nums ${color}`}>{latest === undefined ? '–' : format(latest)}</p>
+      </div>
+      {present.length > 1 ? (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className={`w-full h-20 ${color}`} preserveAspectRatio="none" role="img" aria-label={`${title} trend`}>
+          <path d={path} fill="none" stroke="currentColor" strokeWidth={2} strokeLinejoin="round" strokeLinecap="round" vectorEffect="non-scaling-stroke" />
+        </svg>
+      ) : (
+        <p className="h-20 flex items-center justify-center text-xs text-slate-600 italic">Needs two calls with enough speech.</p>
+      )}
+    </div>
+  );
+};
+
+// Minutes at which a day gets the brightest square
+const FULL_DAY_MINUTES = 30;
+
+/** One square per day, brighter the longer the practice, in weekly columns like a contribution graph. */
+export const ActivityHeatmap: React.FC<{ days: { day: string; minutes: number }[] }> = ({ days }) => {
+  // Pad the front so every column starts on a Monday
+  const [y, m, d] = (days[0]?.day ?? '1970-01-05').split('-').map(Number);
+  const lead = (new Date(y, m - 1, d).getDay() + 6) % 7;
+  const cells: ({ day: string; minutes: number } | null)[] = [...Array(lead).fill(null), ...days];
+
+  return (
+    <div className="grid grid-rows-7 grid-flow-col gap-1 w-fit">
+      {cells.map((cell, i) =>
+        cell ? (
+          <div
+            key={cell.day}
+            title={`${cell.day}: ${Math.round(cell.minutes)} min`}
+            className={`w-3 h-3 rounded-sm ${cell.minutes > 0 ? 'bg-blue-500' : 'bg-slate-800'}`}
+            style={cell.minutes > 0 ? { opacity: 0.3 + 0.7 * Math.min(1, cell.minutes / FULL_DAY_MINUTES) } : undefined}
+          />
+        ) : (
+          <div key={`pad-${i}`} className="w-3 h-3" />
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Avatar, GoalMetric, StoredSession, WeeklyGoal } from '../types';
+import { GOAL_METRICS } from '../constants';
+import { listSessions } from '../services/sessionStore';
+import { loadSetting, saveSetting } from '../services/settingsStore';
+import { computeStreaks, countBy, dailyMinutes, daysLeftInWeek, goalProgress, talkTime, trendPoints } from '../utils/progressStats';
+import { formatDuration } from '../utils/format';
+import { ActivityHeatmap, TrendChart } from './ProgressCharts';
+
+interface ProgressDashboardProps {
+  avatars: Avatar[];
+  onClose: () => void;
+}
+
+const GOALS_KEY = 'weeklyGoals';
+const DEFAULT_GOALS: WeeklyGoal[] = [{ metric: 'practiceMinutes', target: 60 }];
+
+// Eighteen weeks of squares fit the setup column without scrolling
+const HEATMAP_DAYS = 18 * 7;
+
+const metricInfo = (metric: GoalMetric) => GOAL_METRICS.find(m => m.id === metric)!;
+
+const Stat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-slate-900/60 border border-slate-800 rounded-2xl p-5">
+    <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">{label}</p>
+    <p className="text-3xl font-black text-white tabular-nums mt-1">{value}</p>
+    {detail && <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mt-1">{detail}</p>}
+  </div>
+);
+
+const Breakdown: React.FC<{ title: string; rows: [string, number][] }> = ({ title, rows }) => (
+  <div className="bg-slate-900/60 border border-slate-800 rounded-2xl p-5">
+    <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-3">{title}</p>
+    <ul className="space-y-2">
+      {rows.map(([label, count]) => (
+        <li key={label} className="text-sm">
+          <div className="flex justify-between gap-4">
+            <span className="text-slate-300 font-medium truncate">{label}</span>
+            <span className="text-white font-black tabular-nums">{count}</span>
+          </div>
+          <div className="h-1 bg-slate-800 rounded-full overflow-hidden mt-1">
+            <div className="h-full bg-blue-500 rounded-full" style={{ width: `${(count / rows[0][1]) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+/** Streaks, talk time, practice breakdowns, fluency trends and weekly goals, all computed from saved sessions. */
+export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ avatars, onClose }) => {
+  const [sessions, setSessions] = useState<StoredSession[] | null>(null);
+  const [goals, setGoals] = useState<WeeklyGoal[]>(DEFAULT_GOALS);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => {
+        console.error('Failed to load sessions', err);
+        setSessions([]);
+      });
+    loadSetting(GOALS_KEY, DEFAULT_GOALS)
+      .then(setGoals)
+      .catch(err => console.error('Failed to load weekly goals', err));
+  }, []);
+
+  const updateGoals = (next: WeeklyGoal[]) => {
+    setGoals(next);
+    saveSetting(GOALS_KEY, next).catch(err => console.error('Failed to save weekly goals', err));
+  };
+
+  const stats = useMemo(() => {
+    const all = sessions ?? [];
+    const talk = all.reduce(
+      (sum, s) => {
+        const t = talkTime(s.turns);
+        return { learnerMs: sum.learnerMs + t.learnerMs, coachMs: sum.coachMs + t.coachMs };
+      },
+      { learnerMs: 0, coachMs: 0 }
+    );
+    return {
+      streaks: computeStreaks(all),
+      talk,
+      heatmap: dailyMinutes(all, HEATMAP_DAYS),
+      byMode: countBy(all, s => s.mode),
+      byAvatar: countBy(all, s => avatars.find(a => a.id === s.avatarId)?.name ?? 'Unknown coach'),
+      trends: trendPoints(all)
+    };
+  }, [sessions, avatars]);
+
+  const unusedMetrics = GOAL_METRICS.filter(m => !goals.some(g => g.metric === m.id));
+  const learnerShare = stats.talk.learnerMs + stats.talk.coachMs > 0
+    ? Math.round((stats.talk.learnerMs / (stats.talk.learnerMs + stats.talk.coachMs)) * 100)
+    : 0;
+  const daysLeft = daysLeftInWeek();
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 space-y-8">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-black">Progress</h2>
+          <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">
+            {sessions ? `${sessions.length} call${sessions.length === 1 ? '' : 's'} on this device` : 'Loading...'}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Back</button>
+      </div>
+
+      {sessions && sessions.length === 0 && (
+        <p className="text-center text-slate-500 font-medium py-8">No calls yet. Your streaks, talk time and trends will appear here after your first call.</p>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Stat label="Current streak" value={`${stats.streaks.current} day${stats.streaks.current === 1 ? '' : 's'}`} detail={`Longest ${stats.streaks.longest}`} />
+        <Stat label="You spoke" value={formatDuration(stats.talk.learnerMs)} detail={`${learnerShare}% of talk time`} />
+        <Stat label="Coach spoke" value={formatDuration(stats.talk.coachMs)} />
+        <Stat label="Calls" value={String(sessions?.length ?? 0)} />
+      </div>
+
+      <section className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6">
+        <div className="flex justify-between items-baseline mb-5">
+          <h3 className="text-sm font-black uppercase tracking-widest text-slate-400">Weekly goals</h3>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{daysLeft} day{daysLeft === 1 ? '' : 's'} left this week</p>
+        </div>
+        <ul className="space-y-5">
+          {goals.map(goal => {
+            const info = metricInfo(goal.metric);
+            const progress = goalProgress(goal, sessions ?? []);
+            return (
+              <li key={goal.metric}>
+                <div className="flex justify-between items-center gap-4 mb-2">
+                  <span className="text-sm font-bold text-slate-200">{info.label}</span>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-black tabular-nums text-white">{Math.floor(progress.value)}</span>
+                    <span className="text-slate-500">/</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={goal.target}
+                      onChange={e => {
+                        const target = Math.max(1, Math.round(Number(e.target.value) || 1));
+                        updateGoals(goals.map(g => (g.metric === goal.metric ? { ...g, target } : g)));
+                      }}
+                      className="w-16 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-right font-black tabular-nums text-white focus:outline-none focus:border-blue-500"
+                      aria-label={`${info.label} target`}
+                    />
+                    <span className="text-slate-500 text-xs font-bold">{info.unit}</span>
+                    <button
+                      onClick={() => updateGoals(goals.filter(g => g.metric !== goal.metric))}
+                      className="text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-red-400 ml-2"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all ${progress.fraction >= 1 ? 'bg-green-500' : 'bg-blue-500'}`}
+                    style={{ width: `${progress.fraction * 100}%` }}
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        {goals.length === 0 && <p className="text-sm text-slate-500 italic">No goals set.</p>}
+        {unusedMetrics.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-5">
+            {unusedMetrics.map(m => (
+              <button
+                key={m.id}
+                onClick={() => updateGoals([...goals, { metric: m.id, target: m.defaultTarget }])}
+                className="text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full border border-slate-800 text-slate-400 hover:text-white hover:border-slate-700"
+              >
+                + {m.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="bg-slate-900/60 border border-slate-800 rounded-2xl p-6 overflow-x-auto">
+        <h3 className="text-sm font-black uppercase tracking-widest text-slate-400 mb-4">Practice days</h3>
+        <ActivityHeatmap days={stats.heatmap} />
+      </section>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <TrendChart title="Words per minute" values={stats.trends.map(p => p.wpm)} format={v => String(Math.round(v))} />
+        <TrendChart title="Fillers per 100 words" values={stats.trends.map(p => p.fillerRate)} format={v => v.toFixed(1)} lowerIsBetter />
+        <TrendChart title="Vocabulary diversity" values={stats.trends.map(p => p.typeTokenRatio)} format={v => v.toFixed(2)} />
+      </div>
+
+      {stats.byMode.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Breakdown title="Calls by practice type" rows={stats.byMode} />
+          <Breakdown title="Calls by coach" rows={stats.byAvatar} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react';
+import { ChatTurn, Scenario } from '../types';
+import { evaluateScenario } from '../utils/scenarioProgress';
+
+const Check: React.FC<{ done: boolean }> = ({ done }) => (
+  <span className={`w-4 h-4 rounded-full border flex items-center justify-center shrink-0 transition-all ${done ? 'bg-green-500 border-green-400' : 'border-slate-600'}`}>
+    {done && (
+      <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={4} d="M5 13l4 4L19 7" />
+      </svg>
+    )}
+  </span>
+);
+
+/** Goals and phrases for the current roleplay, ticked off as the transcript comes in. */
+export const ScenarioChecklist: React.FC<{ scenario: Scenario; turns: ChatTurn[] }> = ({ scenario, turns }) => {
+  const progress = useMemo(() => evaluateScenario(scenario, turns), [scenario, turns]);
+
+  return (
+    <div className="bg-slate-900/70 border border-slate-800 rounded-2xl p-4 backdrop-blur w-64 max-w-full">
+      <div className="flex justify-between items-baseline mb-3">
+        <h3 className="text-xs font-black text-white truncate">{scenario.title}</h3>
+        <span className={`text-[10px] font-black uppercase tracking-widest ${progress.complete ? 'text-green-400' : 'text-slate-500'}`}>
+          {progress.metCount}/{progress.goals.length}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {progress.goals.map(({ goal, met }) => (
+          <li key={goal.id} className={`flex items-start gap-2 text-xs ${met ? 'text-slate-500 line-through' : 'text-slate-300'}`}>
+            <Check done={met} />
+            {goal.description}
+          </li>
+        ))}
+      </ul>
+      {progress.phrases.length > 0 && (
+        <>
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 mt-4 mb-2">Try saying</p>
+          <ul className="space-y-1">
+            {progress.phrases.map(({ phrase, used }) => (
+              <li key={phrase} className={`flex items-center gap-2 text-xs italic ${used ? 'text-green-400' : 'text-slate-400'}`}>
+                <Check done={used} />
+                "{phrase}"
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
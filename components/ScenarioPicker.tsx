@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { Scenario } from '../types';
+import { parseScenario, saveCustomScenario, toScenarioFile } from '../services/scenarioLibrary';
+import { downloadText } from '../utils/download';
+
+interface ScenarioPickerProps {
+  scenarios: Scenario[];
+  selectedId: string | null;
+  onSelect: (scenario: Scenario | null) => void;
+  onImported: (scenario: Scenario) => void;
+  onDelete: (scenario: Scenario) => void;
+}
+
+/** Optional roleplay for the call: free conversation, a bundled scenario or an imported one. */
+export const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ scenarios, selectedId, onSelect, onImported, onDelete }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error('This file is not valid JSON.');
+      }
+      const scenario = await saveCustomScenario(parseScenario(data));
+      onImported(scenario);
+      onSelect(scenario);
+    } catch (err: any) {
+      setImportError(err?.message || 'Could not import this scenario.');
+    }
+  };
+
+  const cardClass = (selected: boolean) =>
+    `p-4 rounded-2xl border-2 text-left transition-all ${selected ? 'border-blue-500 bg-blue-600/10 text-white' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`;
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <button onClick={() => onSelect(null)} className={cardClass(selectedId === null)}>
+          <div className="font-black">Free Conversation</div>
+          <div className="text-xs font-medium mt-1 opacity-80">No script. Talk about anything.</div>
+        </button>
+        {scenarios.map(s => (
+          <div key={s.id} onClick={() => onSelect(s)} className={`${cardClass(selectedId === s.id)} cursor-pointer`}>
+            <div className="font-black">{s.title}</div>
+            <div className="text-xs font-medium mt-1 opacity-80">
+              You talk to a {s.coachRole.toLowerCase()} · {s.goals.length} goals{s.level ? ` · ${s.level}` : ''}
+            </div>
+            <div className="flex gap-3 mt-2">
+              <button
+                onClick={e => { e.stopPropagation(); downloadText(toScenarioFile(s), `${s.id}.json`, 'application/json'); }}
+                className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white"
+              >
+                Download
+              </button>
+              {s.custom && (
+                <button
+                  onClick={e => { e.stopPropagation(); onDelete(s); }}
+                  className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-4 text-center">
+        <button onClick={() => fileInput.current?.click()} className="text-blue-400 font-black uppercase text-xs tracking-widest hover:text-white">
+          Import Scenario JSON
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+        {importError && <p className="text-red-400 text-xs font-bold mt-2">{importError}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Avatar, StoredSession } from '../types';
+import { createSessionId, deleteSession, getSession, listSessions, matchesSessionQuery, saveSession } from '../services/sessionStore';
+import { formatDateTime, formatDuration, languageName } from '../utils/format';
+import { exportTranscript, parseTranscriptJson, transcriptFileName, TranscriptFormat, TRANSCRIPT_FORMATS } from '../utils/transcriptExport';
+import { downloadText } from '../utils/download';
+import { deleteRecordings } from '../services/recordingStore';
+import { SessionTranscript } from './SessionTranscript';
+import { CallReport } from './CallReport';
+
+interface SessionLibraryProps {
+  avatars: Avatar[];
+  onContinue: (session: StoredSession) => void;
+  onClose: () => void;
+}
+
+export const SessionLibrary: React.FC<SessionLibraryProps> = ({ avatars, onContinue, onClose }) => {
+  const [sessions, setSessions] = useState<StoredSession[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => {
+        console.error('Failed to load sessions', err);
+        setLoadError('Could not open your saved sessions in this browser.');
+        setSessions([]);
+      });
+  }, []);
+
+  const avatarName = (id: string) => avatars.find(a => a.id === id)?.name ?? 'Unknown coach';
+
+  const filtered = useMemo(
+    () => (sessions ?? []).filter(s => matchesSessionQuery(s, query, avatarName(s.avatarId))),
+    [sessions, query, avatars]
+  );
+
+  const handleDelete = async (session: StoredSession) => {
+    if (!window.confirm('Delete this session, its transcript and any recordings?')) return;
+    setDeleteError(null);
+    try {
+      // Recordings first, so a failure part-way never leaves them under a deleted session
+      await deleteRecordings(session.id);
+      await deleteSession(session.id);
+    } catch (err) {
+      console.error('Failed to delete session', err);
+      setDeleteError('Could not delete this session. Try again.');
+      return;
+    }
+    setSessions(prev => (prev ?? []).filter(s => s.id !== session.id));
+    if (openId === session.id) setOpenId(null);
+  };
+
+  const handleExport = (session: StoredSession, format: TranscriptFormat) => {
+    const content = exportTranscript(session, format, avatarName(session.avatarId));
+    downloadText(content, transcriptFileName(session, format), TRANSCRIPT_FORMATS[format].mimeType);
+  };
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const parsed = parseTranscriptJson(await file.text());
+      // Re-importing an export would otherwise silently replace the saved session and its report
+      const replace = !(await getSession(parsed.id))
+        || window.confirm('This session is already saved. Replace it with the imported transcript? Cancel keeps both.');
+      const session = replace ? parsed : { ...parsed, id: createSessionId() };
+      await saveSession(session);
+      setSessions(prev => [session, ...(prev ?? []).filter(s => s.id !== session.id)].sort((a, b) => b.startedAt - a.startedAt));
+      setOpenId(session.id);
+    } catch (err: any) {
+      setImportError(err?.message || 'Could not import this file.');
+    }
+  };
+
+  const openSession = sessions?.find(s => s.id === openId);
+
+  if (openSession && showReport) {
+    return (
+      <CallReport
+        session={openSession}
+        avatarName={avatarName(openSession.avatarId)}
+        onReportReady={updated => setSessions(prev => (prev ?? []).map(s => (s.id === updated.id ? updated : s)))}
+        onClose={() => setShowReport(false)}
+      />
+    );
+  }
+
+  if (openSession) {
+    return (
+      <div className="animate-in fade-in slide-in-from-right-8 duration-700 max-w-2xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <button onClick={() => setOpenId(null)} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Back</button>
+          <button onClick={() => onContinue(openSession)} className="bg-green-600 hover:bg-green-500 text-white px-6 py-3 rounded-2xl font-black active:scale-95">
+            Continue this conversation
+          </button>
+        </div>
+        <h2 className="text-2xl font-black mb-1">{avatarName(openSession.avatarId)}</h2>
+        <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mb-4">
+          {languageName(openSession.language)} · {openSession.mode} · {openSession.level} · {formatDateTime(openSession.startedAt)} · {formatDuration(openSession.durationMs)}
+        </p>
+        <div className="flex flex-wrap gap-2 mb-8">
+          {openSession.turns.some(t => t.role === 'user') && (
+            <button
+              onClick={() => setShowReport(true)}
+              className="text-[10px] font-black uppercase tracking-widest border border-blue-500/40 text-blue-400 hover:text-white hover:border-blue-400 px-3 py-1.5 rounded-full"
+            >
+              {openSession.report ? 'View Report' : 'Get Feedback Report'}
+            </button>
+          )}
+          {(Object.keys(TRANSCRIPT_FORMATS) as TranscriptFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(openSession, format)}
+              className="text-[10px] font-black uppercase tracking-widest border border-slate-800 text-slate-400 hover:text-white hover:border-slate-600 px-3 py-1.5 rounded-full"
+            >
+              Export {TRANSCRIPT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+        <SessionTranscript session={openSession} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 max-w-3xl mx-auto w-full">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-black">Your Sessions</h2>
+        <div className="flex items-center gap-6">
+          <button onClick={() => fileInput.current?.click()} className="text-blue-400 font-black uppercase text-xs tracking-widest hover:text-white">Import JSON</button>
+          <button onClick={onClose} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Close</button>
+        </div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      <input
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Search transcripts, coaches or modes..."
+        className="w-full bg-slate-900 border-2 border-slate-800 focus:border-blue-500 outline-none rounded-2xl px-5 py-4 mb-6 text-sm font-medium"
+      />
+
+      {loadError && <p className="text-red-400 text-xs font-bold mb-4">{loadError}</p>}
+      {importError && <p className="text-red-400 text-xs font-bold mb-4">{importError}</p>}
+      {deleteError && <p className="text-red-400 text-xs font-bold mb-4">{deleteError}</p>}
+      {sessions === null && <p className="text-slate-500 text-sm text-center">Loading...</p>}
+      {sessions !== null && filtered.length === 0 && (
+        <p className="text-slate-500 text-sm text-center py-12">
+          {sessions.length === 0 ? 'Finished calls will appear here.' : 'No sessions match your search.'}
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {filtered.map(s => (
+          <div key={s.id} className="flex items-center gap-4 bg-slate-900/60 border border-slate-800 rounded-2xl p-4 hover:border-slate-700 transition-all">
+            <button onClick={() => setOpenId(s.id)} className="flex-1 text-left min-w-0">
+              <div className="font-black truncate">{avatarName(s.avatarId)}</div>
+              <div className="text-xs text-slate-500 font-medium truncate">
+                {languageName(s.language)} · {s.mode} · {s.level} · {s.turns.length} turns · {formatDuration(s.durationMs)}
+              </div>
+              <div className="text-xs text-slate-400 truncate mt-1">{s.turns.find(t => t.role === 'user')?.text ?? ''}</div>
+            </button>
+            <span className="text-[10px] text-slate-600 font-bold uppercase tracking-widest whitespace-nowrap">{formatDateTime(s.startedAt)}</span>
+            <button onClick={() => handleDelete(s)} className="text-slate-600 hover:text-red-400 text-xs font-black uppercase tracking-widest">Delete</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { StoredRecording, StoredSession } from '../types';
+import { listRecordings } from '../services/recordingStore';
+import { getTurnSpans } from '../utils/transcriptExport';
+import { decodeWav, encodeWav, mixTracks } from '../utils/wav';
+import { downloadBlob } from '../utils/download';
+import { formatDuration } from '../utils/format';
+import { addVocabulary } from '../services/vocabularyStore';
+import { candidateFromSelection } from '../utils/vocabularyExtraction';
+
+type TrackChoice = 'mixed' | 'learner' | 'coach';
+
+const TRACK_LABELS: Record<TrackChoice, string> = {
+  mixed: 'Both',
+  learner: 'Only you',
+  coach: 'Only coach'
+};
+
+interface SessionTranscriptProps {
+  session: StoredSession;
+}
+
+const buildTrack = async (recording: StoredRecording, track: TrackChoice): Promise<Blob> => {
+  if (track !== 'mixed') return recording[track];
+  const [learner, coach] = await Promise.all([decodeWav(recording.learner), decodeWav(recording.coach)]);
+  return encodeWav(mixTracks([learner, coach], coach.sampleRate));
+};
+
+/**
+ * Transcript of a stored session. When the call was recorded, adds a player
+ * that highlights the turn being heard and seeks when a turn is clicked.
+ */
+export const SessionTranscript: React.FC<SessionTranscriptProps> = ({ session }) => {
+  const [recordings, setRecordings] = useState<StoredRecording[]>([]);
+  const [part, setPart] = useState(0);
+  const [track, setTrack] = useState<TrackChoice>('mixed');
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [trackError, setTrackError] = useState<string | null>(null);
+  const [currentMs, setCurrentMs] = useState<number | null>(null);
+  const [selection, setSelection] = useState<{ turnIndex: number; text: string } | null>(null);
+  const [savedTerm, setSavedTerm] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const trackBlob = useRef<Blob | null>(null);
+
+  useEffect(() => {
+    setPart(0);
+    listRecordings(session.id)
+      .then(setRecordings)
+      .catch(err => console.error('Failed to load recordings', err));
+  }, [session.id]);
+
+  const recording = recordings[part];
+
+  useEffect(() => {
+    if (!recording) return;
+    let url: string | null = null;
+    let cancelled = false;
+    trackBlob.current = null;
+    setTrackError(null);
+    buildTrack(recording, track)
+      .then(blob => {
+        if (cancelled) return;
+        trackBlob.current = blob;
+        url = URL.createObjectURL(blob);
+        setAudioUrl(url);
+      })
+      .catch(err => {
+        console.error('Failed to load recording', err);
+        if (!cancelled) setTrackError('This recording could not be loaded.');
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setAudioUrl(null);
+    };
+  }, [recording, track]);
+
+  // Spans relative to this recording; turns from other calls of the session fall outside it
+  const spans = useMemo(() => {
+    if (!recording) return null;
+    return getTurnSpans({ turns: session.turns, startedAt: recording.startedAt })
+      .map(span => ({
+        ...span,
+        inRecording: span.turn.timestamp >= recording.startedAt && span.turn.timestamp <= recording.startedAt + recording.durationMs + 2000
+      }));
+  }, [session.turns, recording]);
+
+  const seekTo = (ms: number) => {
+    // A click that ends a text selection is for saving a word, not seeking
+    if (!audioRef.current || window.getSelection()?.toString().trim()) return;
+    audioRef.current.currentTime = ms / 1000;
+    audioRef.current.play().catch(() => {});
+  };
+
+  const handleSelect = (turnIndex: number) => {
+    const text = window.getSelection()?.toString().trim() ?? '';
+    setSelection(text ? { turnIndex, text } : null);
+    setSavedTerm(null);
+  };
+
+  const handleSaveSelection = async () => {
+    if (!selection) return;
+    const candidate = candidateFromSelection(session.turns[selection.turnIndex].text, selection.text);
+    setSelection(null);
+    if (!candidate) return;
+    try {
+      await addVocabulary([candidate], session.id, session.language);
+      setSavedTerm(candidate.term);
+    } catch (err) {
+      console.error('Failed to save vocabulary', err);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!trackBlob.current) return;
+    const date = new Date(recording.startedAt).toISOString().slice(0, 10);
+    downloadBlob(trackBlob.current, `speakflow-${date}-${track}.wav`);
+  };
+
+  return (
+    <div>
+      {recording && (
+        <div className="bg-slate-900/60 border border-slate-800 rounded-2xl p-4 mb-8 space-y-3">
+          {recordings.length > 1 && (
+            <div className="flex gap-2">
+              {recordings.map((r, i) => (
+                <button
+                  key={r.id}
+                  onClick={() => setPart(i)}
+                  className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${i === part ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}
+                >
+                  Call {i + 1} · {formatDuration(r.durationMs)}
+                </button>
+              ))}
+            </div>
+          )}
+          <audio
+            ref={audioRef}
+            src={audioUrl ?? undefined}
+            controls
+            className="w-full"
+            onTimeUpdate={e => setCurrentMs(e.currentTarget.currentTime * 1000)}
+          />
+          {trackError && <p className="text-red-400 text-xs font-bold">{trackError}</p>}
+          <div className="flex items-center gap-2">
+            {(Object.keys(TRACK_LABELS) as TrackChoice[]).map(t => (
+              <button
+                key={t}
+                onClick={() => setTrack(t)}
+                className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full border ${track === t ? 'border-blue-500 text-blue-400' : 'border-slate-800 text-slate-500 hover:text-white'}`}
+              >
+                {TRACK_LABELS[t]}
+              </button>
+            ))}
+            <button onClick={handleDownload} className="ml-auto text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white">
+              Download WAV
+            </button>
+          </div>
+        </div>
+      )}
+
+      {savedTerm ? (
+        <p className="text-xs text-green-400 font-bold mb-4">"{savedTerm}" saved to your vocabulary notebook.</p>
+      ) : (
+        <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mb-4">Select words in a coach reply to save them to your vocabulary</p>
+      )}
+
+      <div className="space-y-4">
+        {session.turns.map((turn, i) => {
+          const span = spans?.[i];
+          const isPlaying = span?.inRecording && currentMs !== null && currentMs >= span.startMs && currentMs < span.endMs;
+          const canSeek = !!span?.inRecording;
+          return (
+            <div key={i} className={`flex flex-col ${turn.role === 'user' ? 'items-end' : 'items-start'}`}>
+              <div
+                onClick={canSeek ? () => seekTo(span!.startMs) : undefined}
+                onMouseUp={turn.role === 'model' ? () => handleSelect(i) : undefined}
+                className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm transition-all ${canSeek ? 'cursor-pointer hover:ring-2 hover:ring-blue-500/40' : ''} ${isPlaying ? 'ring-2 ring-amber-400 scale-[1.02]' : ''} ${turn.role === 'user' ? 'bg-blue-600 text-white font-medium' : `bg-slate-800 text-slate-200 border ${turn.interrupted ? 'border-dashed border-amber-500/50' : 'border-slate-700'}`}`}
+              >
+                {turn.text}{turn.interrupted && '…'}
+              </div>
+              {turn.typed && <span className="mt-1 text-[9px] font-black uppercase tracking-widest text-slate-600">Typed</span>}
+              {turn.interrupted && <span className="mt-1 text-[9px] font-black uppercase tracking-widest text-amber-400/70">Interrupted</span>}
+              {selection?.turnIndex === i && (
+                <button onClick={handleSaveSelection} className="mt-1 text-[10px] font-black uppercase tracking-widest text-blue-400 hover:text-white">
+                  + Save "{selection.text.length > 40 ? `${selection.text.slice(0, 40)}...` : selection.text}" to vocabulary
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
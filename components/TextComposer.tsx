@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+
+interface TextComposerProps {
+  /** Returns false if the message could not be sent, so the draft is kept. */
+  onSend: (text: string) => boolean;
+  disabled?: boolean;
+  placeholder: string;
+  sendLabel: string;
+  /** Larger field with focus on mount, for calls where typing is the only input. */
+  primary?: boolean;
+}
+
+/** Single-line message box on the call screen; Enter sends. */
+export const TextComposer: React.FC<TextComposerProps> = ({ onSend, disabled = false, placeholder, sendLabel, primary = false }) => {
+  const [draft, setDraft] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || disabled) return;
+    if (onSend(draft)) setDraft('');
+  };
+
+  return (
+    <form onSubmit={submit} className={`flex gap-2 w-full mx-auto ${primary ? 'max-w-2xl' : 'max-w-xl'}`}>
+      <input
+        type="text"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoFocus={primary}
+        enterKeyHint="send"
+        className={`flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded-full text-white font-medium placeholder:text-slate-600 focus:outline-none focus:border-blue-500 disabled:opacity-40 ${primary ? 'px-6 py-4' : 'px-5 py-2.5 text-sm'}`}
+      />
+      <button
+        type="submit"
+        disabled={disabled || !draft.trim()}
+        className={`rounded-full font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 transition-all ${primary ? 'px-8 text-sm' : 'px-5 text-[10px]'}`}
+      >
+        {sendLabel}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { ReviewGrade, TargetLanguage, VocabularyEntry } from '../types';
+import { deleteVocabularyEntry, listVocabulary, saveVocabularyEntry } from '../services/vocabularyStore';
+import { isDue, scheduleReview } from '../utils/spacedRepetition';
+import { formatDateTime, languageName } from '../utils/format';
+
+interface VocabularyNotebookProps {
+  /** Only words saved while practising this language are listed and reviewed. */
+  language: TargetLanguage;
+  onClose: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 1, label: 'Again', className: 'bg-red-500/20 text-red-300 border-red-500/30' },
+  { grade: 3, label: 'Hard', className: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  { grade: 4, label: 'Good', className: 'bg-blue-500/20 text-blue-300 border-blue-500/30' },
+  { grade: 5, label: 'Easy', className: 'bg-green-500/20 text-green-300 border-green-500/30' }
+];
+
+// Bolds the term inside its example sentence
+const Highlighted: React.FC<{ text: string; term: string }> = ({ text, term }) => {
+  const index = text.toLowerCase().indexOf(term.toLowerCase());
+  if (index < 0) return <>{text}</>;
+  return (
+    <>
+      {text.slice(0, index)}
+      <span className="text-white font-black not-italic">{text.slice(index, index + term.length)}</span>
+      {text.slice(index + term.length)}
+    </>
+  );
+};
+
+/** Saved words and phrases, with a flashcard review of the ones that are due. */
+export const VocabularyNotebook: React.FC<VocabularyNotebookProps> = ({ language, onClose }) => {
+  const [entries, setEntries] = useState<VocabularyEntry[] | null>(null);
+  const [queue, setQueue] = useState<VocabularyEntry[] | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEntries(null);
+    setQueue(null);
+    listVocabulary()
+      .then(all => setEntries(all.filter(e => e.language === language)))
+      .catch(err => {
+        console.error('Failed to load vocabulary', err);
+        setEntries([]);
+      });
+  }, [language]);
+
+  const due = (entries ?? []).filter(e => isDue(e));
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!queue?.length) return;
+    const [card, ...rest] = queue;
+    const updated = scheduleReview(card, grade);
+    setActionError(null);
+    try {
+      await saveVocabularyEntry(updated);
+    } catch (err) {
+      // The card stays on screen so the grade can be given again
+      console.error('Failed to save review', err);
+      setActionError('Could not save this review. Try again.');
+      return;
+    }
+    setEntries(prev => (prev ?? []).map(e => (e.id === updated.id ? updated : e)).sort((a, b) => a.dueAt - b.dueAt));
+    // Failed cards come back at the end of this review so they are seen again today
+    setQueue(grade < 3 ? [...rest, card] : rest);
+    setRevealed(false);
+  };
+
+  const handleDelete = async (entry: VocabularyEntry) => {
+    if (!window.confirm(`Remove "${entry.term}" from your notebook?`)) return;
+    setActionError(null);
+    try {
+      await deleteVocabularyEntry(entry.id);
+    } catch (err) {
+      console.error('Failed to delete vocabulary entry', err);
+      setActionError(`Could not remove "${entry.term}". Try again.`);
+      return;
+    }
+    setEntries(prev => (prev ?? []).filter(e => e.id !== entry.id));
+  };
+
+  if (queue) {
+    const card = queue[0];
+    return (
+      <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 max-w-xl mx-auto w-full">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-black">Review</h2>
+          <button onClick={() => { setQueue(null); setActionError(null); }} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Done</button>
+        </div>
+        {actionError && <p className="text-red-400 text-xs font-bold mb-4">{actionError}</p>}
+        {!card ? (
+          <p className="text-center text-slate-400 font-medium py-16">All caught up. Your coach will bring these words into your next call.</p>
+        ) : (
+          <div className="bg-slate-900/60 border border-slate-800 rounded-[2rem] p-10 text-center space-y-6">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">{queue.length} left</p>
+            <h3 className="text-4xl font-black">{card.term}</h3>
+            {revealed ? (
+              <>
+                {card.meaning && <p className="text-slate-300 font-medium">{card.meaning}</p>}
+                <p className="text-slate-400 italic text-sm">"<Highlighted text={card.example} term={card.term} />"</p>
+                <div className="grid grid-cols-4 gap-2 pt-4">
+                  {GRADES.map(g => (
+                    <button key={g.grade} onClick={() => handleGrade(g.grade)} className={`py-3 rounded-xl border text-xs font-black uppercase tracking-widest ${g.className}`}>
+                      {g.label}
+                    </button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <button onClick={() => setRevealed(true)} className="bg-blue-600 hover:bg-blue-500 text-white px-10 py-4 rounded-xl font-black transition-all active:scale-95">
+                Show Meaning
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h2 className="text-3xl font-black">Vocabulary · {languageName(language)}</h2>
+          <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">
+            {entries ? `${entries.length} saved · ${due.length} due` : 'Loading...'}
+          </p>
+        </div>
+        <div className="flex gap-4 items-center">
+          <button
+            onClick={() => { setQueue(due); setRevealed(false); }}
+            disabled={due.length === 0}
+            className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 text-white px-6 py-3 rounded-xl font-black text-xs uppercase tracking-widest transition-all"
+          >
+            Review {due.length > 0 ? `(${due.length})` : ''}
+          </button>
+          <button onClick={onClose} className="text-slate-500 font-black uppercase text-xs tracking-widest hover:text-white">Back</button>
+        </div>
+      </div>
+
+      {actionError && <p className="text-red-400 text-xs font-bold mb-4">{actionError}</p>}
+
+      {entries && entries.length === 0 && (
+        <p className="text-center text-slate-500 font-medium py-16">
+          No words yet. Words your coach introduces are collected after each call, and you can save any phrase by selecting it in a past session's transcript.
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {entries?.map(entry => (
+          <li key={entry.id} className="bg-slate-900/60 border border-slate-800 rounded-2xl p-5 flex justify-between gap-4">
+            <div className="min-w-0">
+              <p className="font-black text-white">
+                {entry.term}
+                {entry.language !== 'en' && <span className="ml-2 text-[10px] font-black uppercase tracking-widest text-blue-400">{entry.language}</span>}
+                {entry.meaning && <span className="text-slate-400 font-medium">: {entry.meaning}</span>}
+              </p>
+              <p className="text-slate-500 italic text-xs mt-1 truncate">"<Highlighted text={entry.example} term={entry.term} />"</p>
+            </div>
+            <div className="flex flex-col items-end gap-2 shrink-0">
+              <span className={`text-[10px] font-black uppercase tracking-widest ${isDue(entry) ? 'text-amber-400' : 'text-slate-600'}`}>
+                {isDue(entry) ? 'Due' : `Next ${formatDateTime(entry.dueAt)}`}
+              </span>
+              <button onClick={() => handleDelete(entry)} className="text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-red-400">Remove</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { WordDiff } from '../types';
+
+/** An attempt word by word against the target: missed words struck out, wrong words with what was heard, extra words marked. */
+export const WordDiffView: React.FC<{ diff: WordDiff[] }> = ({ diff }) => (
+  <p className="text-sm leading-relaxed flex flex-wrap gap-x-1.5 gap-y-1">
+    {diff.map((d, i) => {
+      if (d.type === 'match') return <span key={i} className="text-green-300">{d.expected}</span>;
+      if (d.type === 'missing') {
+        return <span key={i} className="text-red-400 line-through decoration-red-500/70" title="Missed">{d.expected}</span>;
+      }
+      if (d.type === 'extra') {
+        return <span key={i} className="text-slate-500 italic" title="Extra word">+{d.heard}</span>;
+      }
+      return (
+        <span key={i} className="text-amber-300" title={`Heard "${d.heard}"`}>
+          {d.expected} <span className="text-[10px] text-amber-500/80 font-bold">({d.heard})</span>
+        </span>
+      );
+    })}
+  </p>
+);
+
+/** What the colours in a word diff mean. */
+export const WordDiffLegend: React.FC = () => (
+  <p className="text-[10px] font-bold uppercase tracking-widest text-slate-600 flex flex-wrap gap-3">
+    <span className="text-green-400/80">Said</span>
+    <span className="text-amber-400/80">Heard differently</span>
+    <span className="text-red-400/80 line-through">Missed</span>
+    <span className="text-slate-500">+ Extra</span>
+  </p>
+);
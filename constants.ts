@@ -1,5 +1,5 @@
 
-import { Avatar } from './types';
+import { Avatar, CefrBand, DrillSource, ErrorCategory, GoalMetric, InputMode, L1Policy, QuestionCategory, Seniority, SpeakingSpeed, TargetLanguage, VoiceName } from './types';
 
 export const AVATARS: Avatar[] = [
   {
@@ -41,15 +41,136 @@ export const AVATARS: Avatar[] = [
     speed: 'normal',
     image: 'https://picsum.photos/seed/mentor/400/400',
     voiceName: 'Puck'
+  },
+  {
+    id: 'lucia',
+    name: 'Lucía 🌞',
+    role: 'Spanish Conversation Guide',
+    description: 'Grew up in Seville. Chats about food, travel and everyday life in Spain and Latin America.',
+    tone: 'Lively, warm, patient, and quick to praise.',
+    speed: 'normal',
+    image: 'https://picsum.photos/seed/lucia/400/400',
+    voiceName: 'Zephyr',
+    languages: ['es']
+  },
+  {
+    id: 'jonas',
+    name: 'Jonas 🥨',
+    role: 'German Language Tutor',
+    description: 'From Hamburg. Precise about word order and cases, but never stiff.',
+    tone: 'Calm, precise, friendly, and dryly humorous.',
+    speed: 'slow',
+    image: 'https://picsum.photos/seed/jonas/400/400',
+    voiceName: 'Charon',
+    languages: ['de']
   }
 ];
 
 export const PRACTICE_MODES = [
-  'General English Speaking',
+  'General Speaking',
   'Daily Conversation',
   'Interview Practice',
   'Public Speaking',
-  'Vocabulary & Fluency'
+  'Vocabulary & Fluency',
+  'Shadowing Drill'
+];
+
+export const LEVELS: CefrBand[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+/** English names of the bands, for screens outside the translated setup flow. */
+export const LEVEL_NAMES: Record<CefrBand, string> = {
+  A1: 'Beginner', A2: 'Elementary', B1: 'Intermediate', B2: 'Upper Intermediate', C1: 'Advanced', C2: 'Proficient'
+};
+
+/** Languages a learner can practise; `name` is used in prompts, the interface names them from its own catalog. */
+export const TARGET_LANGUAGES: { code: TargetLanguage; name: string; nativeName: string }[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' }
+];
+
+// Labels and descriptions are the `input.<mode>.*` messages in i18n/
+export const INPUT_MODES: InputMode[] = ['continuous', 'vad', 'push-to-talk', 'text'];
+
+export const VOICES: { name: VoiceName; description: string }[] = [
+  { name: 'Zephyr', description: 'Bright and lively' },
+  { name: 'Puck', description: 'Upbeat and playful' },
+  { name: 'Charon', description: 'Calm and informative' },
+  { name: 'Kore', description: 'Firm and reassuring' },
+  { name: 'Fenrir', description: 'Excitable and energetic' }
+];
+
+export const SPEEDS: { id: SpeakingSpeed; label: string }[] = [
+  { id: 'slow', label: 'Slow' },
+  { id: 'normal', label: 'Normal' },
+  { id: 'fast', label: 'Fast' }
 ];
 
-export const LEVELS = ['Basic', 'Intermediate', 'Advanced'];
+export const SENIORITIES: Seniority[] = ['Junior', 'Mid-level', 'Senior', 'Lead'];
+
+export const QUESTION_CATEGORIES: { id: QuestionCategory; label: string; description: string }[] = [
+  { id: 'behavioural', label: 'Behavioural', description: 'Tell me about a time when...' },
+  { id: 'technical', label: 'Technical', description: 'Your skills and experience in the role' },
+  { id: 'situational', label: 'Situational', description: 'What would you do if...' }
+];
+
+export const SPEECH_TARGETS_MS = [60000, 120000, 180000, 300000];
+
+export const SPEECH_PREP_MS = [5000, 15000, 30000, 60000];
+
+export const SPEECH_TOPICS = [
+  'A person who changed the way I think',
+  'Why everyone should learn a second language',
+  'The best decision I ever made',
+  'How technology has changed my daily life',
+  'A place everyone should visit once',
+  'What makes a good leader',
+  'The skill I wish I had learned earlier',
+  'Should cities ban cars from their centres?'
+];
+
+export const DRILL_SOURCES: { id: DrillSource; label: string; description: string }[] = [
+  { id: 'level', label: 'My level', description: 'Everyday sentences that suit your level.' },
+  { id: 'practice', label: 'A practice type', description: 'Phrases from interviews, speeches and more.' },
+  { id: 'mistakes', label: 'My mistakes', description: 'Corrected versions of sentences you got wrong in earlier calls.' }
+];
+
+export const DRILL_SENTENCE_COUNTS = [4, 6, 8, 10];
+
+/** Native languages the coach can explain in; `code` also picks the interface catalog when one is bundled. */
+export const NATIVE_LANGUAGES: { code: string; name: string; nativeName: string }[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'zh', name: 'Chinese (Mandarin)', nativeName: '中文' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' }
+];
+
+export const L1_POLICIES: L1Policy[] = ['never', 'on-request', 'automatic'];
+
+export const GOAL_METRICS: { id: GoalMetric; label: string; unit: string; defaultTarget: number }[] = [
+  { id: 'practiceMinutes', label: 'Speaking practice', unit: 'min', defaultTarget: 60 },
+  { id: 'learnerMinutes', label: 'Your own talk time', unit: 'min', defaultTarget: 20 },
+  { id: 'sessions', label: 'Calls', unit: 'calls', defaultTarget: 3 },
+  { id: 'activeDays', label: 'Days practised', unit: 'days', defaultTarget: 4 }
+];
+
+export const ERROR_CATEGORIES: { id: ErrorCategory; label: string }[] = [
+  { id: 'articles', label: 'Articles (a, an, the)' },
+  { id: 'verb-tense', label: 'Verb tenses' },
+  { id: 'agreement', label: 'Subject-verb agreement' },
+  { id: 'prepositions', label: 'Prepositions' },
+  { id: 'word-order', label: 'Word order' },
+  { id: 'word-choice', label: 'Word choice' },
+  { id: 'plurals', label: 'Plurals and countable nouns' },
+  { id: 'other', label: 'Other grammar' }
+];
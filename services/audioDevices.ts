@@ -0,0 +1,66 @@
+import { AudioDeviceSettings } from '../types';
+import { loadSetting, saveSetting } from './settingsStore';
+
+const AUDIO_SETTINGS_KEY = 'audioDevices';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioDeviceSettings = {
+  inputDeviceId: '',
+  outputDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true
+};
+
+export const loadAudioSettings = () =>
+  loadSetting<AudioDeviceSettings>(AUDIO_SETTINGS_KEY, DEFAULT_AUDIO_SETTINGS).then(s => ({ ...DEFAULT_AUDIO_SETTINGS, ...s }));
+
+export const saveAudioSettings = (settings: AudioDeviceSettings) => saveSetting(AUDIO_SETTINGS_KEY, settings);
+
+/** `getUserMedia` audio constraints for the chosen microphone; `anyDevice` drops the device choice. */
+export function microphoneConstraints(settings: AudioDeviceSettings, anyDevice = false): MediaTrackConstraints {
+  return {
+    ...(settings.inputDeviceId && !anyDevice ? { deviceId: { exact: settings.inputDeviceId } } : {}),
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl
+  };
+}
+
+export interface AudioDeviceList {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+/** Devices the browser reports. Labels stay empty until the page has been allowed to use the microphone. */
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  const devices = await navigator.mediaDevices?.enumerateDevices?.() ?? [];
+  return {
+    inputs: devices.filter(d => d.kind === 'audioinput'),
+    outputs: devices.filter(d => d.kind === 'audiooutput')
+  };
+}
+
+export const deviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label || (device.deviceId === 'default' ? 'System default' : `Device ${index + 1}`);
+
+// setSinkId is missing from some browsers (notably Safari and Firefox for AudioContext) and from older DOM typings
+type SinkTarget = { setSinkId?: (id: string) => Promise<void> };
+
+/** Whether coach audio can be sent to a chosen output device in this browser. */
+export const canChooseOutput = () =>
+  typeof AudioContext !== 'undefined' && typeof (AudioContext.prototype as SinkTarget).setSinkId === 'function';
+
+/**
+ * Routes an AudioContext or media element to an output device. Resolves false,
+ * leaving the default output, where the browser cannot choose.
+ */
+export async function applyOutputDevice(target: AudioContext | HTMLMediaElement, deviceId: string): Promise<boolean> {
+  const sink = target as unknown as SinkTarget;
+  if (typeof sink.setSinkId !== 'function') return false;
+  await sink.setSinkId(deviceId);
+  return true;
+}
+
+/** Whether a device the settings name is still connected. The system default always is. */
+export const isDeviceAvailable = (devices: MediaDeviceInfo[], deviceId: string) =>
+  !deviceId || devices.some(d => d.deviceId === deviceId);
@@ -0,0 +1,89 @@
+/** Who is audible right now, judged from the audio itself rather than from transcripts. */
+export type SpeakingState = 'silence' | 'learner' | 'coach' | 'both';
+
+export interface AudioLevels {
+  /** Loudness from 0 (silent) to 1, on a decibel scale so quiet speech still shows. */
+  learner: number;
+  coach: number;
+  /** Speech-range frequency bands, low to high, each from 0 to 1. */
+  learnerSpectrum: number[];
+  coachSpectrum: number[];
+  speaking: SpeakingState;
+}
+
+export const SPECTRUM_BANDS = 12;
+
+// Levels are shown over this range of dBFS; anything quieter reads as 0
+const FLOOR_DB = -60;
+// Coach audio is clean synthesized speech, so a fixed threshold is enough to tell it from silence
+export const COACH_SPEECH_DB = -45;
+// Keeps the coach marked as talking through the short gaps between words
+export const COACH_HOLD_MS = 300;
+// Voice energy sits well below this, so higher bins are left out of the spectrum
+const SPECTRUM_MAX_HZ = 5000;
+
+export const silentLevels = (): AudioLevels => ({
+  learner: 0,
+  coach: 0,
+  learnerSpectrum: new Array(SPECTRUM_BANDS).fill(0),
+  coachSpectrum: new Array(SPECTRUM_BANDS).fill(0),
+  speaking: 'silence'
+});
+
+export const speakingStateOf = (learner: boolean, coach: boolean): SpeakingState =>
+  learner && coach ? 'both' : learner ? 'learner' : coach ? 'coach' : 'silence';
+
+/**
+ * Taps an audio graph with an AnalyserNode. The node passes audio through
+ * unchanged, so it can sit between the sources and the destination.
+ */
+export class AudioLevelMeter {
+  readonly node: AnalyserNode;
+  private samples: Float32Array;
+  private bins: Uint8Array;
+  private lastLoudAt = -Infinity;
+
+  constructor(private context: BaseAudioContext) {
+    this.node = context.createAnalyser();
+    this.node.fftSize = 512;
+    this.node.smoothingTimeConstant = 0.6;
+    this.samples = new Float32Array(this.node.fftSize);
+    this.bins = new Uint8Array(this.node.frequencyBinCount);
+  }
+
+  /** RMS of the latest window, in dBFS. */
+  decibels(): number {
+    this.node.getFloatTimeDomainData(this.samples);
+    let sum = 0;
+    for (let i = 0; i < this.samples.length; i++) sum += this.samples[i] * this.samples[i];
+    return 20 * Math.log10(Math.sqrt(sum / this.samples.length) + 1e-10);
+  }
+
+  level(): number {
+    return Math.min(1, Math.max(0, (this.decibels() - FLOOR_DB) / -FLOOR_DB));
+  }
+
+  /** Whether the signal is above `thresholdDb`, holding for `holdMs` after it last was. */
+  isActive(thresholdDb: number, holdMs: number, now = performance.now()): boolean {
+    if (this.decibels() > thresholdDb) this.lastLoudAt = now;
+    return now - this.lastLoudAt <= holdMs;
+  }
+
+  spectrum(bands = SPECTRUM_BANDS): number[] {
+    this.node.getByteFrequencyData(this.bins);
+    const binHz = this.context.sampleRate / this.node.fftSize;
+    const usable = Math.max(bands, Math.min(this.bins.length, Math.floor(SPECTRUM_MAX_HZ / binHz)));
+    const perBand = usable / bands;
+    return Array.from({ length: bands }, (_, band) => {
+      const from = Math.floor(band * perBand);
+      const to = Math.max(from + 1, Math.floor((band + 1) * perBand));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += this.bins[i];
+      return sum / (to - from) / 255;
+    });
+  }
+
+  disconnect() {
+    this.node.disconnect();
+  }
+}
@@ -0,0 +1,58 @@
+import { Avatar, TargetLanguage } from '../types';
+import { SPEEDS, VOICES } from '../constants';
+import { STORES, withStore } from './db';
+
+export const AVATAR_LIMITS = {
+  name: 40,
+  role: 60,
+  tone: 200,
+  description: 500
+} as const;
+
+/** Returns one message per problem; an empty list means the coach can be saved. */
+export function validateAvatar(avatar: Avatar): string[] {
+  const errors: string[] = [];
+  const required: [keyof typeof AVATAR_LIMITS, string][] = [['name', 'Name'], ['role', 'Role'], ['tone', 'Tone']];
+  for (const [field, label] of required) {
+    if (!avatar[field].trim()) errors.push(`${label} is required.`);
+  }
+  for (const field of Object.keys(AVATAR_LIMITS) as (keyof typeof AVATAR_LIMITS)[]) {
+    if (avatar[field].length > AVATAR_LIMITS[field]) {
+      errors.push(`${field[0].toUpperCase()}${field.slice(1)} must be at most ${AVATAR_LIMITS[field]} characters.`);
+    }
+  }
+  if (!SPEEDS.some(s => s.id === avatar.speed)) errors.push('Pick a speaking speed.');
+  if (!VOICES.some(v => v.name === avatar.voiceName)) errors.push('Pick a voice.');
+  if (!avatar.image) errors.push('Add a picture or generate one.');
+  return errors;
+}
+
+/** Whether the coach can run calls in `language`; coaches without a list teach every language. */
+export const teaches = (avatar: Avatar, language: TargetLanguage) =>
+  !avatar.languages?.length || avatar.languages.includes(language);
+
+export async function saveCustomAvatar(avatar: Avatar): Promise<Avatar> {
+  const errors = validateAvatar(avatar);
+  if (errors.length) throw new Error(errors.join(' '));
+  const stored: Avatar = {
+    ...avatar,
+    name: avatar.name.trim(),
+    role: avatar.role.trim(),
+    tone: avatar.tone.trim(),
+    description: avatar.description.trim(),
+    languages: avatar.languages?.length ? avatar.languages : undefined,
+    custom: true
+  };
+  await withStore(STORES.avatars, 'readwrite', store => store.put(stored));
+  return stored;
+}
+
+/** Custom coaches in alphabetical order. */
+export async function listCustomAvatars(): Promise<Avatar[]> {
+  const avatars: Avatar[] = await withStore(STORES.avatars, 'readonly', store => store.getAll());
+  return avatars.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function deleteCustomAvatar(id: string): Promise<undefined> {
+  return withStore(STORES.avatars, 'readwrite', store => store.delete(id));
+}
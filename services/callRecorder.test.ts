@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeWav } from '../utils/wav';
+import { CallRecorder } from './callRecorder';
+
+const RATE = 1000;
+
+const frame = (length: number, value: number) => new Float32Array(length).fill(value);
+
+describe('CallRecorder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it('lays both tracks out on the call timeline', async () => {
+    const recorder = new CallRecorder(RATE, RATE);
+    vi.setSystemTime(100);
+    recorder.addLearnerFrame(frame(100, 0.5));
+    recorder.addLearnerFrame(frame(100, 0.25));
+    recorder.addCoachAudio(frame(50, -0.5), 200);
+    vi.setSystemTime(500);
+
+    const result = recorder.finish();
+    const learner = await decodeWav(result.learner);
+    const coach = await decodeWav(result.coach);
+
+    expect(result.durationMs).toBe(500);
+    expect(learner.samples.length).toBe(500);
+    expect(learner.samples[0]).toBeCloseTo(0.5, 3);
+    expect(learner.samples[150]).toBeCloseTo(0.25, 3);
+    expect(learner.samples[250]).toBe(0);
+    expect(coach.samples.length).toBe(500);
+    expect(coach.samples[299]).toBe(0);
+    expect(coach.samples[300]).toBeCloseTo(-0.5, 3);
+    expect(coach.samples[350]).toBe(0);
+  });
+
+  it('drops coach audio cut off by an interruption', async () => {
+    const recorder = new CallRecorder(RATE, RATE);
+    recorder.addCoachAudio(frame(400, 0.5), 0);
+    vi.setSystemTime(100);
+    recorder.truncateCoach();
+    vi.setSystemTime(400);
+
+    const coach = await decodeWav(recorder.finish().coach);
+    expect(coach.samples[99]).toBeCloseTo(0.5, 3);
+    expect(coach.samples[100]).toBe(0);
+  });
+
+  it('stops recording at the length cap', async () => {
+    const recorder = new CallRecorder(RATE, RATE, 1000);
+    for (let i = 0; i < 15; i++) recorder.addLearnerFrame(frame(100, 0.5));
+    recorder.addCoachAudio(frame(100, 0.5), 2000);
+    vi.setSystemTime(1500);
+
+    const result = recorder.finish();
+    expect(result.durationMs).toBe(1000);
+    expect((await decodeWav(result.learner)).samples.length).toBe(1000);
+    expect((await decodeWav(result.coach)).samples.every(s => s === 0)).toBe(true);
+  });
+});
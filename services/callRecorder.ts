@@ -0,0 +1,106 @@
+import { toInt16, wavHeader } from '../utils/wav';
+
+export interface CallRecordingData {
+  /** Epoch ms that offset 0 of both tracks corresponds to. */
+  startedAt: number;
+  durationMs: number;
+  learner: Blob;
+  coach: Blob;
+}
+
+interface PlacedChunk {
+  offset: number; // in samples
+  samples: Int16Array;
+}
+
+/** Audio after this much of a call is not recorded, which keeps a long call to about 150 MB. */
+export const MAX_RECORDING_MS = 30 * 60 * 1000;
+
+// Gaps in a track are filled from this, one second at a time, rather than allocated
+const SILENCE = new Int16Array(48000);
+
+/**
+ * Keeps both sides of a call as 16-bit PCM on a shared timeline: the learner's
+ * mic frames (after resampling) and the coach audio as scheduled for playback.
+ * The chunks become the WAV files as they are, without rendering whole tracks.
+ */
+export class CallRecorder {
+  readonly startedAt = Date.now();
+  private learner: PlacedChunk[] = [];
+  private coach: PlacedChunk[] = [];
+  private learnerCursor: number | null = null;
+
+  constructor(private learnerRate: number, private coachRate: number, private maxMs = MAX_RECORDING_MS) {}
+
+  private elapsedMs() {
+    return Date.now() - this.startedAt;
+  }
+
+  /** Mic frames arrive back to back, so they are laid end to end from the first one. */
+  addLearnerFrame(frame: Float32Array) {
+    if (this.learnerCursor === null) {
+      const frameMs = frame.length / this.learnerRate * 1000;
+      this.learnerCursor = Math.max(0, Math.round((this.elapsedMs() - frameMs) * this.learnerRate / 1000));
+    }
+    this.place(this.learner, this.learnerCursor, frame, this.learnerRate);
+    this.learnerCursor += frame.length;
+  }
+
+  /** `delayMs` is how far in the future the chunk is scheduled to start playing. */
+  addCoachAudio(samples: Float32Array, delayMs: number) {
+    const offset = Math.round((this.elapsedMs() + delayMs) * this.coachRate / 1000);
+    this.place(this.coach, offset, samples, this.coachRate);
+  }
+
+  /** Drops coach audio that was scheduled but never heard because playback stopped now. */
+  truncateCoach() {
+    const cutoff = Math.round(this.elapsedMs() * this.coachRate / 1000);
+    this.coach = this.coach
+      .filter(chunk => chunk.offset < cutoff)
+      .map(chunk => chunk.offset + chunk.samples.length > cutoff
+        ? { offset: chunk.offset, samples: chunk.samples.slice(0, cutoff - chunk.offset) }
+        : chunk);
+  }
+
+  get isEmpty() {
+    return this.learner.length === 0 && this.coach.length === 0;
+  }
+
+  finish(): CallRecordingData {
+    const durationMs = Math.min(this.elapsedMs(), this.maxMs);
+    return {
+      startedAt: this.startedAt,
+      durationMs,
+      learner: this.toWav(this.learner, this.learnerRate, durationMs),
+      coach: this.toWav(this.coach, this.coachRate, durationMs)
+    };
+  }
+
+  private place(track: PlacedChunk[], offset: number, samples: Float32Array, sampleRate: number) {
+    const limit = Math.round(this.maxMs * sampleRate / 1000);
+    if (offset >= limit) return;
+    track.push({ offset, samples: toInt16(samples.subarray(0, limit - offset)) });
+  }
+
+  /** Lays the chunks out in order with silence between them. Where chunks overlap, the earlier one wins. */
+  private toWav(chunks: PlacedChunk[], sampleRate: number, durationMs: number): Blob {
+    const parts: BlobPart[] = [];
+    let cursor = 0;
+    const fill = (until: number) => {
+      while (cursor < until) {
+        const length = Math.min(SILENCE.length, until - cursor);
+        parts.push(SILENCE.subarray(0, length));
+        cursor += length;
+      }
+    };
+    [...chunks].sort((a, b) => a.offset - b.offset).forEach(({ offset, samples }) => {
+      fill(offset);
+      const skip = cursor - offset;
+      if (skip >= samples.length) return;
+      parts.push(skip > 0 ? samples.subarray(skip) : samples);
+      cursor = offset + samples.length;
+    });
+    fill(Math.round(durationMs * sampleRate / 1000));
+    return new Blob([wavHeader(cursor, sampleRate), ...parts], { type: 'audio/wav' });
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { COACH_TOOL_DECLARATIONS, COACH_TOOLS, parseToolCall } from './coachTools';
+
+describe('parseToolCall', () => {
+  it('trims the arguments of a valid call and fills optional ones', () => {
+    expect(parseToolCall({ id: 'a', name: 'show_correction', args: { original: ' I goed ', corrected: 'I went' } })).toEqual({
+      id: 'a', name: 'show_correction', args: { original: 'I goed', corrected: 'I went', explanation: '' }
+    });
+  });
+
+  it('rejects unknown tools', () => {
+    expect(parseToolCall({ id: 'b', name: 'open_browser', args: {} })).toBeNull();
+    expect(parseToolCall({ id: 'c', args: {} })).toBeNull();
+  });
+
+  it('rejects missing or unusable arguments', () => {
+    expect(parseToolCall({ id: 'd', name: 'show_correction', args: { original: 'I goed' } })).toBeNull();
+    expect(parseToolCall({ id: 'e', name: 'pin_word', args: { word: 'a phrase far too long to pin' } })).toBeNull();
+    expect(parseToolCall({ id: 'f', name: 'set_difficulty', args: { level: 'Advanced', reason: 'Too easy' } })).toBeNull();
+    expect(parseToolCall({ id: 'g', name: 'show_example' })).toBeNull();
+  });
+
+  it('accepts a CEFR band for set_difficulty', () => {
+    expect(parseToolCall({ id: 'h', name: 'set_difficulty', args: { level: 'B2', reason: 'Too easy' } })?.args).toEqual({ level: 'B2', reason: 'Too easy' });
+  });
+
+  it('declares every tool it can parse', () => {
+    expect(COACH_TOOL_DECLARATIONS.map(d => d.name)).toEqual(Object.keys(COACH_TOOLS));
+  });
+});
@@ -0,0 +1,128 @@
+import { FunctionCall, FunctionDeclaration, Type } from '@google/genai';
+import { CefrBand } from '../types';
+import { LEVELS } from '../constants';
+
+/** Arguments of each tool the coach can call during a live call, after validation. */
+export interface CoachToolArgs {
+  show_correction: { original: string; corrected: string; explanation: string };
+  pin_word: { word: string; meaning: string; example: string };
+  show_example: { sentence: string; note: string };
+  set_difficulty: { level: CefrBand; reason: string };
+  end_lesson: { summary: string };
+}
+
+export type CoachToolName = keyof CoachToolArgs;
+
+/** A validated call from the coach, narrowed by `name`. */
+export type CoachToolCall = { [K in CoachToolName]: { id: string; name: K; args: CoachToolArgs[K] } }[CoachToolName];
+
+interface CoachTool<K extends CoachToolName> {
+  declaration: FunctionDeclaration & { name: K };
+  /** Null when the model's arguments are unusable. */
+  parse: (args: Record<string, unknown>) => CoachToolArgs[K] | null;
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const isLevel = (value: unknown): value is CefrBand => LEVELS.includes(value as CefrBand);
+
+/** The tools, keyed by name. The declarations are passed to the live session; `parse` checks what comes back. */
+export const COACH_TOOLS: { [K in CoachToolName]: CoachTool<K> } = {
+  show_correction: {
+    declaration: {
+      name: 'show_correction',
+      description: 'Show the learner a card with a mistake they just made and the corrected version. Use it when you correct them out loud.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          original: { type: Type.STRING, description: 'What the learner said, word for word.' },
+          corrected: { type: Type.STRING, description: 'The corrected sentence.' },
+          explanation: { type: Type.STRING, description: 'One short sentence on why.' }
+        },
+        required: ['original', 'corrected', 'explanation']
+      }
+    },
+    parse: args => {
+      const original = text(args.original);
+      const corrected = text(args.corrected);
+      return original && corrected ? { original, corrected, explanation: text(args.explanation) } : null;
+    }
+  },
+  pin_word: {
+    declaration: {
+      name: 'pin_word',
+      description: 'Pin a useful word or phrase to the screen for the rest of the call and save it to the learner\'s vocabulary notebook.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING, description: 'The word or short phrase, at most four words.' },
+          meaning: { type: Type.STRING, description: 'A short, simple definition.' },
+          example: { type: Type.STRING, description: 'An example sentence using it.' }
+        },
+        required: ['word', 'meaning']
+      }
+    },
+    parse: args => {
+      const word = text(args.word);
+      return word && word.split(/\s+/).length <= 4 ? { word, meaning: text(args.meaning), example: text(args.example) } : null;
+    }
+  },
+  show_example: {
+    declaration: {
+      name: 'show_example',
+      description: 'Display a written example sentence the learner should read, for example a model answer or a sentence to repeat.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          sentence: { type: Type.STRING },
+          note: { type: Type.STRING, description: 'Optional: what to notice in the sentence.' }
+        },
+        required: ['sentence']
+      }
+    },
+    parse: args => {
+      const sentence = text(args.sentence);
+      return sentence ? { sentence, note: text(args.note) } : null;
+    }
+  },
+  set_difficulty: {
+    declaration: {
+      name: 'set_difficulty',
+      description: 'Switch the lesson level when the learner is clearly finding it too easy or too hard. Then speak at the new level.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          level: { type: Type.STRING, enum: LEVELS, description: 'The CEFR band to switch to, usually one step up or down.' },
+          reason: { type: Type.STRING, description: 'One short sentence for the learner.' }
+        },
+        required: ['level', 'reason']
+      }
+    },
+    parse: args => (isLevel(args.level) ? { level: args.level, reason: text(args.reason) } : null)
+  },
+  end_lesson: {
+    declaration: {
+      name: 'end_lesson',
+      description: 'End the lesson when the learner wants to stop or the lesson is complete. Say goodbye in the same turn.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          summary: { type: Type.STRING, description: 'One or two sentences on what the learner did well today.' }
+        },
+        required: ['summary']
+      }
+    },
+    parse: args => ({ summary: text(args.summary) })
+  }
+};
+
+export const COACH_TOOL_DECLARATIONS: FunctionDeclaration[] = Object.values(COACH_TOOLS).map(tool => tool.declaration);
+
+const isToolName = (name: unknown): name is CoachToolName => typeof name === 'string' && name in COACH_TOOLS;
+
+/** Validates a function call from the live session; null for unknown tools or unusable arguments. */
+export function parseToolCall(call: FunctionCall): CoachToolCall | null {
+  if (!isToolName(call.name)) return null;
+  const args = COACH_TOOLS[call.name].parse(call.args ?? {});
+  return args ? ({ id: call.id ?? '', name: call.name, args } as CoachToolCall) : null;
+}
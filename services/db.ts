@@ -0,0 +1,109 @@
+import { upgradePlacement, upgradeScenario, upgradeSession, upgradeVocabularyEntry } from './legacyRecords';
+
+const DB_NAME = 'speakflow';
+
+export const STORES = {
+  sessions: 'sessions',
+  recordings: 'recordings',
+  vocabulary: 'vocabulary',
+  avatars: 'avatars',
+  scenarios: 'scenarios',
+  placements: 'placements',
+  settings: 'settings'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Rewrites every record in a store inside the upgrade transaction
+function rewriteStore(tx: IDBTransaction, storeName: StoreName, upgrade: (record: any) => unknown) {
+  const request = tx.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(upgrade(cursor.value));
+    cursor.continue();
+  };
+}
+
+// Each entry upgrades the schema by one version. Append new steps; never edit old ones.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    sessions.createIndex('startedAt', 'startedAt');
+  },
+  (db) => {
+    const recordings = db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+    recordings.createIndex('sessionId', 'sessionId');
+  },
+  (db) => {
+    const vocabulary = db.createObjectStore(STORES.vocabulary, { keyPath: 'id' });
+    vocabulary.createIndex('dueAt', 'dueAt');
+  },
+  (db) => {
+    db.createObjectStore(STORES.avatars, { keyPath: 'id' });
+  },
+  (db) => {
+    db.createObjectStore(STORES.scenarios, { keyPath: 'id' });
+  },
+  (db) => {
+    const placements = db.createObjectStore(STORES.placements, { keyPath: 'id' });
+    placements.createIndex('takenAt', 'takenAt');
+  },
+  (db) => {
+    db.createObjectStore(STORES.settings, { keyPath: 'key' });
+  },
+  // CEFR levels and target languages
+  (_db, tx) => {
+    rewriteStore(tx, STORES.sessions, upgradeSession);
+    rewriteStore(tx, STORES.placements, upgradePlacement);
+    rewriteStore(tx, STORES.scenarios, upgradeScenario);
+    rewriteStore(tx, STORES.vocabulary, upgradeVocabularyEntry);
+  }
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let v = event.oldVersion; v < MIGRATIONS.length; v++) {
+          MIGRATIONS[v](db, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Runs a single request against one store and resolves once its transaction commits. */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const result = requestToPromise(run(tx.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+}
@@ -0,0 +1,132 @@
+import { ChatTurn, DrillAttempt, DrillConfig, DrillItem, DrillRecord, DrillSentence, TargetLanguage } from '../types';
+import { alignmentWords, alignWords, scoreDiff } from '../utils/wordAlignment';
+
+/** Prefix for instructions the app sends into the call; the system instruction tells the coach not to read them out. */
+export const DRILL_CONTROL_PREFIX = '[DRILL]';
+
+/** Attempts scoring below this are worth another try. */
+export const DRILL_PASS_SCORE = 80;
+
+export interface DrillState {
+  items: DrillItem[];
+  /** Index of the current sentence; equals `items.length` once the last one is done. */
+  index: number;
+  /** Whether the coach has said the current sentence yet. */
+  presented: boolean;
+}
+
+interface OpenSentence {
+  item: DrillItem;
+  presented: boolean;
+  /** Learner turns not yet scored. */
+  turns: ChatTurn[];
+}
+
+export const bestScore = (item: DrillItem) => Math.max(0, ...item.attempts.map(a => a.score));
+
+/** Average of each sentence's best attempt, over the sentences attempted. */
+export function drillScore(items: DrillItem[]): number | null {
+  const attempted = items.filter(i => i.attempts.length > 0);
+  if (attempted.length === 0) return null;
+  return Math.round(attempted.reduce((sum, i) => sum + bestScore(i), 0) / attempted.length);
+}
+
+/**
+ * Runs a shadowing drill on top of a live call: the coach says each sentence,
+ * and every repetition the learner makes is aligned against it word by word
+ * and scored. The learner decides when to retry and when to move on.
+ */
+export class DrillController {
+  private index = 0;
+  private items: DrillItem[];
+  private current: OpenSentence | null;
+  // A learner turn is only completed together with the coach's reply, so the previous
+  // sentence keeps collecting turns until the coach has said the next one
+  private closing: OpenSentence | null = null;
+
+  constructor(
+    readonly config: DrillConfig,
+    sentences: DrillSentence[],
+    private send: (text: string) => void,
+    private onChange: (state: DrillState) => void,
+    private language: TargetLanguage = 'en'
+  ) {
+    this.items = sentences.map(s => ({ sentenceId: s.id, text: s.text, attempts: [] }));
+    this.current = this.items[0] ? { item: this.items[0], presented: false, turns: [] } : null;
+  }
+
+  /** Where the drill has got to, so a reconnected coach says the current sentence rather than the first. */
+  progress() {
+    return { sentence: this.current?.item.text ?? null, index: this.index, presented: this.current?.presented ?? false };
+  }
+
+  getState(): DrillState {
+    return {
+      items: this.items.map(i => ({ ...i, attempts: [...i.attempts] })),
+      index: this.index,
+      presented: this.current?.presented ?? false
+    };
+  }
+
+  /** Feed every completed transcript turn of the call, in order. */
+  addTurn(turn: ChatTurn) {
+    if (turn.role === 'user') {
+      // Anything said before the coach has given the sentence is not an attempt at it
+      const open = this.closing ?? (this.current?.presented ? this.current : null);
+      open?.turns.push(turn);
+      return;
+    }
+    if (this.closing) {
+      this.score(this.closing);
+      this.closing = null;
+    }
+    if (this.current) {
+      this.score(this.current);
+      this.current.presented = true;
+    }
+    this.emit();
+  }
+
+  /** Asks the coach to say the current sentence again. */
+  retry() {
+    if (!this.current) return;
+    this.send(`${DRILL_CONTROL_PREFIX} Say the same sentence again, slowly and clearly: "${this.current.item.text}" Then wait for the learner to repeat it.`);
+  }
+
+  nextSentence() {
+    if (!this.current) return;
+    if (this.closing) this.score(this.closing);
+    this.closing = this.current;
+    this.index++;
+    const next = this.items[this.index];
+    this.current = next ? { item: next, presented: false, turns: [] } : null;
+    this.send(next
+      ? `${DRILL_CONTROL_PREFIX} Now say the next sentence: "${next.text}" Then wait for the learner to repeat it.`
+      : `${DRILL_CONTROL_PREFIX} That was the last sentence. Briefly congratulate the learner and tell them their scores will appear when they end the call.`);
+    this.emit();
+  }
+
+  /** Scores any attempts still open and returns the sentences the coach got to. */
+  finish(): DrillRecord {
+    if (this.closing) this.score(this.closing);
+    if (this.current) this.score(this.current);
+    const reached = this.index + (this.current?.presented ? 1 : 0);
+    this.closing = null;
+    this.current = null;
+    return { config: this.config, items: this.items.slice(0, reached) };
+  }
+
+  private score(open: OpenSentence) {
+    const transcript = open.turns.map(t => t.text.trim()).join(' ');
+    const last = open.turns[open.turns.length - 1];
+    open.turns = [];
+    if (!last || alignmentWords(transcript, this.language).length === 0) return;
+    const diff = alignWords(open.item.text, transcript, this.language);
+    const attempt: DrillAttempt = { transcript, score: scoreDiff(diff), diff, at: last.timestamp };
+    open.item.attempts.push(attempt);
+  }
+
+  private emit() {
+    this.onChange(this.getState());
+  }
+}
@@ -0,0 +1,75 @@
+import { CefrBand, DrillConfig, DrillSentence, LearnerProfile, TargetLanguage } from '../types';
+import { listSessions } from './sessionStore';
+import { rankErrors } from './learnerProfile';
+import { alignmentWords } from '../utils/wordAlignment';
+import sentenceBank from '../drill/sentences.json';
+
+export const DRILL_SENTENCES = sentenceBank as DrillSentence[];
+
+export const DEFAULT_DRILL_CONFIG: DrillConfig = { source: 'level', practiceType: 'Daily Conversation', sentenceCount: 6 };
+
+// Corrected sentences outside this range are too short to practise or too long to repeat in one go
+const MIN_MISTAKE_WORDS = 3;
+const MAX_MISTAKE_WORDS = 20;
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const suitsLevel = (sentence: DrillSentence, level: CefrBand) => !sentence.levels || sentence.levels.includes(level);
+
+const belongsTo = (sentence: DrillSentence, practiceType: DrillConfig['practiceType']) =>
+  sentence.practiceTypes ? sentence.practiceTypes.includes(practiceType) : practiceType === 'General Speaking';
+
+/**
+ * The corrected versions of the learner's own mistakes, most recent first:
+ * the profile's examples, then the corrections in earlier call reports in the same language.
+ */
+export async function loadMistakeSentences(profile?: LearnerProfile, language: TargetLanguage = 'en'): Promise<string[]> {
+  const fromProfile = profile ? rankErrors(profile.errors).flatMap(e => e.examples.map(x => x.corrected)) : [];
+  const sessions = (await listSessions()).filter(s => s.language === language);
+  const fromReports = sessions.flatMap(s => s.report?.grammarCorrections.map(c => c.corrected) ?? []);
+  const seen = new Set<string>();
+  return [...fromProfile, ...fromReports]
+    .map(text => text.trim())
+    .filter(text => {
+      const key = alignmentWords(text, language).join(' ');
+      const words = alignmentWords(text, language).length;
+      if (seen.has(key) || words < MIN_MISTAKE_WORDS || words > MAX_MISTAKE_WORDS) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Picks the sentences for a drill. Past mistakes are taken in order; when
+ * there are too few of them, or too few sentences for a practice type at
+ * this level, the set is topped up from the level's general sentences in the
+ * same language.
+ */
+export function buildDrillSet(
+  config: DrillConfig,
+  level: CefrBand,
+  language: TargetLanguage = 'en',
+  mistakes: string[] = [],
+  bank: DrillSentence[] = DRILL_SENTENCES,
+  random: () => number = Math.random
+): DrillSentence[] {
+  const forLevel = shuffle(bank.filter(s => (s.language ?? 'en') === language && suitsLevel(s, level)), random);
+  const first: DrillSentence[] = config.source === 'mistakes'
+    ? mistakes.map((text, i) => ({ id: `mistake-${i}`, text }))
+    : config.source === 'practice'
+    ? forLevel.filter(s => belongsTo(s, config.practiceType))
+    : forLevel;
+  const chosen = first.slice(0, config.sentenceCount);
+  for (const sentence of forLevel) {
+    if (chosen.length >= config.sentenceCount) break;
+    if (!chosen.some(s => s.id === sentence.id)) chosen.push(sentence);
+  }
+  return chosen;
+}
@@ -0,0 +1,152 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { CefrBand, ChatTurn, ErrorCategory, FeedbackReport, PracticeType, TargetLanguage } from '../types';
+import { ERROR_CATEGORIES } from '../constants';
+import { languageName } from '../utils/format';
+import { getConfiguredTransportKind } from './liveTransport';
+import { LocalFeedbackProvider } from './localFeedback';
+
+export interface ReportRequest {
+  turns: ChatTurn[];
+  level: CefrBand;
+  language: TargetLanguage;
+  mode: PracticeType;
+}
+
+/** Produces the end-of-call report. Separate from the live session, which is closed by then. */
+export interface FeedbackReportProvider {
+  readonly kind: FeedbackReport['source'];
+  generate: (request: ReportRequest) => Promise<FeedbackReport>;
+}
+
+const REPORT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    grammarCorrections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          original: { type: Type.STRING },
+          corrected: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+          category: { type: Type.STRING, enum: ERROR_CATEGORIES.map(c => c.id) }
+        },
+        required: ['original', 'corrected', 'explanation', 'category']
+      }
+    },
+    vocabulary: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING },
+          meaning: { type: Type.STRING },
+          example: { type: Type.STRING },
+          replaces: { type: Type.STRING }
+        },
+        required: ['word', 'meaning', 'example']
+      }
+    },
+    strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+    nextSteps: { type: Type.ARRAY, items: { type: Type.STRING } },
+    interests: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['summary', 'grammarCorrections', 'vocabulary', 'strengths', 'nextSteps']
+};
+
+const isErrorCategory = (value: unknown): value is ErrorCategory => ERROR_CATEGORIES.some(c => c.id === value);
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0) : [];
+
+/** Coerces model output into a FeedbackReport, dropping malformed entries rather than failing. */
+export function normalizeReport(raw: any, source: FeedbackReport['source']): FeedbackReport {
+  const objects = (value: unknown): any[] => (Array.isArray(value) ? value.filter(v => v && typeof v === 'object') : []);
+  return {
+    summary: typeof raw?.summary === 'string' ? raw.summary : '',
+    grammarCorrections: objects(raw?.grammarCorrections)
+      .filter(c => typeof c.original === 'string' && typeof c.corrected === 'string')
+      .map(c => ({
+        original: c.original,
+        corrected: c.corrected,
+        explanation: String(c.explanation ?? ''),
+        category: isErrorCategory(c.category) ? c.category : 'other'
+      })),
+    vocabulary: objects(raw?.vocabulary)
+      .filter(v => typeof v.word === 'string')
+      .map(v => ({
+        word: v.word,
+        meaning: String(v.meaning ?? ''),
+        example: String(v.example ?? ''),
+        ...(typeof v.replaces === 'string' && v.replaces ? { replaces: v.replaces } : {})
+      })),
+    strengths: strings(raw?.strengths),
+    nextSteps: strings(raw?.nextSteps),
+    interests: strings(raw?.interests),
+    generatedAt: Date.now(),
+    source
+  };
+}
+
+export const formatTranscriptForPrompt = (turns: ChatTurn[]) =>
+  turns.map(t => `${t.role === 'user' ? 'Learner' : 'Coach'}: ${t.text.trim()}`).join('\n');
+
+export class GeminiFeedbackProvider implements FeedbackReportProvider {
+  readonly kind = 'gemini' as const;
+
+  async generate({ turns, level, language, mode }: ReportRequest): Promise<FeedbackReport> {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key missing");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    const target = languageName(language);
+    // The report screens are in English, so explanations of another language's grammar are too
+    const explain = language === 'en' ? `at a ${level} level` : 'in simple English';
+    const prompt = `
+      You are reviewing a spoken ${target} practice call. The learner's level is CEFR ${level}; the practice mode was "${mode}".
+      Lines marked "Learner" are speech-to-text transcriptions, so ignore punctuation and capitalisation issues.
+
+      Produce a feedback report:
+      - summary: two or three encouraging sentences about the call.
+      - grammarCorrections: for learner sentences with real grammar or word-choice errors, quote the original sentence exactly,
+        give a corrected version, and explain the rule briefly ${explain}. Give each the category of its main mistake:
+        ${ERROR_CATEGORIES.map(c => c.id).join(', ')}. At most 8. Skip sentences that are fine.
+      - vocabulary: up to 6 ${target} words or phrases that would have made the learner sound more natural, with meaning, an example,
+        and the plainer word they replace if the learner used one.
+      - strengths: 2 to 4 specific things the learner did well.
+      - nextSteps: 2 to 4 concrete goals for the next call.
+      - interests: up to 3 topics the learner talked about with interest (hobbies, work, places), as short noun phrases.
+
+      TRANSCRIPT:
+      ${formatTranscriptForPrompt(turns)}
+    `;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: REPORT_SCHEMA
+      }
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response.text ?? '');
+    } catch {
+      throw new Error('The feedback service returned an unreadable report.');
+    }
+    return normalizeReport(parsed, 'gemini');
+  }
+}
+
+/** The live transport setting decides: offline (scripted) calls get the offline report too. */
+export const createFeedbackProvider = (): FeedbackReportProvider => {
+  if (getConfiguredTransportKind() === 'scripted' || !process.env.API_KEY) {
+    return new LocalFeedbackProvider();
+  }
+  return new GeminiFeedbackProvider();
+};
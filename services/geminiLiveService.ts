@@ -1,157 +1,609 @@
-
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import { Modality, LiveServerMessage, LiveSendRealtimeInputParameters, FunctionCall, FunctionResponse } from '@google/genai';
 import { createBlob, decode, decodeAudioData } from '../utils/audioUtils';
-import { Avatar, EnglishLevel, PracticeType, ChatTurn } from '../types';
+import { Avatar, CefrBand, PracticeType, ChatTurn, CallStatus, CallStatusDetail, InputMode, Scenario, MonologueConfig, L1Policy, LearnerProfile, AudioDeviceSettings, TargetLanguage } from '../types';
+import { createLiveTransport, LiveTransport, LiveTransportSession } from './liveTransport';
+import { buildSystemInstruction, InstructionContext } from './systemInstruction';
+import { CAPTURE_SAMPLE_RATE, CaptureOptions, DEFAULT_CAPTURE_OPTIONS, MicCapture } from './micCapture';
+import { VadOptions, VoiceActivityDetector } from '../utils/vad';
+import { CallRecorder, CallRecordingData } from './callRecorder';
+import { SpeechTimer } from '../utils/speechTimer';
+import { PlaybackSchedule, trimToPlayed } from '../utils/playbackSchedule';
+import { AudioLevelMeter, AudioLevels, COACH_HOLD_MS, COACH_SPEECH_DB, silentLevels, speakingStateOf } from './audioLevels';
+import { COACH_TOOL_DECLARATIONS, CoachToolCall, parseToolCall } from './coachTools';
+import { applyOutputDevice, DEFAULT_AUDIO_SETTINGS, isDeviceAvailable, listAudioDevices, microphoneConstraints } from './audioDevices';
+
+export type InterviewProgress = NonNullable<InstructionContext['interview']>;
+export type PlacementProgress = NonNullable<InstructionContext['placement']>;
+export type DrillProgress = NonNullable<InstructionContext['drill']>;
 
 export interface LiveSessionCallbacks {
-  onTranscriptionUpdate: (role: 'user' | 'model', text: string, isComplete: boolean, confidence?: number) => void;
-  onStatusChange: (status: 'connecting' | 'open' | 'closed' | 'error' | 'reconnecting', message?: string) => void;
+  /** On completion, `turn` is the finished turn including any locally measured details. */
+  onTranscriptionUpdate: (role: 'user' | 'model', text: string, isComplete: boolean, turn?: ChatTurn) => void;
+  onStatusChange: (status: CallStatus, detail?: CallStatusDetail) => void;
   onKeyRequired?: () => void;
+  /** Fires when the input gate opens or closes (VAD or push-to-talk modes only). */
+  onUserActivity?: (speaking: boolean) => void;
+  /** The microphone could not be opened; the call carries on in 'text' input mode. */
+  onMicrophoneUnavailable?: (reason: string) => void;
+  /** A chosen device could not be used or was disconnected, and the call moved to `label` (the system default unless the browser names it). */
+  onAudioDeviceChange?: (kind: 'input' | 'output', label: string) => void;
+  /** The coach called one of the on-screen tools. The return value, if any, is sent back to the coach as the result. */
+  onToolCall?: (call: CoachToolCall) => Record<string, unknown> | void;
+  /** The coach was interrupted and withdrew these earlier tool calls. */
+  onToolCallCancelled?: (ids: string[]) => void;
+}
+
+export interface CallOptions {
+  /** The language the learner is practising; English when omitted. */
+  language?: TargetLanguage;
+  inputMode?: InputMode;
+  /** Keep both sides of the call so it can be saved with the session. */
+  record?: boolean;
+  /** Notebook words for the coach to work into the conversation. */
+  reviewWords?: string[];
+  scenario?: Scenario;
+  /** Structured interview. Read each time the session opens, so a reconnect resumes at the current question. */
+  interview?: () => InterviewProgress;
+  /** Public-speaking call; pair it with 'push-to-talk' so the app decides when the learner has the floor. */
+  monologue?: MonologueConfig;
+  nativeLanguage?: { name: string; policy: L1Policy };
+  /** Placement test. Read each time the session opens, so a reconnect resumes at the current question. */
+  placement?: () => PlacementProgress;
+  profile?: LearnerProfile;
+  /** Shadowing drill. Read each time the session opens, so a reconnect resumes at the current sentence. */
+  drill?: () => DrillProgress;
+  /** Devices and microphone processing; the system defaults when omitted. */
+  audio?: AudioDeviceSettings;
+}
+
+export interface ReconnectOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000
+};
+
+/** Exponential backoff with jitter: a random delay between half and all of min(max, base * 2^(attempt-1)). */
+export const getReconnectDelay = (attempt: number, options: ReconnectOptions = DEFAULT_RECONNECT_OPTIONS) => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+export interface LiveServiceOptions {
+  reconnect?: Partial<ReconnectOptions>;
+  capture?: Partial<CaptureOptions>;
+  vad?: Partial<VadOptions>;
+}
+
+// Audio kept from just before the VAD triggers, so word onsets are not clipped
+const PRE_ROLL_MS = 300;
+
+// getUserMedia errors that mean there is no usable microphone, as opposed to a failure worth reporting
+const MIC_UNAVAILABLE_ERRORS = ['NotAllowedError', 'NotFoundError', 'NotReadableError', 'OverconstrainedError', 'SecurityError'];
+
+const isKeyError = (message: string) =>
+  message.includes('API Key missing') || message.includes('entity was not found') || message.includes('API_KEY') || message.includes('404');
+
+interface CallContext {
+  avatar: Avatar;
+  level: CefrBand;
+  language: TargetLanguage;
+  mode: PracticeType;
+  inputMode: InputMode;
+  reviewWords: string[];
+  scenario?: Scenario;
+  interview?: () => InterviewProgress;
+  monologue?: MonologueConfig;
+  nativeLanguage?: { name: string; policy: L1Policy };
+  placement?: () => PlacementProgress;
+  profile?: LearnerProfile;
+  drill?: () => DrillProgress;
+  audio: AudioDeviceSettings;
+  callbacks: LiveSessionCallbacks;
 }
 
 export class GeminiLiveService {
   private audioContext: AudioContext | null = null;
   private outAudioContext: AudioContext | null = null;
-  private nextStartTime = 0;
+  private playback = new PlaybackSchedule();
+  // Bumped when playback is stopped, so audio still being decoded from before is dropped rather than played late
+  private playbackGeneration = 0;
   private sources = new Set<AudioBufferSourceNode>();
   private currentInputTranscription = '';
   private currentOutputTranscription = '';
+  // Length of the coach audio received for the current turn
+  private currentOutputAudioMs = 0;
   private micStream: MediaStream | null = null;
-  private scriptProcessor: ScriptProcessorNode | null = null;
+  private capture: MicCapture | null = null;
   private isActive = false;
-  private sessionPromise: Promise<any> | null = null;
+  private sessionPromise: Promise<LiveTransportSession> | null = null;
+  // Only set while a session is open; mic frames are dropped while it is null
+  private session: LiveTransportSession | null = null;
+  private sessionGeneration = 0;
+  private call: CallContext | null = null;
+  private turns: ChatTurn[] = [];
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectOptions: ReconnectOptions;
+  private captureOptions: CaptureOptions;
+  private vadOptions: Partial<VadOptions>;
+  private vad: VoiceActivityDetector | null = null;
+  private preRoll: Float32Array[] = [];
+  private pushToTalkHeld = false;
+  // What the input gate wants vs. what the current session has been told
+  private userSpeaking = false;
+  private activityOpen = false;
+  private recorder: CallRecorder | null = null;
+  private speechTimer = new SpeechTimer();
+  private inputMeter: AudioLevelMeter | null = null;
+  // Coach audio is routed through this meter on its way to the speakers
+  private outputMeter: AudioLevelMeter | null = null;
+  // Whether the VAD hears the learner; tracked in every input mode, gate open or not
+  private learnerVoiced = false;
+  private levelListeners = new Set<(levels: AudioLevels) => void>();
+  private levelFrame: number | null = null;
+  // Set while a lost microphone is being replaced, so overlapping events only replace it once
+  private replacingMicrophone = false;
 
-  constructor() {}
+  constructor(
+    private transport: LiveTransport = createLiveTransport(),
+    options: LiveServiceOptions = {}
+  ) {
+    this.reconnectOptions = { ...DEFAULT_RECONNECT_OPTIONS, ...options.reconnect };
+    this.captureOptions = { ...DEFAULT_CAPTURE_OPTIONS, ...options.capture };
+    this.vadOptions = options.vad ?? {};
+  }
 
   async connect(
     avatar: Avatar,
-    level: EnglishLevel,
+    level: CefrBand,
     mode: PracticeType,
     history: ChatTurn[],
-    callbacks: LiveSessionCallbacks
+    callbacks: LiveSessionCallbacks,
+    options: CallOptions = {}
   ) {
     try {
       this.isActive = true;
+      const inputMode = options.inputMode ?? 'continuous';
+      this.call = { avatar, level, language: options.language ?? 'en', mode, inputMode, reviewWords: options.reviewWords ?? [], scenario: options.scenario, interview: options.interview, monologue: options.monologue, nativeLanguage: options.nativeLanguage, placement: options.placement, profile: options.profile, drill: options.drill, audio: options.audio ?? DEFAULT_AUDIO_SETTINGS, callbacks };
+      // Always run: it gates the mic in 'vad' mode and times speech for fluency metrics in every mode
+      this.vad = new VoiceActivityDetector(this.captureOptions.frameMs, this.vadOptions);
+      this.turns = [...history];
       callbacks.onStatusChange(history.length > 0 ? 'reconnecting' : 'connecting');
 
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) {
-        callbacks.onKeyRequired?.();
-        throw new Error("API Key missing");
-      }
-      
-      // Always create a new instance to ensure we have the latest key
-      const ai = new GoogleGenAI({ apiKey });
-
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      // Capture runs at the device's native rate; MicCapture resamples to 16 kHz
+      if (inputMode !== 'text') this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
       this.outAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
 
       // Browsers require explicit resume after user gesture
-      await this.audioContext.resume();
+      await this.audioContext?.resume();
       await this.outAudioContext.resume();
+      this.outputMeter = new AudioLevelMeter(this.outAudioContext);
+      this.outputMeter.node.connect(this.outAudioContext.destination);
+      await this.routeOutput(this.outAudioContext, this.call.audio.outputDeviceId);
+      navigator.mediaDevices?.addEventListener?.('devicechange', this.handleDeviceChange);
 
-      const memoryContext = history.length > 0 
-        ? `Previous conversation summary: ${history.slice(-3).map(h => h.text).join(' -> ')}. Continue naturally.`
-        : "Start a new conversation.";
-
-      const levelInstructions = {
-        'Basic': 'Use extremely simple vocabulary, short sentences, and speak very slowly. Focus on basic greetings and everyday objects.',
-        'Intermediate': 'Use natural conversational English with common idioms. Correct small grammar mistakes gently.',
-        'Advanced': 'Use sophisticated vocabulary and complex sentence structures. Provide high-level feedback on nuances.'
-      };
-
-      const systemInstruction = `
-        ROLE: You are ${avatar.name}, an English Speaking Coach. 
-        PERSONALITY: ${avatar.tone}. 
-        LEVEL: ${level}. ${levelInstructions[level]}
-        PRACTICE MODE: ${mode}.
-        STYLE: Conduct this as a friendly phone call. 
-        FEEDBACK: Occasionally mention what the user did well or how to improve a sentence naturally in conversation.
-        CONTEXT: ${memoryContext}
-      `;
-
-      this.micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-
-      this.sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: avatar.voiceName } },
-          },
-          systemInstruction,
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
-            if (!this.isActive) return;
-            callbacks.onStatusChange('open');
-            this.startMicStreaming();
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (!this.isActive) return;
-            this.handleMessage(message, callbacks);
-          },
-          onerror: (e: any) => {
-            console.error('Gemini Live Error:', e);
-            const errorMsg = e?.message || e?.reason || '';
-            if (errorMsg.includes('entity was not found') || errorMsg.includes('API_KEY') || errorMsg.includes('404')) {
-              callbacks.onKeyRequired?.();
-            }
-            if (this.isActive) {
-              callbacks.onStatusChange('error', errorMsg || "Network connection error.");
-            }
-          },
-          onclose: (e: CloseEvent) => {
-            if (this.isActive) {
-              callbacks.onStatusChange('reconnecting');
-            } else {
-              callbacks.onStatusChange('closed');
-            }
-          }
-        }
-      });
+      this.recorder = options.record ? new CallRecorder(CAPTURE_SAMPLE_RATE, 24000) : null;
+
+      if (inputMode !== 'text') this.micStream = await this.openMicrophone();
 
       // Wait for the initial connection attempt
-      await this.sessionPromise;
+      await this.openSession();
     } catch (err: any) {
       const errorMsg = err?.message || '';
-      if (errorMsg.includes('Requested entity was not found') || errorMsg.includes('404')) {
+      if (isKeyError(errorMsg)) {
         callbacks.onKeyRequired?.();
       }
       this.isActive = false;
-      callbacks.onStatusChange('error', errorMsg || "Failed to establish network connection.");
+      callbacks.onStatusChange('error', { code: 'failed', message: errorMsg || undefined });
       throw err;
     }
   }
 
-  private startMicStreaming() {
-    if (!this.audioContext || !this.micStream || !this.sessionPromise) return;
-    
-    const source = this.audioContext.createMediaStreamSource(this.micStream);
-    this.scriptProcessor = this.audioContext.createScriptProcessor(4096, 1, 1);
+  /**
+   * Opens the chosen microphone, or the system default if it is gone. Falls
+   * back to text input, rather than failing the call, when there is no
+   * microphone or no permission to use it.
+   */
+  private async openMicrophone(anyDevice = false): Promise<MediaStream | null> {
+    try {
+      if (!navigator.mediaDevices?.getUserMedia) throw Object.assign(new Error('This browser cannot capture audio.'), { name: 'NotFoundError' });
+      const audio = this.call?.audio ?? DEFAULT_AUDIO_SETTINGS;
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(audio, anyDevice) });
+      } catch (err: any) {
+        if (!audio.inputDeviceId || anyDevice || (err?.name !== 'OverconstrainedError' && err?.name !== 'NotFoundError')) throw err;
+        stream = await navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(audio, true) });
+        anyDevice = true;
+      }
+      const track = stream.getAudioTracks()[0];
+      if (track) track.onended = () => this.replaceMicrophone();
+      if (anyDevice && audio.inputDeviceId) this.call?.callbacks.onAudioDeviceChange?.('input', track?.label || 'default');
+      return stream;
+    } catch (err: any) {
+      if (!this.call || !MIC_UNAVAILABLE_ERRORS.includes(err?.name)) throw err;
+      console.warn('Microphone unavailable, continuing with text input', err);
+      this.call.inputMode = 'text';
+      this.audioContext?.close().catch(() => {});
+      this.audioContext = null;
+      this.call.callbacks.onMicrophoneUnavailable?.(err.message || err.name);
+      return null;
+    }
+  }
 
-    this.scriptProcessor.onaudioprocess = (e) => {
-      if (!this.isActive) return;
-      
-      const inputData = e.inputBuffer.getChannelData(0);
-      const pcmBlob = createBlob(inputData);
-      
-      // CRITICAL: Solely rely on sessionPromise resolves
-      this.sessionPromise?.then((session) => {
-        if (this.isActive && session) {
-          try {
-            session.sendRealtimeInput({ media: pcmBlob });
-          } catch (err) {
-            console.warn("Input stream failed", err);
+  private async routeOutput(context: AudioContext, deviceId: string) {
+    if (!deviceId) return;
+    try {
+      await applyOutputDevice(context, deviceId);
+    } catch (err) {
+      // An unplugged or forbidden device: the context keeps playing on the default output
+      console.warn('Could not use the chosen speakers', err);
+      this.call?.callbacks.onAudioDeviceChange?.('output', 'default');
+    }
+  }
+
+  // An arrow function so the same reference can be removed in stopAll
+  private handleDeviceChange = async () => {
+    if (!this.isActive || !this.call) return;
+    const { inputs, outputs } = await listAudioDevices();
+    if (!this.isActive || !this.call) return;
+    const { inputDeviceId, outputDeviceId } = this.call.audio;
+    if (this.outAudioContext && !isDeviceAvailable(outputs, outputDeviceId)) {
+      await applyOutputDevice(this.outAudioContext, '').catch(() => {});
+      this.call.audio = { ...this.call.audio, outputDeviceId: '' };
+      this.call.callbacks.onAudioDeviceChange?.('output', 'default');
+    }
+    const track = this.micStream?.getAudioTracks()[0];
+    if (this.micStream && (track?.readyState === 'ended' || !isDeviceAvailable(inputs, inputDeviceId))) {
+      this.replaceMicrophone();
+    }
+  };
+
+  /**
+   * Swaps a microphone that was unplugged or stopped by the system for the
+   * default one, so the call does not go on streaming silence. Without any
+   * microphone left the call continues in text input mode.
+   */
+  private async replaceMicrophone() {
+    if (!this.isActive || !this.call || this.call.inputMode === 'text' || this.replacingMicrophone) return;
+    this.replacingMicrophone = true;
+    try {
+      this.capture?.stop();
+      this.capture = null;
+      this.inputMeter?.disconnect();
+      this.inputMeter = null;
+      this.micStream?.getTracks().forEach(track => { track.onended = null; track.stop(); });
+      this.micStream = null;
+      this.learnerVoiced = false;
+      this.preRoll = [];
+      this.setUserActivity(false);
+
+      this.call.audio = { ...this.call.audio, inputDeviceId: '' };
+      const stream = await this.openMicrophone(true);
+      if (!this.isActive) {
+        stream?.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.micStream = stream;
+      if (!stream) return;
+      this.call.callbacks.onAudioDeviceChange?.('input', stream.getAudioTracks()[0]?.label || 'default');
+      if (this.session) this.startMicStreaming();
+    } catch (err) {
+      console.error('Could not reopen the microphone', err);
+    } finally {
+      this.replacingMicrophone = false;
+    }
+  }
+
+  /** Encodes what was recorded so far. Call once, after `stopAll`; returns null if nothing was captured. */
+  finishRecording(): CallRecordingData | null {
+    const recorder = this.recorder;
+    this.recorder = null;
+    return recorder && !recorder.isEmpty ? recorder.finish() : null;
+  }
+
+  /**
+   * Calls `listener` once per animation frame with live levels of the
+   * microphone and the coach's audio, until the returned function is called.
+   */
+  subscribeLevels(listener: (levels: AudioLevels) => void): () => void {
+    this.levelListeners.add(listener);
+    if (this.levelFrame === null) this.levelFrame = requestAnimationFrame(() => this.emitLevels());
+    return () => {
+      this.levelListeners.delete(listener);
+      if (this.levelListeners.size === 0) this.stopLevels();
+    };
+  }
+
+  private emitLevels() {
+    this.levelFrame = null;
+    if (this.levelListeners.size === 0) return;
+    const levels = this.isActive ? this.readLevels() : silentLevels();
+    this.levelListeners.forEach(listener => listener(levels));
+    this.levelFrame = requestAnimationFrame(() => this.emitLevels());
+  }
+
+  private readLevels(): AudioLevels {
+    const silent = silentLevels();
+    const coachAudible = this.outputMeter?.isActive(COACH_SPEECH_DB, COACH_HOLD_MS) ?? false;
+    // The VAD judges the learner: unlike a fixed threshold it adapts to background noise
+    const learnerAudible = !!this.inputMeter && this.learnerVoiced;
+    return {
+      learner: this.inputMeter?.level() ?? 0,
+      coach: this.outputMeter?.level() ?? 0,
+      learnerSpectrum: this.inputMeter?.spectrum() ?? silent.learnerSpectrum,
+      coachSpectrum: this.outputMeter?.spectrum() ?? silent.coachSpectrum,
+      speaking: speakingStateOf(learnerAudible, coachAudible)
+    };
+  }
+
+  private stopLevels() {
+    if (this.levelFrame !== null) cancelAnimationFrame(this.levelFrame);
+    this.levelFrame = null;
+  }
+
+  /** Completed turns seen by this service, including the history it was started with. */
+  getTurns(): ChatTurn[] {
+    return [...this.turns];
+  }
+
+  private openSession(): Promise<LiveTransportSession> {
+    if (!this.call) return Promise.reject(new Error('No active call'));
+    const { avatar, level, language, mode, inputMode, reviewWords, scenario, interview, monologue, nativeLanguage, placement, profile, drill, callbacks } = this.call;
+    // Events from a socket that has already been replaced must not touch current state
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => this.isActive && generation === this.sessionGeneration;
+    let closed = false;
+
+    // A placement test only asks questions; it has nothing to show on screen
+    const tools = !placement;
+    const systemInstruction = buildSystemInstruction({
+      avatar, level, language, mode, history: this.turns, reviewWords, scenario, interview: interview?.(), monologue, nativeLanguage, placement: placement?.(), profile, drill: drill?.(), typing: inputMode === 'text', tools
+    });
+
+    this.sessionPromise = this.transport.connect({
+      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: avatar.voiceName } },
+        },
+        systemInstruction,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        ...(tools && { tools: [{ functionDeclarations: COACH_TOOL_DECLARATIONS }] }),
+        // The local gate decides when the learner is talking and says so explicitly
+        ...((inputMode === 'vad' || inputMode === 'push-to-talk') && {
+          realtimeInputConfig: { automaticActivityDetection: { disabled: true } }
+        }),
+      },
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          this.reconnectAttempt = 0;
+          this.activityOpen = false;
+          callbacks.onStatusChange('open');
+          this.startMicStreaming();
+        },
+        onmessage: async (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          this.handleMessage(message, callbacks);
+        },
+        onerror: (e: any) => {
+          console.error('Gemini Live Error:', e);
+          const errorMsg = e?.message || e?.reason || '';
+          if (isKeyError(errorMsg)) {
+            callbacks.onKeyRequired?.();
+            if (isCurrent()) {
+              this.isActive = false;
+              callbacks.onStatusChange('error', { code: 'failed', message: errorMsg });
+            }
+          }
+          // Other errors are followed by a close, which drives the reconnect
+        },
+        onclose: () => {
+          if (!this.isActive) {
+            callbacks.onStatusChange('closed');
+            return;
           }
+          if (generation !== this.sessionGeneration) return;
+          closed = true;
+          this.session = null;
+          this.scheduleReconnect();
         }
+      }
+    });
+
+    this.sessionPromise.then(session => {
+      if (isCurrent() && !closed) this.session = session;
+    }, () => {});
+
+    return this.sessionPromise;
+  }
+
+  private scheduleReconnect() {
+    if (!this.call || !this.isActive || this.reconnectTimer) return;
+    const { callbacks } = this.call;
+
+    // A dropped connection loses any partially spoken turn
+    this.currentInputTranscription = '';
+    this.currentOutputTranscription = '';
+    this.currentOutputAudioMs = 0;
+    this.playback.nextTurn();
+
+    this.reconnectAttempt += 1;
+    const { maxAttempts } = this.reconnectOptions;
+    if (this.reconnectAttempt > maxAttempts) {
+      this.isActive = false;
+      callbacks.onStatusChange('error', { code: 'gave-up', maxAttempts });
+      return;
+    }
+
+    const delay = getReconnectDelay(this.reconnectAttempt, this.reconnectOptions);
+    callbacks.onStatusChange('reconnecting', { code: 'retrying', seconds: Math.ceil(delay / 1000), attempt: this.reconnectAttempt, maxAttempts });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.isActive) return;
+      this.openSession().catch(err => {
+        console.warn('Reconnect attempt failed', err);
+        const errorMsg = err?.message || '';
+        if (isKeyError(errorMsg)) {
+          callbacks.onKeyRequired?.();
+          this.isActive = false;
+          callbacks.onStatusChange('error', { code: 'failed', message: errorMsg });
+          return;
+        }
+        this.scheduleReconnect();
       });
-    };
+    }, delay);
+  }
+
+  private startMicStreaming() {
+    // The mic graph survives reconnects; only the session behind it changes
+    if (this.capture || !this.audioContext || !this.micStream) return;
+
+    this.inputMeter = new AudioLevelMeter(this.audioContext);
+    this.audioContext.createMediaStreamSource(this.micStream).connect(this.inputMeter.node);
+    this.capture = new MicCapture(this.audioContext, this.micStream, this.captureOptions);
+    this.capture.start(frame => this.handleCapturedFrame(frame))
+      .catch(err => console.error('Microphone capture failed', err));
+  }
+
+  /** Push-to-talk: open or close the input gate. Ignored in other input modes. */
+  setPushToTalk(held: boolean) {
+    if (this.call?.inputMode !== 'push-to-talk' || this.pushToTalkHeld === held) return;
+    this.pushToTalkHeld = held;
+    this.setUserActivity(held);
+  }
+
+  private handleCapturedFrame(frame: Float32Array) {
+    if (!this.isActive || !this.call) return;
+    // Record what the learner said, whether or not the gate streams it
+    this.recorder?.addLearnerFrame(frame);
+
+    const vadResult = this.vad?.process(frame);
+    if (vadResult) {
+      this.learnerVoiced = vadResult.isSpeech;
+      const counted = this.call.inputMode !== 'push-to-talk' || this.pushToTalkHeld;
+      this.speechTimer.addFrame(vadResult.voiced && counted, this.captureOptions.frameMs);
+    }
+
+    switch (this.call.inputMode) {
+      case 'continuous':
+        this.sendAudio(frame);
+        return;
+      case 'push-to-talk':
+        if (this.pushToTalkHeld) this.sendAudio(frame);
+        return;
+      case 'text':
+        return;
+      case 'vad': {
+        if (!vadResult) return;
+        const { isSpeech, event } = vadResult;
+        if (event === 'speech-start') {
+          this.setUserActivity(true);
+          this.preRoll.forEach(f => this.sendAudio(f));
+          this.preRoll = [];
+        }
+        if (isSpeech) {
+          this.sendAudio(frame);
+        } else {
+          this.preRoll.push(frame);
+          const keep = Math.ceil(PRE_ROLL_MS / this.captureOptions.frameMs);
+          if (this.preRoll.length > keep) this.preRoll.shift();
+        }
+        if (event === 'speech-end') this.setUserActivity(false);
+        return;
+      }
+    }
+  }
+
+  private setUserActivity(speaking: boolean) {
+    if (this.userSpeaking === speaking) return;
+    this.userSpeaking = speaking;
+    this.call?.callbacks.onUserActivity?.(speaking);
+    if (!speaking && this.activityOpen) {
+      this.sendRealtimeInput({ activityEnd: {} });
+      this.activityOpen = false;
+    }
+  }
+
+  private sendAudio(frame: Float32Array) {
+    // Paused while disconnected: audio spoken during a drop is not replayed later
+    if (!this.session) return;
+    if (this.call?.inputMode !== 'continuous' && this.call?.inputMode !== 'text' && !this.activityOpen) {
+      this.sendRealtimeInput({ activityStart: {} });
+      this.activityOpen = true;
+    }
+    this.sendRealtimeInput({ media: createBlob(frame, CAPTURE_SAMPLE_RATE) });
+  }
+
+  /**
+   * Sends a text instruction into the live conversation. The model treats it
+   * as a turn from the client; it is not added to the transcript. With
+   * `turnComplete` false the model only takes it into account with the next
+   * input, rather than answering it straight away.
+   */
+  sendText(text: string, turnComplete = true) {
+    if (!this.session) return;
+    try {
+      this.session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete });
+    } catch (err) {
+      console.warn("Text input failed", err);
+    }
+  }
+
+  /**
+   * Sends a turn the learner typed. Unlike `sendText` it is a real learner
+   * turn: it goes into the transcript, marked as typed, and the coach answers
+   * it straight away. Returns false if there is no open session to take it.
+   */
+  sendTypedTurn(text: string): boolean {
+    const trimmed = text.trim();
+    if (!trimmed || !this.session || !this.call) return false;
+    try {
+      this.session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: trimmed }] }], turnComplete: true });
+    } catch (err) {
+      console.warn("Text input failed", err);
+      return false;
+    }
+    const { callbacks } = this.call;
+    // Anything already said aloud comes first, so the transcript stays in order
+    this.completeTurn('user', this.currentInputTranscription, callbacks);
+    this.currentInputTranscription = '';
+    const turn: ChatTurn = { role: 'user', text: trimmed, timestamp: Date.now(), typed: true };
+    this.turns.push(turn);
+    callbacks.onTranscriptionUpdate('user', trimmed, true, turn);
+    return true;
+  }
+
+  private sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    try {
+      this.session?.sendRealtimeInput(params);
+    } catch (err) {
+      console.warn("Input stream failed", err);
+    }
+  }
 
-    source.connect(this.scriptProcessor);
-    this.scriptProcessor.connect(this.audioContext.destination);
+  private completeTurn(role: 'user' | 'model', text: string, callbacks: LiveSessionCallbacks, interrupted = false) {
+    if (!text) return;
+    const turn: ChatTurn = { role, text, timestamp: Date.now() };
+    if (role === 'user') {
+      const speech = this.speechTimer.take();
+      if (speech) turn.speech = speech;
+    } else {
+      if (this.currentOutputAudioMs > 0) turn.audioMs = Math.round(this.currentOutputAudioMs);
+      if (interrupted) turn.interrupted = true;
+    }
+    this.turns.push(turn);
+    callbacks.onTranscriptionUpdate(role, text, true, turn);
   }
 
   private async handleMessage(message: LiveServerMessage, callbacks: LiveSessionCallbacks) {
@@ -164,49 +616,123 @@ export class GeminiLiveService {
       callbacks.onTranscriptionUpdate('model', this.currentOutputTranscription, false);
     }
     if (message.serverContent?.turnComplete) {
-      callbacks.onTranscriptionUpdate('user', this.currentInputTranscription, true);
-      callbacks.onTranscriptionUpdate('model', this.currentOutputTranscription, true);
+      this.completeTurn('user', this.currentInputTranscription, callbacks);
+      this.completeTurn('model', this.currentOutputTranscription, callbacks);
       this.currentInputTranscription = '';
       this.currentOutputTranscription = '';
+      this.currentOutputAudioMs = 0;
+      this.playback.nextTurn();
+    }
+
+    if (message.toolCall?.functionCalls?.length) {
+      this.handleToolCalls(message.toolCall.functionCalls, callbacks);
+    }
+    if (message.toolCallCancellation?.ids?.length) {
+      callbacks.onToolCallCancelled?.(message.toolCallCancellation.ids);
     }
 
     const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
     if (audioData && this.outAudioContext && this.isActive) {
-      this.nextStartTime = Math.max(this.nextStartTime, this.outAudioContext.currentTime);
-      const buffer = await decodeAudioData(decode(audioData), this.outAudioContext, 24000, 1);
-      const source = this.outAudioContext.createBufferSource();
+      const context = this.outAudioContext;
+      const generation = this.playbackGeneration;
+      const pcm = decode(audioData);
+      // Counted before decoding, which may finish after the turn has completed; 16-bit mono samples
+      this.currentOutputAudioMs += (pcm.length / 2 / 24000) * 1000;
+      const buffer = await decodeAudioData(pcm, context, 24000, 1);
+      if (generation !== this.playbackGeneration || !this.isActive) return;
+      // Scheduled only once decoded, against the clock as it is now, so slow decodes cannot leave gaps or overlaps
+      const startAt = this.playback.schedule(buffer.duration, context.currentTime);
+      const source = context.createBufferSource();
       source.buffer = buffer;
-      source.connect(this.outAudioContext.destination);
-      source.start(this.nextStartTime);
-      this.nextStartTime += buffer.duration;
+      source.connect(this.outputMeter?.node ?? context.destination);
+      source.start(startAt);
+      this.recorder?.addCoachAudio(buffer.getChannelData(0), (startAt - context.currentTime) * 1000);
       this.sources.add(source);
       source.onended = () => this.sources.delete(source);
     }
 
     if (message.serverContent?.interrupted) {
-      this.sources.forEach(s => { try { s.stop(); } catch(e) {} });
-      this.sources.clear();
-      this.nextStartTime = 0;
+      this.handleInterruption(callbacks);
+    }
+  }
+
+  /** Hands each valid call to the app and answers all of them, so the coach is never left waiting. */
+  private handleToolCalls(calls: FunctionCall[], callbacks: LiveSessionCallbacks) {
+    const functionResponses: FunctionResponse[] = calls.map(call => {
+      const parsed = parseToolCall(call);
+      if (!parsed) return { id: call.id, name: call.name, response: { error: 'Unknown tool or invalid arguments.' } };
+      try {
+        return { id: call.id, name: call.name, response: { output: callbacks.onToolCall?.(parsed) ?? { shown: true } } };
+      } catch (err: any) {
+        return { id: call.id, name: call.name, response: { error: err?.message || 'The app could not show this.' } };
+      }
+    });
+    try {
+      this.session?.sendToolResponse({ functionResponses });
+    } catch (err) {
+      console.warn('Tool response failed', err);
     }
   }
 
+  /** Changes the level the coach is told about when the session is reopened, e.g. after the coach switched difficulty. */
+  setLevel(level: CefrBand) {
+    if (this.call) this.call.level = level;
+  }
+
+  /**
+   * The learner talked over the coach: stop the coach's audio and close its
+   * turn with only the words that were actually played before the cut.
+   */
+  private handleInterruption(callbacks: LiveSessionCallbacks) {
+    const playedMs = this.outAudioContext ? this.playback.playedMs(this.outAudioContext.currentTime) : 0;
+    this.recorder?.truncateCoach();
+    this.sources.forEach(s => { try { s.stop(); } catch(e) {} });
+    this.sources.clear();
+    this.playback.clear();
+    this.playbackGeneration++;
+
+    const heard = trimToPlayed(this.currentOutputTranscription, playedMs, this.currentOutputAudioMs);
+    this.currentOutputAudioMs = Math.min(this.currentOutputAudioMs, playedMs);
+    this.completeTurn('model', heard, callbacks, true);
+    this.currentOutputTranscription = '';
+    this.currentOutputAudioMs = 0;
+  }
+
   stopAll() {
     this.isActive = false;
+    navigator.mediaDevices?.removeEventListener?.('devicechange', this.handleDeviceChange);
+    this.recorder?.truncateCoach();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     this.sources.forEach(s => { try { s.stop(); } catch(e) {} });
     this.sources.clear();
+    this.playback.clear();
+    this.playbackGeneration++;
 
-    if (this.scriptProcessor) {
-      this.scriptProcessor.disconnect();
-      this.scriptProcessor = null;
+    if (this.capture) {
+      this.capture.stop();
+      this.capture = null;
     }
+    this.inputMeter?.disconnect();
+    this.outputMeter?.disconnect();
+    this.inputMeter = null;
+    this.outputMeter = null;
+    this.learnerVoiced = false;
+    // Listeners get one last silent reading before the updates stop
+    this.levelListeners.forEach(listener => listener(silentLevels()));
+    this.stopLevels();
 
     if (this.micStream) {
-      this.micStream.getTracks().forEach(track => track.stop());
+      this.micStream.getTracks().forEach(track => { track.onended = null; track.stop(); });
       this.micStream = null;
     }
 
     this.audioContext?.close().catch(() => {});
     this.outAudioContext?.close().catch(() => {});
+    this.sessionPromise?.then(session => session.close()).catch(() => {});
     this.sessionPromise = null;
+    this.session = null;
   }
 }
@@ -0,0 +1,18 @@
+import { GoogleGenAI } from '@google/genai';
+import type { LiveConnectOptions, LiveTransport, LiveTransportSession } from './liveTransport';
+
+export class GeminiLiveTransport implements LiveTransport {
+  readonly kind = 'gemini' as const;
+
+  async connect({ model, config, callbacks }: LiveConnectOptions): Promise<LiveTransportSession> {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key missing");
+    }
+
+    // Always create a new instance to ensure we have the latest key
+    const ai = new GoogleGenAI({ apiKey });
+
+    return ai.live.connect({ model, config, callbacks });
+  }
+}
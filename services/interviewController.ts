@@ -0,0 +1,138 @@
+import { ChatTurn, InterviewAnswer, InterviewConfig, InterviewQuestion, InterviewRecord } from '../types';
+import { createInterviewScorer, InterviewScorer } from './interviewScoring';
+
+/** Prefix for instructions the app sends into the call; the system instruction tells the coach not to read them out. */
+export const INTERVIEW_CONTROL_PREFIX = '[INTERVIEW]';
+
+export interface InterviewState {
+  questions: InterviewQuestion[];
+  /** Index of the current question; equals `questions.length` once the last one is done. */
+  index: number;
+  /** When the coach finished asking the current question; null while it is still being asked. */
+  answerStartedAt: number | null;
+  followUps: number;
+  answers: InterviewAnswer[];
+}
+
+interface OpenQuestion {
+  question: InterviewQuestion;
+  startedAt: number | null;
+  followUps: number;
+  turns: ChatTurn[];
+}
+
+const turnEnd = (turn: ChatTurn) => turn.speech?.endedAt ?? turn.timestamp;
+
+/**
+ * Runs a structured interview on top of a live call: tracks which question is
+ * being answered, sends follow-up and next-question instructions, times each
+ * answer and scores it once the coach has moved on.
+ */
+export class InterviewController {
+  private index = 0;
+  private current: OpenQuestion | null;
+  // The previous question keeps collecting learner turns until the coach has asked the next one,
+  // because a learner turn is only completed together with the coach's reply
+  private closing: OpenQuestion | null = null;
+  private answers: InterviewAnswer[] = [];
+  private pendingScores: Promise<void>[] = [];
+
+  constructor(
+    readonly config: InterviewConfig,
+    private questions: InterviewQuestion[],
+    private send: (text: string) => void,
+    private onChange: (state: InterviewState) => void,
+    private scorer: InterviewScorer = createInterviewScorer()
+  ) {
+    this.current = questions[0] ? { question: questions[0], startedAt: null, followUps: 0, turns: [] } : null;
+  }
+
+  getState(): InterviewState {
+    return {
+      questions: this.questions,
+      index: this.index,
+      answerStartedAt: this.current?.startedAt ?? null,
+      followUps: this.current?.followUps ?? 0,
+      answers: [...this.answers]
+    };
+  }
+
+  /** Where the interview has got to, so a reconnected coach carries on from the current question. */
+  progress() {
+    return { config: this.config, questions: this.questions, index: this.index };
+  }
+
+  /** Feed every completed transcript turn of the call, in order. */
+  addTurn(turn: ChatTurn) {
+    if (turn.role === 'user') {
+      (this.closing ?? this.current)?.turns.push(turn);
+      return;
+    }
+    if (this.closing) {
+      this.finalize(this.closing);
+      this.closing = null;
+    }
+    if (this.current && this.current.startedAt === null) {
+      this.current.startedAt = turn.timestamp;
+    }
+    this.emit();
+  }
+
+  askFollowUp() {
+    if (!this.current) return;
+    this.current.followUps++;
+    this.send(`${INTERVIEW_CONTROL_PREFIX} Ask one short follow-up question that probes the candidate's last answer, then wait.`);
+    this.emit();
+  }
+
+  nextQuestion() {
+    if (!this.current) return;
+    if (this.closing) this.finalize(this.closing);
+    this.closing = this.current;
+    this.index++;
+    const next = this.questions[this.index];
+    this.current = next ? { question: next, startedAt: null, followUps: 0, turns: [] } : null;
+    this.send(next
+      ? `${INTERVIEW_CONTROL_PREFIX} Briefly acknowledge the answer, then ask question ${this.index + 1}: "${next.text}"`
+      : `${INTERVIEW_CONTROL_PREFIX} That was the last question. Thank the candidate and close the interview politely.`);
+    this.emit();
+  }
+
+  /** Closes any open answers and resolves once every answer has been scored. */
+  async finish(): Promise<InterviewRecord> {
+    if (this.closing) this.finalize(this.closing);
+    if (this.current?.turns.length) this.finalize(this.current);
+    this.closing = null;
+    this.current = null;
+    await Promise.all(this.pendingScores);
+    return { config: this.config, answers: [...this.answers] };
+  }
+
+  private finalize(open: OpenQuestion) {
+    const transcript = open.turns.map(t => t.text.trim()).join(' ');
+    const last = open.turns[open.turns.length - 1];
+    const answer: InterviewAnswer = {
+      questionId: open.question.id,
+      category: open.question.category,
+      question: open.question.text,
+      transcript,
+      answerMs: last && open.startedAt !== null ? Math.max(0, turnEnd(last) - open.startedAt) : 0,
+      followUps: open.followUps
+    };
+    const position = this.answers.push(answer) - 1;
+    if (!transcript) return;
+
+    this.pendingScores.push(
+      this.scorer.score({ config: this.config, question: answer.question, transcript, answerMs: answer.answerMs })
+        .then(score => {
+          this.answers[position] = { ...this.answers[position], score };
+          this.emit();
+        })
+        .catch(err => console.error('Answer scoring failed', err))
+    );
+  }
+
+  private emit() {
+    this.onChange(this.getState());
+  }
+}
@@ -0,0 +1,49 @@
+import { InterviewConfig, InterviewQuestion, QuestionCategory } from '../types';
+import questionBank from '../interview/questions.json';
+
+export const QUESTION_BANK = questionBank as InterviewQuestion[];
+
+export const DEFAULT_INTERVIEW_CONFIG: InterviewConfig = {
+  role: '',
+  seniority: 'Mid-level',
+  categories: ['behavioural', 'technical', 'situational'],
+  questionCount: 5
+};
+
+export const fillQuestion = (question: InterviewQuestion, role: string): InterviewQuestion => ({
+  ...question,
+  text: question.text.replace(/\{role\}/g, role.trim() || 'professional')
+});
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+/**
+ * Picks questions for the chosen seniority, taking from the selected categories
+ * in turn so no category dominates, with `{role}` filled in.
+ */
+export function buildInterviewPlan(
+  config: InterviewConfig,
+  bank: InterviewQuestion[] = QUESTION_BANK,
+  random: () => number = Math.random
+): InterviewQuestion[] {
+  const categories: QuestionCategory[] = config.categories.length ? config.categories : DEFAULT_INTERVIEW_CONFIG.categories;
+  const pools = categories.map(category => shuffle(
+    bank.filter(q => q.category === category && (!q.seniority || q.seniority.includes(config.seniority))),
+    random
+  ));
+
+  const plan: InterviewQuestion[] = [];
+  for (let round = 0; plan.length < config.questionCount && pools.some(p => p.length > round); round++) {
+    for (const pool of pools) {
+      if (pool[round] && plan.length < config.questionCount) plan.push(fillQuestion(pool[round], config.role));
+    }
+  }
+  return plan;
+}
@@ -0,0 +1,115 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { InterviewConfig, StarScore, TargetLanguage } from '../types';
+import { languageName } from '../utils/format';
+import { getConfiguredTransportKind } from './liveTransport';
+import { LocalInterviewScorer } from './localInterviewScoring';
+
+export interface ScoreRequest {
+  config: InterviewConfig;
+  question: string;
+  transcript: string;
+  answerMs: number;
+}
+
+/** Scores one interview answer against the STAR rubric. */
+export interface InterviewScorer {
+  readonly kind: StarScore['source'];
+  score: (request: ScoreRequest) => Promise<StarScore>;
+}
+
+export const STAR_CRITERIA: { key: keyof Omit<StarScore, 'comment' | 'source'>; label: string }[] = [
+  { key: 'situation', label: 'Situation' },
+  { key: 'task', label: 'Task' },
+  { key: 'action', label: 'Action' },
+  { key: 'result', label: 'Result' },
+  { key: 'clarity', label: 'Clarity' },
+  { key: 'conciseness', label: 'Conciseness' }
+];
+
+const SCORE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    ...Object.fromEntries(STAR_CRITERIA.map(c => [c.key, { type: Type.INTEGER }])),
+    comment: { type: Type.STRING }
+  },
+  required: [...STAR_CRITERIA.map(c => c.key), 'comment']
+};
+
+const clampScore = (value: unknown) => {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) ? Math.min(5, Math.max(1, n)) : 1;
+};
+
+/** Coerces model output into a StarScore, clamping every criterion to 1-5. */
+export function normalizeStarScore(raw: any, source: StarScore['source']): StarScore {
+  return {
+    situation: clampScore(raw?.situation),
+    task: clampScore(raw?.task),
+    action: clampScore(raw?.action),
+    result: clampScore(raw?.result),
+    clarity: clampScore(raw?.clarity),
+    conciseness: clampScore(raw?.conciseness),
+    comment: typeof raw?.comment === 'string' ? raw.comment : '',
+    source
+  };
+}
+
+export const averageStarScore = (score: StarScore) =>
+  STAR_CRITERIA.reduce((sum, c) => sum + score[c.key], 0) / STAR_CRITERIA.length;
+
+export class GeminiInterviewScorer implements InterviewScorer {
+  readonly kind = 'gemini' as const;
+
+  constructor(private language: TargetLanguage = 'en') {}
+
+  async score({ config, question, transcript, answerMs }: ScoreRequest): Promise<StarScore> {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key missing");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    const language = languageName(this.language);
+    const prompt = `
+      You are an interview coach scoring a spoken answer from a ${config.seniority} ${config.role || 'candidate'} practising in ${language}.
+      The answer is a speech-to-text transcription, so ignore punctuation and capitalisation. It took ${Math.round(answerMs / 1000)} seconds.
+
+      Score each criterion from 1 (missing) to 5 (excellent):
+      - situation: sets the scene with concrete context.
+      - task: makes clear what they were responsible for.
+      - action: describes specific steps they personally took.
+      - result: states the outcome, ideally measurable, and what they learned.
+      - clarity: easy to follow, well-ordered ${language}.
+      - conciseness: covers the point without rambling; about one to two minutes is ideal.
+      For hypothetical or technical questions, judge situation, task, action and result by how well the answer frames the problem, the goal, the approach and the expected outcome.
+      comment: two sentences of specific advice for improving this answer, in English.
+
+      QUESTION: ${question}
+      ANSWER: ${transcript}
+    `;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: SCORE_SCHEMA
+      }
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response.text ?? '');
+    } catch {
+      throw new Error('The scoring service returned an unreadable score.');
+    }
+    return normalizeStarScore(parsed, 'gemini');
+  }
+}
+
+export const createInterviewScorer = (language: TargetLanguage = 'en'): InterviewScorer => {
+  if (getConfiguredTransportKind() === 'scripted' || !process.env.API_KEY) {
+    return new LocalInterviewScorer(language);
+  }
+  return new GeminiInterviewScorer(language);
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ChatTurn, FeedbackReport } from '../types';
+import { EMPTY_PROFILE, mergeReport, reportSinceTurn } from './learnerProfile';
+
+const turn = (role: ChatTurn['role'], text: string): ChatTurn => ({ role, text, timestamp: 0 });
+
+const report = (originals: string[]): FeedbackReport => ({
+  summary: '',
+  grammarCorrections: originals.map(original => ({ original, corrected: original, explanation: '', category: 'articles' })),
+  vocabulary: [],
+  strengths: [],
+  nextSteps: [],
+  generatedAt: 0,
+  source: 'local'
+});
+
+describe('reportSinceTurn', () => {
+  const turns = [
+    turn('model', 'How was your weekend?'),
+    turn('user', 'I went to the cinema. It was a good film.'),
+    turn('model', 'And after that?'),
+    turn('user', 'I ate in restaurant.')
+  ];
+
+  it('keeps only corrections of sentences said after the counted turns', () => {
+    const whole = report(['I went to the cinema.', 'I ate in restaurant.']);
+    expect(reportSinceTurn(whole, turns, 2).grammarCorrections.map(c => c.original)).toEqual(['I ate in restaurant.']);
+  });
+
+  it('keeps everything for a session reported on for the first time', () => {
+    const whole = report(['I went to the cinema.', 'I ate in restaurant.']);
+    expect(reportSinceTurn(whole, turns, 0)).toEqual(whole);
+  });
+
+  it('does not count a mistake twice when a continued session is reported on again', () => {
+    const first = mergeReport(EMPTY_PROFILE, report(['I went to the cinema.']), 1);
+    const again = mergeReport(first, reportSinceTurn(report(['I went to the cinema.', 'I ate in restaurant.']), turns, 2), 2);
+    expect(again.errors).toHaveLength(1);
+    expect(again.errors[0].count).toBe(2);
+  });
+});
@@ -0,0 +1,65 @@
+import { ChatTurn, FeedbackReport, LearnerProfile, TargetLanguage, TrackedError } from '../types';
+import { loadSetting, saveSetting } from './settingsStore';
+
+// Mistakes and goals differ from one language to the next, so each has its own profile.
+// English keeps the key it had before other languages were added.
+const profileKey = (language: TargetLanguage) => (language === 'en' ? 'learnerProfile' : `learnerProfile.${language}`);
+
+// Enough to show the pattern without the profile growing with every call
+const EXAMPLES_PER_ERROR = 3;
+const MAX_INTERESTS = 8;
+
+export const EMPTY_PROFILE: LearnerProfile = { errors: [], weakAreas: [], interests: [], goals: [], updatedAt: 0 };
+
+export const loadLearnerProfile = (language: TargetLanguage = 'en') => loadSetting<LearnerProfile>(profileKey(language), EMPTY_PROFILE);
+
+export const saveLearnerProfile = (profile: LearnerProfile, language: TargetLanguage = 'en') =>
+  saveSetting(profileKey(language), { ...profile, updatedAt: Date.now() });
+
+/** Most frequent first; among equals, the most recently seen. */
+export const rankErrors = (errors: TrackedError[]) =>
+  [...errors].sort((a, b) => b.count - a.count || b.lastSeenAt - a.lastSeenAt);
+
+/** Adds one call's categorised corrections and interests to the profile. */
+export function mergeReport(profile: LearnerProfile, report: FeedbackReport, now = Date.now()): LearnerProfile {
+  const errors = profile.errors.map(e => ({ ...e, examples: [...e.examples] }));
+  for (const { original, corrected, category = 'other' } of report.grammarCorrections) {
+    let tracked = errors.find(e => e.category === category);
+    if (!tracked) {
+      tracked = { category, count: 0, lastSeenAt: now, examples: [] };
+      errors.push(tracked);
+    }
+    tracked.count++;
+    tracked.lastSeenAt = now;
+    tracked.examples = [{ original, corrected }, ...tracked.examples].slice(0, EXAMPLES_PER_ERROR);
+  }
+
+  const known = new Set(profile.interests.map(i => i.toLowerCase()));
+  const interests = [
+    ...(report.interests ?? []).filter(i => !known.has(i.toLowerCase())),
+    ...profile.interests
+  ].slice(0, MAX_INTERESTS);
+
+  return { ...profile, errors: rankErrors(errors), interests, updatedAt: now };
+}
+
+/**
+ * The part of a continued session's report the profile has not seen: a report
+ * covers the whole transcript, so corrections of sentences from the first
+ * `counted` turns were already merged when the session was last reported on.
+ */
+export function reportSinceTurn(report: FeedbackReport, turns: ChatTurn[], counted: number): FeedbackReport {
+  const earlier = turns.slice(0, counted).filter(t => t.role === 'user').map(t => t.text.toLowerCase());
+  const isEarlier = (original: string) => {
+    const text = original.trim().toLowerCase();
+    return text.length > 0 && earlier.some(t => t.includes(text));
+  };
+  return { ...report, grammarCorrections: report.grammarCorrections.filter(c => !isEarlier(c.original)) };
+}
+
+/** Called each time a session's report is generated, with only what is new since the last one. */
+export async function recordReportInProfile(report: FeedbackReport, language: TargetLanguage = 'en'): Promise<LearnerProfile> {
+  const profile = mergeReport(await loadLearnerProfile(language), report);
+  await saveSetting(profileKey(language), profile);
+  return profile;
+}
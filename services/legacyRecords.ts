@@ -0,0 +1,48 @@
+import { CefrBand, PlacementResult, PracticeType, Scenario, StoredSession, TargetLanguage, VocabularyEntry } from '../types';
+import { LEVELS, TARGET_LANGUAGES } from '../constants';
+
+// The three levels used before CEFR bands, mapped to the band each was pitched at
+const LEGACY_LEVELS: Record<string, CefrBand> = { Basic: 'A2', Intermediate: 'B1', Advanced: 'C1' };
+
+// Practice types renamed when the app stopped being English-only
+const LEGACY_PRACTICE_TYPES: Record<string, PracticeType> = { 'General English Speaking': 'General Speaking' };
+
+/** The level for records that never had a usable one. */
+export const FALLBACK_LEVEL: CefrBand = 'B1';
+
+/** A CEFR band, or the band one of the old Basic/Intermediate/Advanced levels stands for; null for anything else. */
+export function toLevel(value: unknown): CefrBand | null {
+  if (LEVELS.includes(value as CefrBand)) return value as CefrBand;
+  return typeof value === 'string' ? LEGACY_LEVELS[value] ?? null : null;
+}
+
+export const toPracticeType = (value: string): PracticeType => LEGACY_PRACTICE_TYPES[value] ?? (value as PracticeType);
+
+/** Everything saved before target languages was English practice. */
+export const toTargetLanguage = (value: unknown): TargetLanguage =>
+  TARGET_LANGUAGES.some(l => l.code === value) ? (value as TargetLanguage) : 'en';
+
+/** A session saved or exported by an earlier version, with its level, practice type and language brought up to date. */
+export function upgradeSession(session: any): StoredSession {
+  return {
+    ...session,
+    level: toLevel(session.level) ?? FALLBACK_LEVEL,
+    mode: toPracticeType(session.mode),
+    language: toTargetLanguage(session.language),
+    ...(session.drill && {
+      drill: { ...session.drill, config: { ...session.drill.config, practiceType: toPracticeType(session.drill.config.practiceType) } }
+    })
+  };
+}
+
+/** Placement results used to carry a coarse level next to the band; the band is the level now. */
+export function upgradePlacement({ level, ...result }: any): PlacementResult {
+  return { ...result, language: toTargetLanguage(result.language) };
+}
+
+export function upgradeScenario({ level, ...scenario }: any): Scenario {
+  const band = toLevel(level);
+  return { ...scenario, ...(band && { level: band }), language: toTargetLanguage(scenario.language) };
+}
+
+export const upgradeVocabularyEntry = (entry: any): VocabularyEntry => ({ ...entry, language: toTargetLanguage(entry.language) });
@@ -0,0 +1,50 @@
+import { LiveConnectConfig, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage } from '@google/genai';
+import { GeminiLiveTransport } from './geminiLiveTransport';
+import { ScriptedLiveTransport } from './scriptedLiveTransport';
+
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror: (e: ErrorEvent | Error) => void;
+  onclose: (e?: CloseEvent) => void;
+}
+
+export interface LiveConnectOptions {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveTransportCallbacks;
+}
+
+/** An open live session, as seen by GeminiLiveService. */
+export interface LiveTransportSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  /** Sends text turns into the conversation, e.g. instructions from the app. */
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  /** Answers the model's function calls. */
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+/**
+ * Anything that can open a live session and deliver `LiveServerMessage`-shaped
+ * events back. The Gemini implementation talks to the real API; the scripted one
+ * replays a fixture so the call flow works without network.
+ */
+export interface LiveTransport {
+  readonly kind: LiveTransportKind;
+  connect: (options: LiveConnectOptions) => Promise<LiveTransportSession>;
+}
+
+export type LiveTransportKind = 'gemini' | 'scripted';
+
+export const getConfiguredTransportKind = (): LiveTransportKind => {
+  const fromUrl = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('transport')
+    : null;
+  const kind = fromUrl || process.env.LIVE_TRANSPORT;
+  return kind === 'scripted' ? 'scripted' : 'gemini';
+};
+
+export const createLiveTransport = (kind: LiveTransportKind = getConfiguredTransportKind()): LiveTransport => {
+  return kind === 'scripted' ? new ScriptedLiveTransport() : new GeminiLiveTransport();
+};
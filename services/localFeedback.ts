@@ -0,0 +1,189 @@
+import { ErrorCategory, FeedbackReport, GrammarCorrection, VocabularySuggestion } from '../types';
+import type { FeedbackReportProvider, ReportRequest } from './feedbackReport';
+
+interface GrammarRule {
+  pattern: RegExp;
+  replace: string | ((substring: string, ...groups: string[]) => string);
+  explanation: string;
+  category: ErrorCategory;
+}
+
+const PAST_OF: Record<string, string> = {
+  go: 'went', see: 'saw', eat: 'ate', have: 'had', make: 'made', come: 'came', take: 'took',
+  buy: 'bought', say: 'said', tell: 'told', get: 'got', give: 'gave', find: 'found', think: 'thought'
+};
+const BASE_OF: Record<string, string> = Object.fromEntries(Object.entries(PAST_OF).map(([base, past]) => [past, base]));
+
+// Deliberately narrow patterns: a stub that flags correct English is worse than one that misses errors
+const GRAMMAR_RULES: GrammarRule[] = [
+  {
+    pattern: /\b(he|she|it)\s+don't\b/gi,
+    replace: (_m, subject) => `${subject} doesn't`,
+    explanation: 'With he, she or it, use "doesn\'t" instead of "don\'t".',
+    category: 'agreement'
+  },
+  {
+    pattern: /\b(he|she|it)\s+have\b/gi,
+    replace: (_m, subject) => `${subject} has`,
+    explanation: 'With he, she or it, the verb "have" becomes "has".',
+    category: 'agreement'
+  },
+  {
+    pattern: /\bpeople is\b/gi,
+    replace: 'people are',
+    explanation: '"People" is plural, so it takes "are".',
+    category: 'agreement'
+  },
+  {
+    pattern: /\b(more|most) (better|worse|bigger|smaller|easier|harder)\b/gi,
+    replace: (_m, _more, comparative) => comparative,
+    explanation: 'Comparatives ending in -er already mean "more"; do not add "more".',
+    category: 'word-choice'
+  },
+  {
+    pattern: /\bI am agree\b/gi,
+    replace: 'I agree',
+    explanation: '"Agree" is a verb, so say "I agree", not "I am agree".',
+    category: 'word-choice'
+  },
+  {
+    pattern: /\b(explain|describe) me\b/gi,
+    replace: (_m, verb) => `${verb} to me`,
+    explanation: `"Explain" and "describe" need "to" before the person.`,
+    category: 'prepositions'
+  },
+  {
+    pattern: /\bdiscuss about\b/gi,
+    replace: 'discuss',
+    explanation: '"Discuss" already includes "about"; say "discuss the plan".',
+    category: 'prepositions'
+  },
+  {
+    pattern: /\bsince (\d+|two|three|four|five|six|seven|eight|nine|ten) (years|months|weeks|days)\b/gi,
+    replace: (_m, n, unit) => `for ${n} ${unit}`,
+    explanation: 'Use "for" with a length of time and "since" with a starting point.',
+    category: 'prepositions'
+  },
+  {
+    pattern: /\ba (?!one\b|once\b|eu)([aeio]\w+)/gi,
+    replace: (_m, word) => `an ${word}`,
+    explanation: 'Use "an" before words that start with a vowel sound.',
+    category: 'articles'
+  },
+  {
+    pattern: /\b(did|didn't) (you |I |we |they |he |she )?(went|saw|ate|had|made|came|took|bought|said|told|got|gave|found|thought)\b/gi,
+    replace: (_m, did, subject = '', verb) => `${did} ${subject}${BASE_OF[verb.toLowerCase()]}`,
+    explanation: 'After "did" or "didn\'t", use the base form of the verb.',
+    category: 'verb-tense'
+  },
+  {
+    pattern: /\b(yesterday|last (?:week|night|weekend|year|month)),? I (go|eat|see|have|buy|make|take)\b/gi,
+    replace: (_m, when, verb) => `${when}, I ${PAST_OF[verb.toLowerCase()]}`,
+    explanation: 'When you talk about the past, use the past tense.',
+    category: 'verb-tense'
+  },
+  {
+    pattern: /\bI (go|eat|see|have|buy|make|take)\b([^.?!]*\b(yesterday|last (?:week|night|weekend|year|month)|ago)\b)/gi,
+    replace: (_m, verb, rest) => `I ${PAST_OF[verb.toLowerCase()]}${rest}`,
+    explanation: 'When you talk about the past, use the past tense.',
+    category: 'verb-tense'
+  }
+];
+
+const PLAIN_WORDS: Record<string, VocabularySuggestion> = {
+  good: { word: 'rewarding', meaning: 'giving satisfaction', example: 'The trip was really rewarding.', replaces: 'good' },
+  nice: { word: 'pleasant', meaning: 'enjoyable and friendly', example: 'We had a pleasant afternoon.', replaces: 'nice' },
+  bad: { word: 'disappointing', meaning: 'not as good as hoped', example: 'The film was disappointing.', replaces: 'bad' },
+  big: { word: 'enormous', meaning: 'very large', example: 'They live in an enormous house.', replaces: 'big' },
+  happy: { word: 'delighted', meaning: 'very pleased', example: 'I was delighted to see her.', replaces: 'happy' },
+  thing: { word: 'aspect', meaning: 'one part of a situation', example: 'The best aspect of the job is the team.', replaces: 'thing' },
+  interesting: { word: 'fascinating', meaning: 'extremely interesting', example: 'The museum was fascinating.', replaces: 'interesting' },
+  tired: { word: 'exhausted', meaning: 'extremely tired', example: 'I was exhausted after the hike.', replaces: 'tired' }
+};
+
+// "I love hiking", "I'm really into jazz": the object up to the end of the clause
+const INTEREST_PATTERN = /\bI(?:'m| am)? (?:really |also )?(?:like|love|enjoy|into|interested in|passionate about) ([a-z][a-z' ]{2,40}?)(?=[.,!?;]| but | because |$)/gi;
+const NOT_INTERESTS = new Set(['it', 'that', 'this', 'them', 'you', 'to', 'the idea']);
+
+/** Things the learner says they like, as short phrases; a rough stand-in for the model's reading of the call. */
+export function findInterests(sentences: string[]): string[] {
+  const found: string[] = [];
+  for (const sentence of sentences) {
+    for (const [, phrase] of sentence.matchAll(INTEREST_PATTERN)) {
+      for (const part of phrase.toLowerCase().split(' and ')) {
+        const topic = part.trim().replace(/^(to|the|a|an) /, '');
+        if (topic && !NOT_INTERESTS.has(topic) && !found.includes(topic)) found.push(topic);
+      }
+    }
+  }
+  return found.slice(0, 3);
+}
+
+const splitSentences = (text: string) => text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+
+export function findGrammarCorrections(sentences: string[]): GrammarCorrection[] {
+  const corrections: GrammarCorrection[] = [];
+  for (const original of sentences) {
+    let corrected = original;
+    const explanations: string[] = [];
+    let category: ErrorCategory | null = null;
+    for (const rule of GRAMMAR_RULES) {
+      const next = corrected.replace(rule.pattern, rule.replace as any);
+      if (next !== corrected) {
+        corrected = next;
+        category ??= rule.category;
+        if (!explanations.includes(rule.explanation)) explanations.push(rule.explanation);
+      }
+    }
+    if (corrected !== original) {
+      corrections.push({ original, corrected, explanation: explanations.join(' '), category: category ?? 'other' });
+    }
+  }
+  return corrections;
+}
+
+/** Offline report built from simple pattern rules and transcript statistics. */
+export class LocalFeedbackProvider implements FeedbackReportProvider {
+  readonly kind = 'local' as const;
+
+  async generate({ turns, level, language }: ReportRequest): Promise<FeedbackReport> {
+    const userTurns = turns.filter(t => t.role === 'user' && t.text.trim());
+    const sentences = userTurns.flatMap(t => splitSentences(t.text));
+    const words = userTurns.flatMap(t => t.text.toLowerCase().match(/[\p{L}']+/gu) ?? []);
+    const avgWords = userTurns.length ? words.length / userTurns.length : 0;
+    // The grammar rules, plain-word list and interest patterns are all English
+    const english = language === 'en';
+
+    const grammarCorrections = english ? findGrammarCorrections(sentences).slice(0, 8) : [];
+
+    const used = new Set(words);
+    const vocabulary = english ? Object.keys(PLAIN_WORDS).filter(w => used.has(w)).map(w => PLAIN_WORDS[w]).slice(0, 6) : [];
+
+    const strengths: string[] = [];
+    if (userTurns.length >= 5) strengths.push(`You kept the conversation going across ${userTurns.length} turns.`);
+    if (avgWords >= 8) strengths.push(`Your answers were well developed, about ${Math.round(avgWords)} words each.`);
+    if (userTurns.some(t => t.text.includes('?'))) strengths.push('You asked questions, which makes a conversation two-way.');
+    if (english && sentences.length > 0 && grammarCorrections.length <= sentences.length / 5) strengths.push('Most of your sentences were grammatically accurate.');
+    if (strengths.length === 0) strengths.push('You took the step of speaking out loud, which is the hardest part.');
+
+    const nextSteps: string[] = [];
+    if (avgWords < 6) nextSteps.push('Try to answer in full sentences and add one extra detail or reason.');
+    if (grammarCorrections.length > 0) nextSteps.push('Review the corrections below and use each corrected sentence once in your next call.');
+    if (vocabulary.length > 0) nextSteps.push(`Replace everyday words like "${vocabulary[0].replaces}" with more precise ones.`);
+    if (!userTurns.some(t => t.text.includes('?'))) nextSteps.push('Ask your coach at least two questions next time.');
+    if (nextSteps.length < 2) nextSteps.push(`Keep practising at ${level} level, or try a harder practice mode.`);
+
+    return {
+      summary: userTurns.length === 0
+        ? 'There was not enough speech from you in this call to review.'
+        : `You spoke ${words.length} words over ${userTurns.length} turn${userTurns.length === 1 ? '' : 's'}. ${english ? 'This report was generated offline, so it only checks common mistakes.' : 'This report was generated offline, which checks grammar in English calls only.'}`,
+      grammarCorrections,
+      vocabulary,
+      strengths,
+      nextSteps,
+      interests: english ? findInterests(sentences) : [],
+      generatedAt: Date.now(),
+      source: 'local'
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { StarScore, TargetLanguage } from '../types';
+import { countFillers, tokenize } from '../utils/fluencyMetrics';
+import type { InterviewScorer, ScoreRequest } from './interviewScoring';
+
+// Signal phrases for each STAR part; more distinct hits mean a clearer part
+const STAR_CUES: Record<'situation' | 'task' | 'action' | 'result', RegExp[]> = {
+  situation: [/\b(when i was|at my (last|previous|current) (job|company|role)|last (year|month)|a few (years|months) ago|once|there was a time|in my (last|previous) role|we had)\b/i, /\b(project|team|client|customer|company)\b/i],
+  task: [/\b(i (had|needed|was asked) to|my (job|goal|task|responsibility) was|i was responsible for|we needed to|the goal was|the challenge was)\b/i],
+  action: [/\bi (decided|started|organi[sz]ed|talked|spoke|created|built|wrote|set up|led|proposed|suggested|changed|asked|planned|made sure|focused)\b/i, /\b(first|then|after that|next|finally)\b/i],
+  result: [/\b(as a result|in the end|finally|which (led|meant)|we (managed|delivered|finished|saved|reduced|increased)|the outcome|i learned|it worked)\b/i, /\b\d+\s*(%|percent|per cent|days|weeks|hours|customers|people)\b/i]
+};
+
+// Ideal spoken answer length: long enough for a full story, short enough to keep attention
+const IDEAL_MIN_WORDS = 90;
+const IDEAL_MAX_WORDS = 300;
+
+const cueScore = (text: string, cues: RegExp[]) => {
+  const hits = cues.filter(cue => cue.test(text)).length;
+  return hits === 0 ? 1 : hits === cues.length ? 5 : 3;
+};
+
+/**
+ * Rubric estimate from signal phrases and answer length, for offline calls.
+ * It rewards structure words rather than judging content.
+ */
+export class LocalInterviewScorer implements InterviewScorer {
+  readonly kind = 'local' as const;
+
+  constructor(private language: TargetLanguage = 'en') {}
+
+  async score({ transcript }: ScoreRequest): Promise<StarScore> {
+    const words = tokenize(transcript);
+    const fillerCount = Object.values(countFillers(transcript, this.language)).reduce((a, b) => a + b, 0);
+    const fillerRate = words.length ? fillerCount / words.length : 0;
+
+    const situation = cueScore(transcript, STAR_CUES.situation);
+    const task = cueScore(transcript, STAR_CUES.task);
+    const action = cueScore(transcript, STAR_CUES.action);
+    const result = cueScore(transcript, STAR_CUES.result);
+    const clarity = words.length === 0 ? 1 : fillerRate > 0.08 ? 2 : fillerRate > 0.04 ? 3 : fillerRate > 0.015 ? 4 : 5;
+    const conciseness = words.length === 0 ? 1
+      : words.length < IDEAL_MIN_WORDS / 2 || words.length > IDEAL_MAX_WORDS * 1.5 ? 2
+      : words.length < IDEAL_MIN_WORDS || words.length > IDEAL_MAX_WORDS ? 3
+      : 5;
+
+    const weakest = ([['situation', situation], ['task', task], ['action', action], ['result', result]] as const)
+      .reduce((min, entry) => (entry[1] < min[1] ? entry : min));
+    const advice: Record<typeof weakest[0], string> = {
+      situation: 'Open with a concrete situation: where you were and what was happening.',
+      task: 'Say clearly what you were responsible for before describing what you did.',
+      action: 'Walk through the specific steps you took yourself, using "I" rather than "we".',
+      result: 'Finish with the outcome, with a number if you can, and what you learned.'
+    };
+    const lengthAdvice = words.length < IDEAL_MIN_WORDS
+      ? ' Give a little more detail.'
+      : words.length > IDEAL_MAX_WORDS ? ' Try to keep it shorter.' : '';
+
+    return {
+      situation, task, action, result, clarity, conciseness,
+      comment: `${weakest[1] === 5 ? 'Well structured: every part of the STAR story is there.' : advice[weakest[0]]}${lengthAdvice}`,
+      source: 'local'
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { CefrBand, PlacementAnswer, PlacementAssessment, TargetLanguage } from '../types';
+import { LEVELS } from '../constants';
+import { countFillers, tokenize, typeTokenRatio } from '../utils/fluencyMetrics';
+import { findGrammarCorrections } from './localFeedback';
+import type { PlacementScorer } from './placementScoring';
+import { answerStrength, complexityCount } from './placementPlan';
+
+const scale = (value: number, thresholds: [number, number, number, number]) =>
+  1 + thresholds.filter(t => value >= t).length;
+
+/**
+ * Estimate from word variety, pattern-rule errors, linking words and speaking
+ * rate, for offline calls. The band is the average of what the scores suggest
+ * and the hardest band the learner handled.
+ */
+export class LocalPlacementScorer implements PlacementScorer {
+  readonly kind = 'local' as const;
+
+  constructor(private language: TargetLanguage = 'en') {}
+
+  async assess(answers: PlacementAnswer[]): Promise<PlacementAssessment> {
+    const answered = answers.filter(a => a.transcript.trim());
+    const text = answered.map(a => a.transcript).join(' ');
+    const words = tokenize(text);
+    if (words.length === 0) {
+      return {
+        vocabularyRange: 1, grammarAccuracy: 1, fluency: 1, band: 'A1',
+        rationale: 'There were no answers to assess, so the test starts you at the beginning. Take it again when you are ready to speak.',
+        source: 'local'
+      };
+    }
+
+    const longWordShare = words.filter(w => w.length >= 7).length / words.length;
+    const vocabularyRange = Math.round((scale(typeTokenRatio(words), [0.45, 0.55, 0.65, 0.72]) + scale(longWordShare, [0.05, 0.09, 0.13, 0.17])) / 2);
+
+    // The pattern rules only know English mistakes
+    const errors = this.language === 'en' ? findGrammarCorrections(answered.map(a => a.transcript)).length : 0;
+    const errorsPer100 = (errors / words.length) * 100;
+    const complexityPerAnswer = complexityCount(text, this.language) / answered.length;
+    const grammarAccuracy = Math.round((6 - scale(errorsPer100, [0.5, 1.5, 3, 5]) + scale(complexityPerAnswer, [0.5, 1, 2, 3])) / 2);
+
+    const answerMs = answered.reduce((sum, a) => sum + a.answerMs, 0);
+    const wpm = answerMs > 0 ? words.length / (answerMs / 60000) : 0;
+    const fillerRate = Object.values(countFillers(text, this.language)).reduce((a, b) => a + b, 0) / words.length;
+    const wordsPerAnswer = words.length / answered.length;
+    const fluency = Math.max(1, Math.round((scale(wpm, [60, 85, 110, 130]) + scale(wordsPerAnswer, [10, 20, 35, 50])) / 2) - (fillerRate > 0.08 ? 1 : 0));
+
+    const scored = LEVELS[Math.round(((vocabularyRange + grammarAccuracy + fluency) / 3 - 1) * (LEVELS.length - 1) / 4)];
+    const handled = answered
+      .filter(a => answerStrength(a.transcript, a.band, this.language) >= 0)
+      .reduce<CefrBand | null>((best, a) => (!best || LEVELS.indexOf(a.band) > LEVELS.indexOf(best) ? a.band : best), null) ?? 'A1';
+    const band = LEVELS[Math.floor((LEVELS.indexOf(scored) + LEVELS.indexOf(handled)) / 2)];
+
+    const criteria = [['vocabulary range', vocabularyRange], ['grammar', grammarAccuracy], ['fluency', fluency]] as const;
+    const focus = criteria.reduce((min, entry) => (entry[1] < min[1] ? entry : min));
+    return {
+      vocabularyRange, grammarAccuracy, fluency, band,
+      rationale: `You answered questions up to ${handled} level comfortably, with about ${Math.round(wordsPerAnswer)} words per answer`
+        + `${wpm ? ` at ${Math.round(wpm)} words per minute` : ''}. `
+        + (focus[1] === 5 ? 'All three areas are strong.' : `Your ${focus[0]} is the area to work on next.`),
+      source: 'local'
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import { PcmFrameAssembler } from '../utils/audioUtils';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+
+export interface CaptureOptions {
+  /** Length of each frame handed to the session, in milliseconds. */
+  frameMs: number;
+  /** Use the ScriptProcessorNode path even when AudioWorklet is available. */
+  forceScriptProcessor: boolean;
+}
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+  frameMs: 40,
+  forceScriptProcessor: false
+};
+
+export type CapturePath = 'worklet' | 'script-processor';
+
+const PROCESSOR_NAME = 'speakflow-capture';
+
+// Runs on the audio rendering thread. `sampleRate` is a global there and is
+// whatever rate the device actually delivers.
+const WORKLET_SOURCE = `
+const Assembler = ${PcmFrameAssembler.toString()};
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, frameSize } = options.processorOptions;
+    this.assembler = new Assembler(sampleRate, targetRate, frameSize);
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (const frame of this.assembler.push(channel)) {
+        this.port.postMessage(frame, [frame.buffer]);
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+const getWorkletUrl = () => {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  }
+  return workletUrl;
+};
+
+/**
+ * Turns a microphone stream into 16 kHz mono frames. Prefers an AudioWorklet so
+ * resampling and framing happen off the main thread, and falls back to the
+ * deprecated ScriptProcessorNode where worklets are unavailable.
+ */
+export class MicCapture {
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | ScriptProcessorNode | null = null;
+
+  constructor(
+    private audioContext: AudioContext,
+    private stream: MediaStream,
+    private options: CaptureOptions = DEFAULT_CAPTURE_OPTIONS
+  ) {}
+
+  async start(onFrame: (frame: Float32Array) => void): Promise<CapturePath> {
+    this.source = this.audioContext.createMediaStreamSource(this.stream);
+    const frameSize = Math.round(CAPTURE_SAMPLE_RATE * this.options.frameMs / 1000);
+
+    if (!this.options.forceScriptProcessor && this.audioContext.audioWorklet) {
+      try {
+        await this.audioContext.audioWorklet.addModule(getWorkletUrl());
+        const node = new AudioWorkletNode(this.audioContext, PROCESSOR_NAME, {
+          numberOfInputs: 1,
+          numberOfOutputs: 1,
+          channelCount: 1,
+          processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, frameSize }
+        });
+        node.port.onmessage = (e: MessageEvent<Float32Array>) => onFrame(e.data);
+        this.connect(node);
+        return 'worklet';
+      } catch (err) {
+        console.warn('AudioWorklet capture unavailable, falling back to ScriptProcessorNode', err);
+      }
+    }
+
+    const assembler = new PcmFrameAssembler(this.audioContext.sampleRate, CAPTURE_SAMPLE_RATE, frameSize);
+    const processor = this.audioContext.createScriptProcessor(4096, 1, 1);
+    processor.onaudioprocess = (e) => {
+      assembler.push(e.inputBuffer.getChannelData(0)).forEach(onFrame);
+    };
+    this.connect(processor);
+    return 'script-processor';
+  }
+
+  private connect(node: AudioWorkletNode | ScriptProcessorNode) {
+    this.node = node;
+    this.source?.connect(node);
+    // Both node types only run while pulled by the destination; they output silence
+    node.connect(this.audioContext.destination);
+  }
+
+  stop() {
+    if (this.node instanceof AudioWorkletNode) {
+      this.node.port.onmessage = null;
+    } else if (this.node) {
+      this.node.onaudioprocess = null;
+    }
+    this.node?.disconnect();
+    this.source?.disconnect();
+    this.node = null;
+    this.source = null;
+  }
+}
@@ -0,0 +1,70 @@
+import { AudioDeviceSettings } from '../types';
+import { AudioLevelMeter } from './audioLevels';
+import { microphoneConstraints } from './audioDevices';
+
+/**
+ * A pre-call microphone test: opens the microphone with the chosen settings,
+ * reports its live level and records short samples to play back. Nothing is
+ * sent anywhere.
+ */
+export class MicCheck {
+  private stream: MediaStream | null = null;
+  private context: AudioContext | null = null;
+  private meter: AudioLevelMeter | null = null;
+  private recorder: MediaRecorder | null = null;
+
+  async start(settings: AudioDeviceSettings) {
+    this.stop();
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(settings) });
+    this.stream = stream;
+    this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    await this.context.resume();
+    this.meter = new AudioLevelMeter(this.context);
+    // The meter is not connected to the speakers, so the learner does not hear themselves live
+    this.context.createMediaStreamSource(stream).connect(this.meter.node);
+  }
+
+  get isRunning() {
+    return this.stream !== null;
+  }
+
+  /** Label of the microphone actually opened. */
+  get deviceLabel(): string {
+    return this.stream?.getAudioTracks()[0]?.label ?? '';
+  }
+
+  /** Current level, 0 to 1. */
+  level(): number {
+    return this.meter?.level() ?? 0;
+  }
+
+  /** Records `durationMs` of the microphone for loopback playback. */
+  recordSample(durationMs: number): Promise<Blob> {
+    const stream = this.stream;
+    if (!stream || typeof MediaRecorder === 'undefined') return Promise.reject(new Error('Recording is not available in this browser.'));
+    return new Promise((resolve, reject) => {
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      this.recorder = recorder;
+      recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+      recorder.onstop = () => {
+        this.recorder = null;
+        resolve(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorder.onerror = () => reject(new Error('Recording failed.'));
+      recorder.start();
+      setTimeout(() => { if (recorder.state !== 'inactive') recorder.stop(); }, durationMs);
+    });
+  }
+
+  stop() {
+    if (this.recorder?.state === 'recording') this.recorder.stop();
+    this.recorder = null;
+    this.meter?.disconnect();
+    this.meter = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+}
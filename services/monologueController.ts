@@ -0,0 +1,136 @@
+import { ChatTurn, MonologueConfig, MonologueDelivery, MonologueRecord } from '../types';
+import { formatDuration } from '../utils/format';
+
+/** Prefix for instructions the app sends into the call; the system instruction tells the coach not to read them out. */
+export const SPEECH_CONTROL_PREFIX = '[SPEECH]';
+
+// A speech within this share of the target counts as on time
+const ON_TIME_TOLERANCE = 0.1;
+
+export const DEFAULT_MONOLOGUE_CONFIG: MonologueConfig = { topic: '', targetMs: 120000, prepMs: 15000 };
+
+export type MonologuePhase = 'ready' | 'countdown' | 'speaking' | 'feedback';
+
+export interface MonologueState {
+  phase: MonologuePhase;
+  countdownEndsAt: number | null;
+  speechStartedAt: number | null;
+  deliveries: MonologueDelivery[];
+}
+
+export interface Pacing {
+  status: 'short' | 'on-time' | 'over';
+  /** How far the speech was from the target, always positive. */
+  gapMs: number;
+}
+
+export function comparePacing(durationMs: number, targetMs: number): Pacing {
+  const gapMs = Math.abs(durationMs - targetMs);
+  if (gapMs <= targetMs * ON_TIME_TOLERANCE) return { status: 'on-time', gapMs };
+  return { status: durationMs < targetMs ? 'short' : 'over', gapMs };
+}
+
+export function describePacing({ status, gapMs }: Pacing): string {
+  if (status === 'on-time') return 'on time';
+  return `${formatDuration(gapMs)} ${status === 'short' ? 'short' : 'over'}`;
+}
+
+/** Opens and closes the learner's microphone; the coach can only answer once it is closed. */
+export interface MicControl {
+  open: () => void;
+  /** Closes the microphone after telling the coach, through `note`, that the speech is over. */
+  close: (note: string) => void;
+}
+
+/**
+ * Runs timed speeches on top of a live call: counts down, keeps the
+ * microphone open for the whole speech so the coach cannot jump in, and asks
+ * for feedback only once the learner ends it.
+ */
+export class MonologueController {
+  private phase: MonologuePhase = 'ready';
+  private countdownEndsAt: number | null = null;
+  private speechStartedAt: number | null = null;
+  private countdown: ReturnType<typeof setTimeout> | null = null;
+  private deliveries: MonologueDelivery[] = [];
+  // The learner's transcript is completed together with the coach's feedback turn
+  private awaitingTranscript: number | null = null;
+
+  constructor(
+    readonly config: MonologueConfig,
+    private mic: MicControl,
+    private onChange: (state: MonologueState) => void
+  ) {}
+
+  getState(): MonologueState {
+    return {
+      phase: this.phase,
+      countdownEndsAt: this.countdownEndsAt,
+      speechStartedAt: this.speechStartedAt,
+      deliveries: [...this.deliveries]
+    };
+  }
+
+  startCountdown() {
+    if (this.phase === 'countdown' || this.phase === 'speaking') return;
+    this.phase = 'countdown';
+    this.countdownEndsAt = Date.now() + this.config.prepMs;
+    this.countdown = setTimeout(() => this.startSpeech(), this.config.prepMs);
+    this.emit();
+  }
+
+  /** Opens the microphone; skips whatever is left of the countdown. */
+  startSpeech() {
+    if (this.phase === 'speaking') return;
+    this.clearCountdown();
+    this.phase = 'speaking';
+    this.speechStartedAt = Date.now();
+    this.mic.open();
+    this.emit();
+  }
+
+  endSpeech() {
+    if (this.phase !== 'speaking' || this.speechStartedAt === null) return;
+    const durationMs = Date.now() - this.speechStartedAt;
+    this.awaitingTranscript = this.deliveries.push({ startedAt: this.speechStartedAt, durationMs, transcript: '' }) - 1;
+    this.phase = 'feedback';
+    this.speechStartedAt = null;
+    const pacing = describePacing(comparePacing(durationMs, this.config.targetMs));
+    this.mic.close(`${SPEECH_CONTROL_PREFIX} The speech has ended. It lasted ${formatDuration(durationMs)} against a target of ${formatDuration(this.config.targetMs)} (${pacing}). Give your feedback now.`);
+    this.emit();
+  }
+
+  /** Feed every completed transcript turn of the call, in order. */
+  addTurn(turn: ChatTurn) {
+    if (this.awaitingTranscript === null) return;
+    if (turn.role === 'model') {
+      this.awaitingTranscript = null;
+      return;
+    }
+    const delivery = this.deliveries[this.awaitingTranscript];
+    this.deliveries[this.awaitingTranscript] = { ...delivery, transcript: `${delivery.transcript} ${turn.text.trim()}`.trim() };
+    this.emit();
+  }
+
+  /** Stops any countdown and returns every speech delivered, including one still in progress. */
+  finish(): MonologueRecord {
+    this.clearCountdown();
+    if (this.phase === 'speaking' && this.speechStartedAt !== null) {
+      this.deliveries.push({ startedAt: this.speechStartedAt, durationMs: Date.now() - this.speechStartedAt, transcript: '' });
+    }
+    this.phase = 'ready';
+    this.speechStartedAt = null;
+    this.awaitingTranscript = null;
+    return { config: this.config, deliveries: [...this.deliveries] };
+  }
+
+  private clearCountdown() {
+    if (this.countdown) clearTimeout(this.countdown);
+    this.countdown = null;
+    this.countdownEndsAt = null;
+  }
+
+  private emit() {
+    this.onChange(this.getState());
+  }
+}
@@ -0,0 +1,120 @@
+import { CefrBand, ChatTurn, PlacementAnswer, PlacementQuestion, TargetLanguage } from '../types';
+import { answerStrength, nextBand, pickQuestion, PLACEMENT_QUESTION_COUNT, PLACEMENT_QUESTIONS, START_BAND } from './placementPlan';
+
+/** Prefix for instructions the app sends into the call; the system instruction tells the coach not to read them out. */
+export const PLACEMENT_CONTROL_PREFIX = '[PLACEMENT]';
+
+export interface PlacementState {
+  /** Null once the last question has been answered. */
+  question: PlacementQuestion | null;
+  index: number;
+  total: number;
+  /** When the coach finished asking the current question; null while it is still being asked. */
+  answerStartedAt: number | null;
+}
+
+interface OpenQuestion {
+  question: PlacementQuestion;
+  startedAt: number | null;
+  turns: ChatTurn[];
+}
+
+const turnEnd = (turn: ChatTurn) => turn.speech?.endedAt ?? turn.timestamp;
+
+const transcriptOf = (open: OpenQuestion) => open.turns.map(t => t.text.trim()).join(' ');
+
+/**
+ * Runs an adaptive placement test on top of a live call: each answer moves the
+ * next question up or down a CEFR band, and every answer is kept for scoring
+ * once the call ends.
+ */
+export class PlacementController {
+  private index = 0;
+  private current: OpenQuestion | null;
+  // As in an interview, the previous question keeps collecting learner turns until the coach asks the next one
+  private closing: OpenQuestion | null = null;
+  private answers: PlacementAnswer[] = [];
+
+  constructor(
+    private send: (text: string) => void,
+    private onChange: (state: PlacementState) => void,
+    readonly language: TargetLanguage = 'en',
+    private bank: PlacementQuestion[] = PLACEMENT_QUESTIONS,
+    readonly total = PLACEMENT_QUESTION_COUNT
+  ) {
+    const first = pickQuestion(START_BAND, [], bank);
+    this.current = first ? { question: first, startedAt: null, turns: [] } : null;
+  }
+
+  getState(): PlacementState {
+    return {
+      question: this.current?.question ?? null,
+      index: this.index,
+      total: this.total,
+      answerStartedAt: this.current?.startedAt ?? null
+    };
+  }
+
+  /** Where the test has got to, so a reconnected coach asks the current question rather than the first. */
+  progress() {
+    return { question: this.current?.question.text ?? null, index: this.index };
+  }
+
+  /** Feed every completed transcript turn of the call, in order. */
+  addTurn(turn: ChatTurn) {
+    if (turn.role === 'user') {
+      (this.closing ?? this.current)?.turns.push(turn);
+      return;
+    }
+    if (this.closing) {
+      this.finalize(this.closing);
+      this.closing = null;
+    }
+    if (this.current && this.current.startedAt === null) {
+      this.current.startedAt = turn.timestamp;
+    }
+    this.emit();
+  }
+
+  /** Moves on, choosing the next question's band from the answer so far. */
+  nextQuestion() {
+    if (!this.current) return;
+    if (this.closing) this.finalize(this.closing);
+    const band: CefrBand = nextBand(this.current.question.band, answerStrength(transcriptOf(this.current), this.current.question.band, this.language));
+    this.closing = this.current;
+    this.index++;
+
+    const asked = [...this.answers.map(a => a.questionId), this.closing.question.id];
+    const next = this.index < this.total ? pickQuestion(band, asked, this.bank) : null;
+    this.current = next ? { question: next, startedAt: null, turns: [] } : null;
+    if (!next) this.index = this.total;
+    this.send(next
+      ? `${PLACEMENT_CONTROL_PREFIX} Briefly thank the learner, then ask: "${next.text}"`
+      : `${PLACEMENT_CONTROL_PREFIX} That was the last question. Thank the learner and tell them their result will appear when they end the call.`);
+    this.emit();
+  }
+
+  /** Closes any open answers and returns them in the order asked. */
+  finish(): PlacementAnswer[] {
+    if (this.closing) this.finalize(this.closing);
+    if (this.current?.turns.length) this.finalize(this.current);
+    this.closing = null;
+    this.current = null;
+    return [...this.answers];
+  }
+
+  private finalize(open: OpenQuestion) {
+    const last = open.turns[open.turns.length - 1];
+    this.answers.push({
+      questionId: open.question.id,
+      band: open.question.band,
+      question: open.question.text,
+      transcript: transcriptOf(open),
+      answerMs: last && open.startedAt !== null ? Math.max(0, turnEnd(last) - open.startedAt) : 0
+    });
+  }
+
+  private emit() {
+    this.onChange(this.getState());
+  }
+}
@@ -0,0 +1,62 @@
+import { CefrBand, PlacementQuestion, TargetLanguage } from '../types';
+import { LEVELS } from '../constants';
+import { countFillers, tokenize } from '../utils/fluencyMetrics';
+import { findGrammarCorrections } from './localFeedback';
+import questionBank from '../placement/questions.json';
+
+export const PLACEMENT_QUESTIONS = questionBank as PlacementQuestion[];
+
+export const PLACEMENT_QUESTION_COUNT = 6;
+
+// Start in the middle so one step either way reaches most learners
+export const START_BAND: CefrBand = 'B1';
+
+// Words a learner at each band typically manages in a spoken answer to a question of that band
+const EXPECTED_WORDS: Record<CefrBand, number> = { A1: 8, A2: 15, B1: 25, B2: 35, C1: 45, C2: 55 };
+
+// Linking words and structures that show control beyond simple sentences
+const COMPLEXITY_CUES: Record<TargetLanguage, RegExp> = {
+  en: /\b(because|although|though|whereas|unless|which|whose|whom|if|would|could|might|have been|had been|however|therefore|on the other hand|in my opinion|as a result|despite)\b/gi,
+  es: /\b(porque|aunque|mientras|sin embargo|por lo tanto|por eso|además|cuyo|cuya|si|habría|podría|debería|hubiera|en mi opinión|a pesar de)\b/gi,
+  de: /\b(weil|obwohl|während|jedoch|deshalb|trotzdem|außerdem|dass|wenn|falls|hätte|würde|könnte|meiner meinung nach|im gegenteil)\b/gi
+};
+
+// Answers that show the question was not understood
+const NOT_UNDERSTOOD = /\b(i don't understand|i do not understand|can you repeat|sorry,? what|i don't know|no entiendo|no comprendo|puedes repetir|ich verstehe nicht|ich weiß nicht|wie bitte)\b/i;
+
+const stepBand = (band: CefrBand, step: number): CefrBand =>
+  LEVELS[Math.min(LEVELS.length - 1, Math.max(0, LEVELS.indexOf(band) + step))];
+
+export const complexityCount = (text: string, language: TargetLanguage = 'en') => text.match(COMPLEXITY_CUES[language])?.length ?? 0;
+
+/**
+ * Quick local judgement of one answer, used to pick the next question:
+ * +1 when it comfortably meets the band, -1 when it falls clearly short.
+ * The grammar rules only cover English, so other languages are judged on length, fillers and linking words.
+ */
+export function answerStrength(transcript: string, band: CefrBand, language: TargetLanguage = 'en'): -1 | 0 | 1 {
+  const words = tokenize(transcript);
+  const expected = EXPECTED_WORDS[band];
+  if (words.length < expected / 2 || (NOT_UNDERSTOOD.test(transcript) && words.length < expected)) return -1;
+
+  const fillers = Object.values(countFillers(transcript, language)).reduce((a, b) => a + b, 0);
+  const errors = language === 'en' ? findGrammarCorrections([transcript]).length : 0;
+  const needsComplexity = LEVELS.indexOf(band) >= LEVELS.indexOf('B1');
+  if (words.length >= expected && errors === 0 && fillers / words.length < 0.08 && (!needsComplexity || complexityCount(transcript, language) > 0)) return 1;
+  return 0;
+}
+
+/** The band for the next question after an answer of the given strength. */
+export const nextBand = (band: CefrBand, strength: -1 | 0 | 1): CefrBand => stepBand(band, strength);
+
+/** An unasked question at `band`, or at the nearest band that still has one. */
+export function pickQuestion(band: CefrBand, askedIds: string[], bank: PlacementQuestion[] = PLACEMENT_QUESTIONS): PlacementQuestion | null {
+  const index = LEVELS.indexOf(band);
+  const byDistance = [...LEVELS].sort((a, b) =>
+    Math.abs(LEVELS.indexOf(a) - index) - Math.abs(LEVELS.indexOf(b) - index));
+  for (const candidate of byDistance) {
+    const question = bank.find(q => q.band === candidate && !askedIds.includes(q.id));
+    if (question) return question;
+  }
+  return null;
+}
@@ -0,0 +1,121 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { CefrBand, PlacementAnswer, PlacementAssessment, PlacementResult, TargetLanguage } from '../types';
+import { LEVELS } from '../constants';
+import { languageName } from '../utils/format';
+import { getConfiguredTransportKind } from './liveTransport';
+import { LocalPlacementScorer } from './localPlacementScoring';
+import { createSessionId } from './sessionStore';
+
+/** Judges a whole placement test from its transcribed answers. */
+export interface PlacementScorer {
+  readonly kind: PlacementAssessment['source'];
+  assess: (answers: PlacementAnswer[]) => Promise<PlacementAssessment>;
+}
+
+export const PLACEMENT_CRITERIA: { key: 'vocabularyRange' | 'grammarAccuracy' | 'fluency'; label: string }[] = [
+  { key: 'vocabularyRange', label: 'Vocabulary range' },
+  { key: 'grammarAccuracy', label: 'Grammar accuracy' },
+  { key: 'fluency', label: 'Fluency' }
+];
+
+const ASSESSMENT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    ...Object.fromEntries(PLACEMENT_CRITERIA.map(c => [c.key, { type: Type.INTEGER }])),
+    band: { type: Type.STRING, enum: LEVELS },
+    rationale: { type: Type.STRING }
+  },
+  required: [...PLACEMENT_CRITERIA.map(c => c.key), 'band', 'rationale']
+};
+
+const clampScore = (value: unknown) => {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) ? Math.min(5, Math.max(1, n)) : 1;
+};
+
+/** Coerces model output into an assessment, clamping scores to 1-5 and falling back to B1 for an unknown band. */
+export function normalizeAssessment(raw: any, source: PlacementAssessment['source']): PlacementAssessment {
+  return {
+    vocabularyRange: clampScore(raw?.vocabularyRange),
+    grammarAccuracy: clampScore(raw?.grammarAccuracy),
+    fluency: clampScore(raw?.fluency),
+    band: LEVELS.includes(raw?.band) ? raw.band as CefrBand : 'B1',
+    rationale: typeof raw?.rationale === 'string' ? raw.rationale : '',
+    source
+  };
+}
+
+export class GeminiPlacementScorer implements PlacementScorer {
+  readonly kind = 'gemini' as const;
+
+  constructor(private language: TargetLanguage = 'en') {}
+
+  async assess(answers: PlacementAnswer[]): Promise<PlacementAssessment> {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key missing");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    const transcript = answers
+      .map((a, i) => `Q${i + 1} (${a.band} question, answered in ${Math.round(a.answerMs / 1000)}s): ${a.question}\nA${i + 1}: ${a.transcript || '(no answer)'}`)
+      .join('\n\n');
+
+    const language = languageName(this.language);
+    const prompt = `
+      You are a ${language} examiner placing a learner after a short spoken placement test. The questions adapted to the learner:
+      harder after good answers, easier after weak ones. The answers are speech-to-text transcriptions, so ignore punctuation and capitalisation.
+      The questions are listed as written; the coach asked them in ${language}. Answers in another language show the learner could not answer in ${language}.
+
+      Score each criterion from 1 (very limited) to 5 (excellent):
+      - vocabularyRange: variety and precision of the words used.
+      - grammarAccuracy: correct use of tenses, agreement and sentence structure, and the range of structures attempted.
+      - fluency: how easily and fully the learner answered, judged from answer length, time taken and hesitation.
+      band: the CEFR band (A1, A2, B1, B2, C1 or C2) that best describes the learner's speaking.
+      rationale: two or three sentences addressed to the learner explaining the band, quoting their own words where helpful.
+
+      ${transcript}
+    `;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: ASSESSMENT_SCHEMA
+      }
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response.text ?? '');
+    } catch {
+      throw new Error('The scoring service returned an unreadable assessment.');
+    }
+    return normalizeAssessment(parsed, 'gemini');
+  }
+}
+
+export const createPlacementScorer = (language: TargetLanguage = 'en'): PlacementScorer => {
+  if (getConfiguredTransportKind() === 'scripted' || !process.env.API_KEY) {
+    return new LocalPlacementScorer(language);
+  }
+  return new GeminiPlacementScorer(language);
+};
+
+/**
+ * Scores a finished test and turns it into a stored result. A learner who has
+ * just sat the test should always get a level, so a failed request falls back
+ * to the local estimate.
+ */
+export async function assessPlacement(
+  answers: PlacementAnswer[],
+  language: TargetLanguage = 'en',
+  scorer: PlacementScorer = createPlacementScorer(language)
+): Promise<PlacementResult> {
+  const assessment = await scorer.assess(answers).catch(err => {
+    console.error('Placement scoring failed; using the local estimate', err);
+    return new LocalPlacementScorer(language).assess(answers);
+  });
+  return { ...assessment, id: createSessionId(), takenAt: Date.now(), language, answers };
+}
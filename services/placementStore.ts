@@ -0,0 +1,24 @@
+import { PlacementResult, TargetLanguage } from '../types';
+import { DAY_MS } from '../utils/spacedRepetition';
+import { STORES, withStore } from './db';
+
+/** How long a placement result stays current before a re-test is offered. */
+export const PLACEMENT_RETEST_DAYS = 30;
+
+export function savePlacement(result: PlacementResult): Promise<IDBValidKey> {
+  return withStore(STORES.placements, 'readwrite', store => store.put(result));
+}
+
+/** Every placement result, most recent first. */
+export async function listPlacements(): Promise<PlacementResult[]> {
+  const results: PlacementResult[] = await withStore(STORES.placements, 'readonly', store => store.getAll());
+  return results.sort((a, b) => b.takenAt - a.takenAt);
+}
+
+/** The most recent result for one target language; each language is placed separately. */
+export async function latestPlacement(language: TargetLanguage = 'en'): Promise<PlacementResult | null> {
+  return (await listPlacements()).find(r => r.language === language) ?? null;
+}
+
+export const isRetestDue = (result: PlacementResult, now = Date.now()) =>
+  now - result.takenAt >= PLACEMENT_RETEST_DAYS * DAY_MS;
@@ -0,0 +1,19 @@
+import { StoredRecording } from '../types';
+import { STORES, withStore } from './db';
+
+export function saveRecording(recording: StoredRecording): Promise<IDBValidKey> {
+  return withStore(STORES.recordings, 'readwrite', store => store.put(recording));
+}
+
+/** Recordings of a session in call order. */
+export async function listRecordings(sessionId: string): Promise<StoredRecording[]> {
+  const recordings: StoredRecording[] = await withStore(
+    STORES.recordings, 'readonly', store => store.index('sessionId').getAll(sessionId)
+  );
+  return recordings.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+export async function deleteRecordings(sessionId: string): Promise<void> {
+  const recordings = await listRecordings(sessionId);
+  await Promise.all(recordings.map(r => withStore(STORES.recordings, 'readwrite', store => store.delete(r.id))));
+}
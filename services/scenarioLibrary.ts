@@ -0,0 +1,96 @@
+import { Scenario, ScenarioGoal } from '../types';
+import { LEVELS, TARGET_LANGUAGES } from '../constants';
+import { STORES, withStore } from './db';
+import { toLevel, toTargetLanguage } from './legacyRecords';
+import hotelCheckIn from '../scenarios/hotel-check-in.json';
+import productReturn from '../scenarios/product-return.json';
+import doctorAppointment from '../scenarios/doctor-appointment.json';
+import restaurantOrder from '../scenarios/restaurant-order.json';
+import cafeteriaMadrid from '../scenarios/cafeteria-madrid.json';
+import fahrkarteKaufen from '../scenarios/fahrkarte-kaufen.json';
+
+export const SCENARIO_SCHEMA = 'speakflow.scenario';
+// Version 2 added `language` and CEFR levels; version 1 files are English with Basic/Intermediate/Advanced levels
+export const SCENARIO_SCHEMA_VERSION = 2;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string' && v.trim() !== '');
+
+const requireText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`The scenario needs a "${field}".`);
+  return value.trim();
+};
+
+/** Validates a scenario file (see README, "Roleplay Scenarios") and throws a readable Error when it is malformed. */
+export function parseScenario(data: unknown): Scenario {
+  const file = data as any;
+  if (file?.schema !== SCENARIO_SCHEMA) {
+    throw new Error('This file is not a SpeakFlow scenario.');
+  }
+  if (typeof file.version !== 'number' || file.version > SCENARIO_SCHEMA_VERSION) {
+    throw new Error(`Unsupported scenario version ${file.version}. Please update the app.`);
+  }
+
+  const s = file.scenario;
+  if (!s || typeof s !== 'object') throw new Error('The file has no "scenario" object.');
+  if (!/^[a-z0-9-]+$/.test(s.id ?? '')) {
+    throw new Error('The scenario "id" must use only lower-case letters, digits and dashes.');
+  }
+  if (!Array.isArray(s.goals) || s.goals.length === 0) throw new Error('The scenario needs at least one goal.');
+  const goals: ScenarioGoal[] = s.goals.map((g: any, i: number) => {
+    if (typeof g?.id !== 'string' || typeof g.description !== 'string' || !isStringList(g.evidence) || g.evidence.length === 0) {
+      throw new Error(`Goal ${i + 1} needs an "id", a "description" and a non-empty "evidence" list.`);
+    }
+    return { id: g.id, description: g.description.trim(), evidence: g.evidence.map((e: string) => e.trim()) };
+  });
+  if (new Set(goals.map(g => g.id)).size !== goals.length) throw new Error('Goal ids must be unique.');
+  if (!isStringList(s.requiredPhrases ?? [])) throw new Error('"requiredPhrases" must be a list of phrases.');
+  if (!isStringList(s.outline) || s.outline.length === 0) throw new Error('The scenario needs an "outline" with at least one step.');
+  const level = s.level === undefined ? undefined : toLevel(s.level);
+  if (level === null) throw new Error(`"level" must be one of ${LEVELS.join(', ')}.`);
+  if (s.language !== undefined && !TARGET_LANGUAGES.some(l => l.code === s.language)) {
+    throw new Error(`"language" must be one of ${TARGET_LANGUAGES.map(l => l.code).join(', ')}.`);
+  }
+
+  return {
+    id: s.id,
+    title: requireText(s.title, 'title'),
+    setting: requireText(s.setting, 'setting'),
+    coachRole: requireText(s.coachRole, 'coachRole'),
+    goals,
+    requiredPhrases: s.requiredPhrases ?? [],
+    outline: s.outline,
+    completionCriteria: requireText(s.completionCriteria, 'completionCriteria'),
+    level,
+    language: toTargetLanguage(s.language)
+  };
+}
+
+/** The scenario wrapped in its file envelope, ready to download or share. */
+export const toScenarioFile = ({ custom, ...scenario }: Scenario) => JSON.stringify(
+  { schema: SCENARIO_SCHEMA, version: SCENARIO_SCHEMA_VERSION, scenario },
+  null,
+  2
+);
+
+export const BUNDLED_SCENARIOS: Scenario[] = [hotelCheckIn, restaurantOrder, productReturn, doctorAppointment, cafeteriaMadrid, fahrkarteKaufen].map(parseScenario);
+
+/** Imported scenarios are stored with an id prefix so they never replace a bundled one. */
+export async function saveCustomScenario(scenario: Scenario): Promise<Scenario> {
+  const stored: Scenario = {
+    ...scenario,
+    id: scenario.id.startsWith('custom-') ? scenario.id : `custom-${scenario.id}`,
+    custom: true
+  };
+  await withStore(STORES.scenarios, 'readwrite', store => store.put(stored));
+  return stored;
+}
+
+export async function listCustomScenarios(): Promise<Scenario[]> {
+  const scenarios: Scenario[] = await withStore(STORES.scenarios, 'readonly', store => store.getAll());
+  return scenarios.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export function deleteCustomScenario(id: string): Promise<undefined> {
+  return withStore(STORES.scenarios, 'readwrite', store => store.delete(id));
+}
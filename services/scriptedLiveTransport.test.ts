@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AVATARS } from '../constants';
+import { ChatTurn } from '../types';
+import { GeminiLiveService, LiveSessionCallbacks } from './geminiLiveService';
+import { LiveScript, ScriptedLiveTransport } from './scriptedLiveTransport';
+import { LiveTransportSession } from './liveTransport';
+
+// Just enough of the Web Audio API for a text-input call to play coach audio
+class FakeAudioContext {
+  currentTime = 0;
+  sampleRate: number;
+  destination = {};
+
+  constructor(options?: { sampleRate?: number }) {
+    this.sampleRate = options?.sampleRate ?? 48000;
+  }
+
+  resume = async () => {};
+  close = async () => {};
+
+  createAnalyser() {
+    return { fftSize: 0, frequencyBinCount: 256, connect() {}, disconnect() {}, getFloatTimeDomainData() {}, getByteFrequencyData() {} };
+  }
+
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    const data = new Float32Array(length);
+    return { duration: length / sampleRate, getChannelData: () => data };
+  }
+
+  createBufferSource() {
+    return { buffer: null, onended: null, connect() {}, start() {}, stop() {} };
+  }
+}
+
+const SCRIPT: LiveScript = {
+  name: 'Test call',
+  steps: [
+    { delayMs: 100, message: { serverContent: { outputTranscription: { text: 'Hello! How are you?' } } } },
+    { tone: { frequency: 220, durationMs: 200 } },
+    { delayMs: 100, message: { serverContent: { turnComplete: true } } },
+    { delayMs: 100, waitForInput: true, message: { serverContent: { inputTranscription: { text: 'I am fine, thanks.' } } } },
+    { delayMs: 100, message: { serverContent: { outputTranscription: { text: 'Great to hear.' } } } },
+    { message: { toolCall: { functionCalls: [{ id: 'tip', name: 'pin_word', args: { word: 'great', meaning: 'very good' } }] } } },
+    { delayMs: 100, message: { serverContent: { turnComplete: true } } }
+  ]
+} as LiveScript;
+
+const createCallbacks = () => {
+  const turns: ChatTurn[] = [];
+  const callbacks: LiveSessionCallbacks = {
+    onTranscriptionUpdate: (_role, _text, isComplete, turn) => {
+      if (isComplete && turn) turns.push(turn);
+    },
+    onStatusChange: vi.fn(),
+    onToolCall: vi.fn(() => ({ pinned: true }))
+  };
+  return { turns, callbacks };
+};
+
+describe('ScriptedLiveTransport', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    vi.stubGlobal('navigator', {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('replays a fixture through GeminiLiveService', async () => {
+    const transport = new ScriptedLiveTransport(SCRIPT);
+    let session: LiveTransportSession | null = null;
+    const connect = transport.connect.bind(transport);
+    vi.spyOn(transport, 'connect').mockImplementation(async options => {
+      session = await connect(options);
+      vi.spyOn(session, 'sendToolResponse');
+      return session;
+    });
+    const service = new GeminiLiveService(transport);
+    const { turns, callbacks } = createCallbacks();
+
+    await service.connect(AVATARS[0], 'B1', 'General Speaking', [], callbacks, { inputMode: 'text' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(callbacks.onStatusChange).toHaveBeenCalledWith('open');
+    expect(turns.map(t => [t.role, t.text])).toEqual([['model', 'Hello! How are you?']]);
+    expect(turns[0].audioMs).toBe(200);
+
+    // The learner's answer is held until the app sends something
+    service.sendText('Carry on.');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(turns.map(t => [t.role, t.text])).toEqual([
+      ['model', 'Hello! How are you?'],
+      ['user', 'I am fine, thanks.'],
+      ['model', 'Great to hear.']
+    ]);
+    expect(callbacks.onToolCall).toHaveBeenCalledWith({ id: 'tip', name: 'pin_word', args: { word: 'great', meaning: 'very good', example: '' } });
+    expect(session!.sendToolResponse).toHaveBeenCalledWith({
+      functionResponses: [{ id: 'tip', name: 'pin_word', response: { output: { pinned: true } } }]
+    });
+    service.stopAll();
+  });
+
+  it('holds a waitForInput step until the client sends input', async () => {
+    const onmessage = vi.fn();
+    const transport = new ScriptedLiveTransport({ name: 'Wait', steps: [{ waitForInput: true, message: { serverContent: { turnComplete: true } } }] } as LiveScript);
+    const session = await transport.connect({ model: 'test', config: {}, callbacks: { onopen: () => {}, onmessage, onerror: () => {}, onclose: () => {} } });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onmessage).not.toHaveBeenCalled();
+
+    session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: 'Hi' }] }] });
+    expect(onmessage).toHaveBeenCalledTimes(1);
+    session.close();
+  });
+});
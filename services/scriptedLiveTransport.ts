@@ -0,0 +1,115 @@
+import { LiveServerMessage } from '@google/genai';
+import { encode } from '../utils/audioUtils';
+import type { LiveConnectOptions, LiveTransport, LiveTransportSession } from './liveTransport';
+import defaultScript from '../fixtures/scriptedCall.json';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * One step of a scripted call. Exactly one of `message`, `tone` or `close`
+ * should be set; `delayMs` and `waitForInput` control when it fires.
+ */
+export interface ScriptedStep {
+  delayMs?: number;
+  /** Hold this step until the client sends realtime input or client content after the previous step. */
+  waitForInput?: boolean;
+  message?: LiveServerMessage;
+  /** Shorthand for an audio chunk: a sine tone rendered as 24 kHz PCM. */
+  tone?: { frequency: number; durationMs: number };
+  close?: boolean;
+}
+
+export interface LiveScript {
+  name: string;
+  steps: ScriptedStep[];
+}
+
+export const toneToMessage = (frequency: number, durationMs: number): LiveServerMessage => {
+  const frameCount = Math.round(OUTPUT_SAMPLE_RATE * durationMs / 1000);
+  const int16 = new Int16Array(frameCount);
+  const fade = Math.min(480, Math.floor(frameCount / 2));
+  for (let i = 0; i < frameCount; i++) {
+    const envelope = Math.min(1, i / fade, (frameCount - i) / fade);
+    int16[i] = Math.sin(2 * Math.PI * frequency * i / OUTPUT_SAMPLE_RATE) * envelope * 8000;
+  }
+  return {
+    serverContent: {
+      modelTurn: {
+        parts: [{ inlineData: { data: encode(new Uint8Array(int16.buffer)), mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}` } }]
+      }
+    }
+  } as LiveServerMessage;
+};
+
+/**
+ * Offline stand-in for the live API. Replays a fixture of server events on a
+ * timer so the call screen and message handling run without a key or network.
+ */
+export class ScriptedLiveTransport implements LiveTransport {
+  readonly kind = 'scripted' as const;
+
+  constructor(private script: LiveScript = defaultScript as LiveScript) {}
+
+  async connect({ callbacks }: LiveConnectOptions): Promise<LiveTransportSession> {
+    let closed = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let inputSeen = false;
+    let resumeOnInput: (() => void) | null = null;
+
+    const finish = () => {
+      if (closed) return;
+      closed = true;
+      if (timer) clearTimeout(timer);
+      callbacks.onclose();
+    };
+
+    const runStep = (index: number) => {
+      if (closed || index >= this.script.steps.length) return;
+      const step = this.script.steps[index];
+
+      const fire = () => {
+        if (closed) return;
+        if (step.close) {
+          finish();
+          return;
+        }
+        const message = step.tone ? toneToMessage(step.tone.frequency, step.tone.durationMs) : step.message;
+        if (message) callbacks.onmessage(message);
+        inputSeen = false;
+        runStep(index + 1);
+      };
+
+      timer = setTimeout(() => {
+        if (step.waitForInput && !inputSeen) {
+          resumeOnInput = fire;
+        } else {
+          fire();
+        }
+      }, step.delayMs ?? 0);
+    };
+
+    timer = setTimeout(() => {
+      if (closed) return;
+      callbacks.onopen();
+      runStep(0);
+    }, 0);
+
+    // Any input from the client, audio, text or a tool response, releases a step waiting for it
+    const receiveInput = () => {
+      if (closed) return;
+      inputSeen = true;
+      if (resumeOnInput) {
+        const resume = resumeOnInput;
+        resumeOnInput = null;
+        resume();
+      }
+    };
+
+    return {
+      sendRealtimeInput: receiveInput,
+      sendClientContent: receiveInput,
+      sendToolResponse: receiveInput,
+      close: finish
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { StoredSession } from '../types';
+import { STORES, withStore } from './db';
+
+export const createSessionId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export function saveSession(session: StoredSession): Promise<IDBValidKey> {
+  return withStore(STORES.sessions, 'readwrite', store => store.put(session));
+}
+
+export function getSession(id: string): Promise<StoredSession | undefined> {
+  return withStore(STORES.sessions, 'readonly', store => store.get(id));
+}
+
+/** All stored sessions, most recent first. */
+export async function listSessions(): Promise<StoredSession[]> {
+  const sessions: StoredSession[] = await withStore(STORES.sessions, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export function deleteSession(id: string): Promise<undefined> {
+  return withStore(STORES.sessions, 'readwrite', store => store.delete(id));
+}
+
+/** Case-insensitive match against the transcript, the practice mode and the level. */
+export function matchesSessionQuery(session: StoredSession, query: string, avatarName = ''): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [avatarName, session.mode, session.level, ...session.turns.map(t => t.text)]
+    .some(text => text.toLowerCase().includes(q));
+}
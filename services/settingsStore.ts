@@ -0,0 +1,17 @@
+import { STORES, withStore } from './db';
+
+interface SettingRecord<T> {
+  key: string;
+  value: T;
+}
+
+/** Small preferences kept on this device, one record per key. */
+export async function loadSetting<T>(key: string, fallback: T): Promise<T> {
+  const record: SettingRecord<T> | undefined = await withStore(STORES.settings, 'readonly', store => store.get(key));
+  return record ? record.value : fallback;
+}
+
+export function saveSetting<T>(key: string, value: T): Promise<IDBValidKey> {
+  const record: SettingRecord<T> = { key, value };
+  return withStore(STORES.settings, 'readwrite', store => store.put(record));
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { AVATARS } from '../constants';
+import { InterviewQuestion } from '../types';
+import { DEFAULT_INTERVIEW_CONFIG } from './interviewPlan';
+import { buildSystemInstruction, InstructionContext } from './systemInstruction';
+
+const base: InstructionContext = { avatar: AVATARS[0], level: 'B1', mode: 'General Speaking', history: [] };
+
+const line = (instruction: string, label: string) =>
+  instruction.split('\n').map(l => l.trim()).find(l => l.startsWith(`${label}:`)) ?? '';
+
+describe('buildSystemInstruction', () => {
+  describe('interview', () => {
+    const questions = ['Tell me about yourself.', 'Why this role?', 'Describe a conflict.']
+      .map((text, i): InterviewQuestion => ({ id: `q${i}`, category: 'behavioural', text }));
+    const interview = (index: number) =>
+      line(buildSystemInstruction({ ...base, mode: 'Interview Practice', interview: { config: DEFAULT_INTERVIEW_CONFIG, questions, index } }), 'INTERVIEW');
+
+    it('welcomes the candidate and asks the first question at the start', () => {
+      expect(interview(0)).toContain('Start with a one-sentence welcome, then ask question 1.');
+    });
+
+    it('resumes from the current question after a reconnect', () => {
+      const text = interview(2);
+      expect(text).toContain('questions 1 to 2 are done');
+      expect(text).toContain('ask question 3 now');
+      expect(text).not.toContain('welcome, then ask question 1');
+    });
+
+    it('closes the interview when every question has been asked', () => {
+      expect(interview(3)).toContain('Every question has been asked.');
+    });
+  });
+
+  describe('placement', () => {
+    const placement = (question: string | null, index: number) =>
+      line(buildSystemInstruction({ ...base, placement: { question, index } }), 'PLACEMENT');
+
+    it('welcomes the learner and asks the first question at the start', () => {
+      expect(placement('What do you do?', 0)).toContain('Welcome the learner in one sentence, say you will ask a few questions, then ask: "What do you do?"');
+    });
+
+    it('resumes at the current question after a reconnect', () => {
+      const text = placement('Describe your town.', 2);
+      expect(text).toContain('2 questions have been answered');
+      expect(text).toContain('ask: "Describe your town."');
+      expect(text).not.toContain('Welcome the learner in one sentence');
+    });
+
+    it('closes the test when every question has been answered', () => {
+      expect(placement(null, 5)).toContain('Every question has been answered.');
+    });
+  });
+
+  describe('drill', () => {
+    const drill = (sentence: string | null, index: number, presented: boolean) =>
+      line(buildSystemInstruction({ ...base, drill: { sentence, index, presented } }), 'DRILL');
+
+    it('greets the learner and says the first sentence at the start', () => {
+      expect(drill('I would like a coffee.', 0, false)).toContain('Greet the learner in one sentence, explain this, then say: "I would like a coffee."');
+    });
+
+    it('says the current sentence again after a reconnect', () => {
+      const text = drill('Where is the station?', 1, true);
+      expect(text).toContain('Do not greet the learner again');
+      expect(text).toContain('say it again: "Where is the station?"');
+      expect(text).not.toContain('I would like a coffee.');
+    });
+
+    it('closes the drill once the last sentence is done', () => {
+      expect(drill(null, 3, false)).toContain('The last sentence is done.');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { Avatar, CefrBand, PracticeType, ChatTurn, SpeakingSpeed, Scenario, InterviewConfig, InterviewQuestion, MonologueConfig, L1Policy, LearnerProfile, TargetLanguage } from '../types';
+import { ERROR_CATEGORIES } from '../constants';
+import { languageName } from '../utils/format';
+import { INTERVIEW_CONTROL_PREFIX } from './interviewController';
+import { SPEECH_CONTROL_PREFIX } from './monologueController';
+import { PLACEMENT_CONTROL_PREFIX } from './placementController';
+import { DRILL_CONTROL_PREFIX } from './drillController';
+import { summarizeConversation } from '../utils/conversationSummary';
+import levelGuidance from '../levels/guidance.json';
+
+export interface InstructionContext {
+  avatar: Avatar;
+  level: CefrBand;
+  /** The language the learner is practising; English when omitted. */
+  language?: TargetLanguage;
+  mode: PracticeType;
+  history: ChatTurn[];
+  /** Notebook words due for review that the coach should work into the call. */
+  reviewWords?: string[];
+  /** Roleplay to run instead of free conversation. */
+  scenario?: Scenario;
+  /** Structured interview: the coach asks these questions in order, paced by the app. `index` is the question it is on. */
+  interview?: { config: InterviewConfig; questions: InterviewQuestion[]; index: number };
+  /** Public-speaking practice: the learner delivers timed speeches and the coach only listens until each ends. */
+  monologue?: MonologueConfig;
+  /** The learner's native language (by English name) and when the coach may use it. */
+  nativeLanguage?: { name: string; policy: L1Policy };
+  /** Placement test: the coach asks graded questions chosen by the app and does not teach. `question` is the one it is on, null once all are answered. */
+  placement?: { question: string | null; index: number };
+  /** The learner types every turn instead of speaking. */
+  typing?: boolean;
+  /** Recurring mistakes, weak areas, interests and goals carried over from earlier calls. */
+  profile?: LearnerProfile;
+  /** Shadowing drill: the coach says sentences chosen by the app and the learner repeats them. `sentence` is the current one, null once the last is done; `presented` is whether the coach has said it yet. */
+  drill?: { sentence: string | null; index: number; presented: boolean };
+  /** The coach can call the on-screen tools in coachTools.ts. */
+  tools?: boolean;
+}
+
+// How to pitch the call at each band; see levels/guidance.json
+const LEVEL_GUIDANCE: Record<CefrBand, string> = levelGuidance;
+
+const speedInstructions: Record<SpeakingSpeed, string> = {
+  'slow': 'Speak slowly and clearly, with short pauses between sentences.',
+  'normal': 'Speak at a natural, relaxed pace.',
+  'fast': 'Speak at a brisk, native-like pace, as in real everyday conversation.'
+};
+
+// Learners at these levels may not follow explanations given entirely in the target language
+const NATIVE_SUPPORT_LEVELS: CefrBand[] = ['A1', 'A2', 'B1', 'B2'];
+
+function describeNativeSupport(language: string, policy: L1Policy, target: string): string | null {
+  if (policy === 'never') return null;
+  const when = policy === 'automatic'
+    ? 'When you correct a mistake or use a word the learner probably does not know, add a brief explanation'
+    : 'Only when the learner asks what something means, or asks for help in their own language, give a brief explanation';
+  return `The learner's native language is ${language}. ${when} in ${language} (one or two sentences), then switch straight back to ${target}. Keep the rest of the call in ${target}.`;
+}
+
+// A mistake seen only once is not yet a pattern worth steering the call towards
+const MIN_RECURRING_ERRORS = 2;
+const PROFILE_ERRORS = 3;
+const PROFILE_LIST_ITEMS = 5;
+
+function describeProfile({ errors, weakAreas, interests, goals }: LearnerProfile): string | null {
+  const recurring = errors
+    .filter(e => e.count >= MIN_RECURRING_ERRORS)
+    .slice(0, PROFILE_ERRORS)
+    .map(e => {
+      const label = ERROR_CATEGORIES.find(c => c.id === e.category)?.label ?? e.category;
+      const example = e.examples[0] ? ` (e.g. "${e.examples[0].original}" should be "${e.examples[0].corrected}")` : '';
+      return `${label}, ${e.count} times${example}`;
+    });
+  const list = (items: string[]) => items.slice(0, PROFILE_LIST_ITEMS).join(', ');
+  const parts = [
+    recurring.length ? `Recurring mistakes from earlier calls: ${recurring.join('; ')}.` : '',
+    weakAreas.length ? `The learner wants to work on: ${list(weakAreas)}.` : '',
+    recurring.length || weakAreas.length
+      ? 'Steer the conversation toward situations that need these, and correct these mistakes whenever they come up.'
+      : '',
+    interests.length ? `Interests: ${list(interests)}; use them to choose topics.` : '',
+    goals.length ? `Goals: ${list(goals)}.` : ''
+  ].filter(Boolean);
+  return parts.length ? parts.join(' ') : null;
+}
+
+function describeScenario(scenario: Scenario): string {
+  const steps = scenario.outline.map((step, i) => `${i + 1}. ${step}`).join(' ');
+  const goals = scenario.goals.map(g => g.description).join('; ');
+  const phrases = scenario.requiredPhrases.length
+    ? ` Give the learner natural chances to use these phrases: ${scenario.requiredPhrases.map(p => `"${p}"`).join(', ')}.`
+    : '';
+  return `ROLEPLAY "${scenario.title}". Setting: ${scenario.setting} Your role: ${scenario.coachRole}. Stay in character and let the learner lead their side. `
+    + `Follow this outline: ${steps} The learner's goals are: ${goals}.${phrases} `
+    + `The roleplay is complete when: ${scenario.completionCriteria} Then step out of character and give brief feedback.`;
+}
+
+function describeInterview({ config, questions, index }: NonNullable<InstructionContext['interview']>): string {
+  const list = questions.map((q, i) => `${i + 1}. ${q.text}`).join(' ');
+  // After a reconnect the interview picks up where the app says it is, not at the start
+  const start = index === 0
+    ? 'Start with a one-sentence welcome, then ask question 1.'
+    : index < questions.length
+    ? `The interview is already under way and questions 1 to ${index} are done. Do not welcome the candidate again; ask question ${index + 1} now.`
+    : 'Every question has been asked. Thank the candidate and close the interview politely.';
+  return `You are interviewing the learner for a ${config.seniority} ${config.role || 'professional'} position. `
+    + `Questions, in order: ${list} ${start} Ask one question at a time. `
+    + `After an answer, acknowledge it in one short sentence and wait: do not move on, give scores or coach until the interview is over. `
+    + `Messages starting with ${INTERVIEW_CONTROL_PREFIX} come from the practice app, not the candidate; follow them without mentioning them.`;
+}
+
+function describeMonologue({ topic, targetMs }: MonologueConfig): string {
+  const minutes = Math.max(1, Math.round(targetMs / 60000));
+  return `The learner will deliver a speech of about ${minutes} minute${minutes === 1 ? '' : 's'} on the topic "${topic}", and may deliver it more than once. `
+    + `Do not speak when the call starts and never interrupt the speech. `
+    + `Messages starting with ${SPEECH_CONTROL_PREFIX} come from the practice app, not the learner; they say when a speech has ended and how long it took. Follow them without mentioning them.`;
+}
+
+function describePlacement({ question, index }: NonNullable<InstructionContext['placement']>): string {
+  const start = !question
+    ? 'Every question has been answered. Thank the learner and tell them their result will appear when they end the call.'
+    : index === 0
+    ? `Welcome the learner in one sentence, say you will ask a few questions, then ask: "${question}"`
+    : `The test is already under way and ${index} question${index === 1 ? ' has' : 's have'} been answered. Do not welcome the learner again; ask: "${question}"`;
+  return `This call is a short spoken placement test, not a lesson. ${start} `
+    + `Ask exactly the questions you are given, one at a time. Let the learner finish, then reply with a brief, neutral acknowledgement and wait. `
+    + `Do not correct, teach, hint at answers or comment on the learner's level. If they ask, repeat the question or rephrase it more simply. `
+    + `Messages starting with ${PLACEMENT_CONTROL_PREFIX} come from the practice app, not the learner; follow them without mentioning them.`;
+}
+
+function describeDrill({ sentence, index, presented }: NonNullable<InstructionContext['drill']>): string {
+  const start = !sentence
+    ? 'The last sentence is done. Briefly congratulate the learner and tell them their scores will appear when they end the call.'
+    : index === 0 && !presented
+    ? `Greet the learner in one sentence, explain this, then say: "${sentence}"`
+    : `The drill is already under way. Do not greet the learner again; ${presented ? 'they may have been repeating the current sentence, so say it again' : 'say the next sentence'}: "${sentence}"`;
+  return `This call is a shadowing drill: you say a sentence, the learner repeats it exactly. ${start} `
+    + `Say each sentence exactly as written, clearly and at a natural pace, then stop and wait. `
+    + `Messages starting with ${DRILL_CONTROL_PREFIX} come from the practice app, not the learner; they give you the next sentence. Follow them without mentioning them.`;
+}
+
+// Interview and placement questions and speech topics are written in English; scenarios are written in the language they are for
+function describeLanguage(target: string): string {
+  return `The learner is practising ${target}, so speak ${target} for the whole call. Any questions, topics or outlines below that are written in another language are notes for you: `
+    + `say them in natural ${target}. Sentences for a drill are already in ${target}; say those exactly as written.`;
+}
+
+const DRILL_FEEDBACK = 'After each repetition, reply in one or two short sentences: say it was good, or pick the one word that was missed or unclear, '
+  + 'say it slowly on its own and invite the learner to try again. Do not ask questions or start a conversation.';
+
+const SCREEN_TOOLS = 'You can also put things on the learner\'s screen with your tools: show_correction whenever you correct a mistake, pin_word for a useful word or phrase you teach, '
+  + 'show_example for a sentence worth reading, set_difficulty if the level is clearly too easy or too hard, and end_lesson when the learner wants to stop. '
+  + 'Use them alongside what you say, never instead of it, and do not mention the tools by name.';
+
+const MONOLOGUE_FEEDBACK = 'Only give feedback once the app says the speech has ended. Cover, in order: structure (opening, main points, conclusion), '
+  + 'pacing against the target time, filler words, and rhetorical devices such as questions, repetition, contrast, groups of three or a personal story. '
+  + 'Quote the learner\'s own words from the speech for each point, finish with one thing to try next time, then stay silent until the next speech ends.';
+
+const TYPED_INPUT = 'The learner is typing their turns instead of speaking. Reply out loud as usual, but do not comment on their pronunciation or fluency; '
+  + 'mention spelling only when it changes the meaning.';
+
+export function buildSystemInstruction({ avatar, level, language = 'en', mode, history, reviewWords = [], scenario, interview, monologue, nativeLanguage, placement, typing, profile, drill, tools }: InstructionContext): string {
+  const target = languageName(language);
+  const summary = summarizeConversation(history);
+  const memoryContext = summary
+    ? `This call is resuming after an interruption. ${summary}\nContinue naturally from the last message; do not greet the learner again.`
+    : "Start a new conversation.";
+  const style = monologue
+    ? 'This is a public-speaking monologue, not a conversation. Stay completely silent while the learner speaks.'
+    : drill
+    ? 'This is a repeat-after-me drill, not a conversation. Keep everything you say short.'
+    : scenario ? 'Conduct this as a spoken roleplay over the phone.' : 'Conduct this as a friendly phone call.';
+  const feedback = placement
+    ? 'None during the test; the app reports the result afterwards.'
+    : monologue
+    ? MONOLOGUE_FEEDBACK
+    : drill
+    ? DRILL_FEEDBACK
+    : 'Occasionally mention what the user did well or how to improve a sentence naturally in conversation.';
+  // A placement test measures the target language on its own
+  const nativeSupport = !placement && nativeLanguage && nativeLanguage.name !== target && NATIVE_SUPPORT_LEVELS.includes(level)
+    ? describeNativeSupport(nativeLanguage.name, nativeLanguage.policy, target)
+    : null;
+  // Like the native-language help, the profile would skew a placement test
+  const learnerProfile = profile && !placement ? describeProfile(profile) : null;
+  const vocabularyReview = reviewWords.length
+    ? `\n        VOCABULARY REVIEW: The learner is reviewing these words: ${reviewWords.join(', ')}. Use them naturally during the call and give the learner chances to use them too.`
+    : '';
+
+  return `
+        ROLE: You are ${avatar.name}, ${/^[AEIOU]/.test(target) ? 'an' : 'a'} ${target} Speaking Coach (${avatar.role}).${language !== 'en' ? `\n        LANGUAGE: ${describeLanguage(target)}` : ''}
+        PERSONALITY: ${avatar.tone.replace(/\.\s*$/, '')}.${avatar.description ? `\n        BACKGROUND: ${avatar.description}` : ''}
+        SPEAKING SPEED: ${speedInstructions[avatar.speed]}
+        LEVEL: ${placement ? 'Not known yet; this call measures it. Speak clearly at a natural pace.' : `CEFR ${level}. ${LEVEL_GUIDANCE[level]}`}${nativeSupport ? `\n        NATIVE LANGUAGE: ${nativeSupport}` : ''}
+        PRACTICE MODE: ${mode}.${scenario ? `\n        SCENARIO: ${describeScenario(scenario)}` : ''}${interview ? `\n        INTERVIEW: ${describeInterview(interview)}` : ''}${monologue ? `\n        SPEECH: ${describeMonologue(monologue)}` : ''}${placement ? `\n        PLACEMENT: ${describePlacement(placement)}` : ''}${drill ? `\n        DRILL: ${describeDrill(drill)}` : ''}
+        STYLE: ${style}${typing ? `\n        INPUT: ${TYPED_INPUT}` : ''}
+        FEEDBACK: ${feedback}${tools ? `\n        SCREEN: ${SCREEN_TOOLS}` : ''}${learnerProfile ? `\n        LEARNER PROFILE: ${learnerProfile}` : ''}${vocabularyReview}
+        CONTEXT: ${memoryContext}
+      `;
+}
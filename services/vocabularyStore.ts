@@ -0,0 +1,47 @@
+import { TargetLanguage, VocabularyEntry } from '../types';
+import { STORES, withStore } from './db';
+import { newSchedulingState } from '../utils/spacedRepetition';
+import { normalizeTerm, VocabularyCandidate } from '../utils/vocabularyExtraction';
+
+export function saveVocabularyEntry(entry: VocabularyEntry): Promise<IDBValidKey> {
+  return withStore(STORES.vocabulary, 'readwrite', store => store.put(entry));
+}
+
+export function deleteVocabularyEntry(id: string): Promise<undefined> {
+  return withStore(STORES.vocabulary, 'readwrite', store => store.delete(id));
+}
+
+/** The whole notebook, soonest due first. */
+export async function listVocabulary(): Promise<VocabularyEntry[]> {
+  const entries: VocabularyEntry[] = await withStore(STORES.vocabulary, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => a.dueAt - b.dueAt);
+}
+
+/** Entries in one language due for review, most overdue first. */
+export async function listDueVocabulary(now = Date.now(), limit?: number, language: TargetLanguage = 'en'): Promise<VocabularyEntry[]> {
+  const due: VocabularyEntry[] = await withStore(STORES.vocabulary, 'readonly', store =>
+    store.index('dueAt').getAll(IDBKeyRange.upperBound(now))
+  );
+  return due.filter(e => e.language === language).slice(0, limit);
+}
+
+/**
+ * Adds candidates that are not in the notebook yet; existing entries keep their
+ * schedule. Resolves with the entries that were added.
+ */
+export async function addVocabulary(candidates: VocabularyCandidate[], sessionId?: string, language: TargetLanguage = 'en'): Promise<VocabularyEntry[]> {
+  const added: VocabularyEntry[] = [];
+  for (const candidate of candidates) {
+    const term = normalizeTerm(candidate.term);
+    // English entries keep the plain term as their id, as they did before other languages
+    const id = term && language !== 'en' ? `${language}:${term}` : term;
+    if (!id || added.some(e => e.id === id)) continue;
+    const existing: VocabularyEntry | undefined = await withStore(STORES.vocabulary, 'readonly', store => store.get(id));
+    if (existing) continue;
+    const now = Date.now();
+    const entry: VocabularyEntry = { id, ...candidate, sessionId, language, createdAt: now, ...newSchedulingState(now) };
+    await saveVocabularyEntry(entry);
+    added.push(entry);
+  }
+  return added;
+}
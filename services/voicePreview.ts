@@ -0,0 +1,58 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { TargetLanguage, VoiceName } from '../types';
+import { decode, decodeAudioData } from '../utils/audioUtils';
+import { getConfiguredTransportKind } from './liveTransport';
+
+const PREVIEW_MODEL = 'gemini-2.5-flash-preview-tts';
+const PREVIEW_TEXT: Record<TargetLanguage, string> = {
+  en: "Hi! I'm your English coach. Shall we practise together?",
+  es: '¡Hola! Vamos a practicar español juntos. ¿Empezamos?',
+  de: 'Hallo! Lass uns zusammen Deutsch üben. Fangen wir an?'
+};
+
+// Base64 PCM per voice and language, so each sample is only generated once per page load
+const previewCache = new Map<string, string>();
+
+export const canPreviewVoices = () => getConfiguredTransportKind() !== 'scripted' && !!process.env.API_KEY;
+
+async function fetchPreview(voiceName: VoiceName, language: TargetLanguage): Promise<string> {
+  const key = `${voiceName}:${language}`;
+  const cached = previewCache.get(key);
+  if (cached) return cached;
+
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key missing");
+  }
+  const ai = new GoogleGenAI({ apiKey });
+  const response = await ai.models.generateContent({
+    model: PREVIEW_MODEL,
+    contents: [{ parts: [{ text: `Say cheerfully: ${PREVIEW_TEXT[language]}` }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } }
+    }
+  });
+  const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!audio) throw new Error('No audio came back for this voice.');
+  previewCache.set(key, audio);
+  return audio;
+}
+
+/** Speaks a short sample in the given voice and language; resolves when playback ends. */
+export async function playVoicePreview(voiceName: VoiceName, language: TargetLanguage = 'en'): Promise<void> {
+  const audio = await fetchPreview(voiceName, language);
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  try {
+    const buffer = await decodeAudioData(decode(audio), ctx, 24000, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    await new Promise<void>(resolve => {
+      source.onended = () => resolve();
+      source.start();
+    });
+  } finally {
+    ctx.close();
+  }
+}
@@ -1,27 +1,381 @@
 
-export type EnglishLevel = 'Basic' | 'Intermediate' | 'Advanced';
+/** Common European Framework bands, from beginner (A1) to mastery (C2); calls are pitched at one of them. */
+export type CefrBand = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+/** Languages the app teaches, by ISO 639-1 code. */
+export type TargetLanguage = 'en' | 'es' | 'de';
 
 export type PracticeType = 
-  | 'General English Speaking' 
+  | 'General Speaking' 
   | 'Daily Conversation' 
   | 'Interview Practice' 
   | 'Public Speaking' 
-  | 'Vocabulary & Fluency';
+  | 'Vocabulary & Fluency'
+  | 'Shadowing Drill';
+
+export type VoiceName = 'Zephyr' | 'Puck' | 'Charon' | 'Kore' | 'Fenrir';
+
+export type SpeakingSpeed = 'slow' | 'normal' | 'fast';
 
 export interface Avatar {
   id: string;
   name: string;
   role: string;
+  /** Persona notes: shown on the card and given to the model as background. */
   description: string;
   tone: string;
-  speed: 'slow' | 'normal' | 'fast';
+  speed: SpeakingSpeed;
+  /** URL or data URL. */
   image: string;
-  voiceName: 'Zephyr' | 'Puck' | 'Charon' | 'Kore' | 'Fenrir';
+  voiceName: VoiceName;
+  /** Created by the user and stored locally; built-in coaches leave this unset. */
+  custom?: boolean;
+  /** Languages the coach teaches; every target language when omitted. */
+  languages?: TargetLanguage[];
 }
 
 export interface ChatTurn {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
-  confidence?: number;
+  /** Learner turns only: timing measured locally from the microphone. */
+  speech?: SpeechTiming;
+  /** Coach turns only: length of the audio the coach spoke. */
+  audioMs?: number;
+  /** Coach turns only: the learner cut in, and `text` was trimmed to about what had been played. */
+  interrupted?: boolean;
+  /** Learner turns only: typed in the composer rather than spoken. */
+  typed?: boolean;
+}
+
+export interface SpeechTiming {
+  /** Epoch ms of the first and last voiced mic frame in the turn. */
+  startedAt: number;
+  endedAt: number;
+  /** Time the mic actually carried speech, excluding pauses. */
+  voicedMs: number;
+  /** Silent gaps between stretches of speech within the turn. */
+  pausesMs: number[];
+}
+
+export type CallStatus = 'connecting' | 'open' | 'closed' | 'error' | 'reconnecting';
+
+/** Why the status changed, for the app to put into words. `message` is the browser's or the API's own error text, if it gave one. */
+export type CallStatusDetail =
+  | { code: 'retrying'; seconds: number; attempt: number; maxAttempts: number }
+  | { code: 'gave-up'; maxAttempts: number }
+  | { code: 'failed'; message?: string };
+
+/** When the coach may explain things in the learner's native language. */
+export type L1Policy = 'never' | 'on-request' | 'automatic';
+
+/** How the learner's turns reach the coach; 'text' uses the composer only and never opens the microphone. */
+export type InputMode = 'continuous' | 'vad' | 'push-to-talk' | 'text';
+
+/** Which devices calls use and how the browser should process the microphone. */
+export interface AudioDeviceSettings {
+  /** Empty for the system default. */
+  inputDeviceId: string;
+  /** Empty for the system default; only applied where the browser can route output. */
+  outputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export interface StoredSession {
+  id: string;
+  avatarId: string;
+  level: CefrBand;
+  /** The language practised in the call. */
+  language: TargetLanguage;
+  mode: PracticeType;
+  turns: ChatTurn[];
+  startedAt: number;
+  endedAt: number;
+  /** Time actually spent in calls; a continued session adds to it. */
+  durationMs: number;
+  report?: FeedbackReport;
+  /** Turns whose mistakes are already counted in the learner profile; a continued session only adds those made after them. */
+  profileTurns?: number;
+  /** Roleplay scenario the call followed, if any. */
+  scenarioId?: string;
+  /** Questions, answers and scores of a structured interview. */
+  interview?: InterviewRecord;
+  /** Timed speeches of a public-speaking call. */
+  monologue?: MonologueRecord;
+  /** Sentences and scored attempts of a shadowing drill. */
+  drill?: DrillRecord;
+}
+
+/** Audio for one call within a session; a continued session has several. */
+export interface StoredRecording {
+  id: string;
+  sessionId: string;
+  startedAt: number;
+  durationMs: number;
+  learner: Blob;
+  coach: Blob;
+}
+
+export type ErrorCategory = 'articles' | 'verb-tense' | 'agreement' | 'prepositions' | 'word-order' | 'word-choice' | 'plurals' | 'other';
+
+export interface GrammarCorrection {
+  /** The learner's sentence as transcribed. */
+  original: string;
+  corrected: string;
+  explanation: string;
+  /** Missing from reports made before mistakes were categorised. */
+  category?: ErrorCategory;
+}
+
+export interface VocabularySuggestion {
+  word: string;
+  meaning: string;
+  example: string;
+  /** The plainer word the learner used instead, if any. */
+  replaces?: string;
+}
+
+export interface FeedbackReport {
+  summary: string;
+  grammarCorrections: GrammarCorrection[];
+  vocabulary: VocabularySuggestion[];
+  strengths: string[];
+  nextSteps: string[];
+  /** Topics the learner showed interest in, for the learner profile. */
+  interests?: string[];
+  generatedAt: number;
+  source: 'gemini' | 'local';
+}
+
+/** A kind of mistake seen across calls. */
+export interface TrackedError {
+  category: ErrorCategory;
+  count: number;
+  lastSeenAt: number;
+  /** Most recent first. */
+  examples: { original: string; corrected: string }[];
+}
+
+/** What the coach should remember about the learner from one call to the next. */
+export interface LearnerProfile {
+  errors: TrackedError[];
+  /** Areas the learner wants to work on, in their own words. */
+  weakAreas: string[];
+  interests: string[];
+  goals: string[];
+  updatedAt: number;
+}
+
+export type VocabularySource = 'transcript' | 'coach' | 'report';
+
+export interface VocabularyEntry {
+  /** Lower-cased term, so the same word is only stored once; prefixed with the language code outside English. */
+  id: string;
+  term: string;
+  /** Sentence from the call the term was taken from. */
+  example: string;
+  meaning?: string;
+  sessionId?: string;
+  /** The language the term belongs to. */
+  language: TargetLanguage;
+  source: VocabularySource;
+  createdAt: number;
+  // SM-2 scheduling state
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+/** SM-2 recall quality: 0 is a blackout, 5 is perfect recall. */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ScenarioGoal {
+  id: string;
+  /** Shown in the checklist, e.g. "Give your booking name". */
+  description: string;
+  /** Phrases that show the goal was met when the learner says any of them; case-insensitive. */
+  evidence: string[];
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  /** Where the roleplay happens, e.g. "The front desk of a city-centre hotel". */
+  setting: string;
+  /** Who the coach plays, e.g. "Hotel receptionist". */
+  coachRole: string;
+  goals: ScenarioGoal[];
+  /** Phrases the learner should try to use. */
+  requiredPhrases: string[];
+  /** The steps the coach leads the conversation through, in order. */
+  outline: string[];
+  /** When the coach should consider the roleplay finished. */
+  completionCriteria: string;
+  level?: CefrBand;
+  /** The language the roleplay is written in and played in. */
+  language: TargetLanguage;
+  /** Imported by the user rather than bundled. */
+  custom?: boolean;
+}
+
+export type Seniority = 'Junior' | 'Mid-level' | 'Senior' | 'Lead';
+
+export type QuestionCategory = 'behavioural' | 'technical' | 'situational';
+
+export interface InterviewQuestion {
+  id: string;
+  category: QuestionCategory;
+  /** May contain `{role}`, filled in with the role being interviewed for. */
+  text: string;
+  /** Levels the question suits; all levels when omitted. */
+  seniority?: Seniority[];
+}
+
+export interface InterviewConfig {
+  role: string;
+  seniority: Seniority;
+  categories: QuestionCategory[];
+  questionCount: number;
+}
+
+/** STAR rubric plus delivery, each scored 1 (missing) to 5 (excellent). */
+export interface StarScore {
+  situation: number;
+  task: number;
+  action: number;
+  result: number;
+  clarity: number;
+  conciseness: number;
+  comment: string;
+  source: 'gemini' | 'local';
+}
+
+export interface InterviewAnswer {
+  questionId: string;
+  category: QuestionCategory;
+  question: string;
+  /** Everything the learner said for this question, follow-ups included. */
+  transcript: string;
+  /** From the end of the question to the learner's last words on it. */
+  answerMs: number;
+  followUps: number;
+  score?: StarScore;
+}
+
+export interface InterviewRecord {
+  config: InterviewConfig;
+  answers: InterviewAnswer[];
+}
+
+export interface MonologueConfig {
+  topic: string;
+  targetMs: number;
+  /** Countdown before the microphone opens. */
+  prepMs: number;
+}
+
+export interface MonologueDelivery {
+  startedAt: number;
+  durationMs: number;
+  /** What the learner said; empty if the call ended before it was transcribed. */
+  transcript: string;
+}
+
+export interface MonologueRecord {
+  config: MonologueConfig;
+  deliveries: MonologueDelivery[];
+}
+
+/** Where a shadowing drill takes its sentences from. */
+export type DrillSource = 'level' | 'practice' | 'mistakes';
+
+export interface DrillConfig {
+  source: DrillSource;
+  /** With the 'practice' source: the kind of practice the sentences come from. */
+  practiceType: PracticeType;
+  sentenceCount: number;
+}
+
+export interface DrillSentence {
+  id: string;
+  text: string;
+  /** Bands the sentence suits; all bands when omitted. */
+  levels?: CefrBand[];
+  /** English when omitted. */
+  language?: TargetLanguage;
+  /** Practice types the sentence belongs to; general practice when omitted. */
+  practiceTypes?: PracticeType[];
+}
+
+/** One word of an attempt lined up against the target sentence. */
+export interface WordDiff {
+  type: 'match' | 'substitute' | 'missing' | 'extra';
+  /** The target word; unset for extra words. */
+  expected?: string;
+  /** What the learner said; unset for missing words. */
+  heard?: string;
+}
+
+export interface DrillAttempt {
+  transcript: string;
+  /** 0 to 100: the share of the target said correctly, less any extra words. */
+  score: number;
+  diff: WordDiff[];
+  at: number;
+}
+
+export interface DrillItem {
+  sentenceId: string;
+  text: string;
+  attempts: DrillAttempt[];
+}
+
+export interface DrillRecord {
+  config: DrillConfig;
+  items: DrillItem[];
+}
+
+export interface PlacementQuestion {
+  id: string;
+  band: CefrBand;
+  text: string;
+}
+
+export interface PlacementAnswer {
+  questionId: string;
+  band: CefrBand;
+  question: string;
+  transcript: string;
+  /** From the end of the question to the learner's last words on it. */
+  answerMs: number;
+}
+
+/** Scores run from 1 (very limited) to 5 (excellent). */
+export interface PlacementAssessment {
+  vocabularyRange: number;
+  grammarAccuracy: number;
+  fluency: number;
+  band: CefrBand;
+  rationale: string;
+  source: 'gemini' | 'local';
+}
+
+export interface PlacementResult extends PlacementAssessment {
+  id: string;
+  takenAt: number;
+  /** The language the test measured; `band` is the recommended level for it. */
+  language: TargetLanguage;
+  answers: PlacementAnswer[];
+}
+
+export type GoalMetric = 'practiceMinutes' | 'learnerMinutes' | 'sessions' | 'activeDays';
+
+/** A target for one metric, measured from Monday to Sunday. */
+export interface WeeklyGoal {
+  metric: GoalMetric;
+  target: number;
 }
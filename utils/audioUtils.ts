@@ -37,14 +37,77 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): { data: string; mimeType: string } {
+export function createBlob(data: Float32Array, sampleRate = 16000): { data: string; mimeType: string } {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    // Clamp first: out-of-range floats would otherwise wrap around in the Int16 conversion
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
   }
   return {
     data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+/**
+ * Streaming resampler that also cuts its output into fixed-size frames.
+ * Downsampling averages every input sample that falls into an output period,
+ * which doubles as a cheap anti-aliasing filter; upsampling interpolates
+ * linearly. State carries across calls, so chunks can be any length.
+ *
+ * This class must stay self-contained: its source is also injected into the
+ * capture AudioWorklet, where nothing else from this module exists.
+ */
+export class PcmFrameAssembler {
+  private ratio: number;
+  private frame: Float32Array;
+  private filled = 0;
+  private position = 0;
+  private sum = 0;
+  private count = 0;
+  private previous = 0;
+
+  constructor(inputRate: number, outputRate: number, frameSize: number) {
+    this.ratio = inputRate / outputRate;
+    this.frame = new Float32Array(frameSize);
+  }
+
+  push(input: Float32Array): Float32Array[] {
+    const frames: Float32Array[] = [];
+    const emit = (sample: number) => {
+      this.frame[this.filled++] = sample;
+      if (this.filled === this.frame.length) {
+        frames.push(this.frame.slice());
+        this.filled = 0;
+      }
+    };
+
+    if (this.ratio >= 1) {
+      for (let i = 0; i < input.length; i++) {
+        this.sum += input[i];
+        this.count++;
+        this.position += 1;
+        if (this.position >= this.ratio) {
+          emit(this.sum / this.count);
+          this.position -= this.ratio;
+          this.sum = 0;
+          this.count = 0;
+        }
+      }
+    } else {
+      // position is the fractional read head between previous and input[i]
+      for (let i = 0; i < input.length; i++) {
+        const current = input[i];
+        while (this.position < 1) {
+          emit(this.previous + (current - this.previous) * this.position);
+          this.position += this.ratio;
+        }
+        this.position -= 1;
+        this.previous = current;
+      }
+    }
+    return frames;
+  }
+}
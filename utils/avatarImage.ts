@@ -0,0 +1,51 @@
+// Uploaded pictures are cropped to a square this size before being stored
+const AVATAR_SIZE = 256;
+
+const hashString = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+const initialsOf = (name: string) =>
+  name.replace(/[^\p{L}\p{N}\s]/gu, '').trim().split(/\s+/).slice(0, 2).map(w => w[0]?.toUpperCase() ?? '').join('') || '?';
+
+/** An SVG monogram with a gradient picked from the seed, as a data URL. */
+export function generateAvatarImage(name: string, seed = name): string {
+  const hash = hashString(seed);
+  const hue = hash % 360;
+  const hue2 = (hue + 40 + (hash >> 8) % 80) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${AVATAR_SIZE}" height="${AVATAR_SIZE}" viewBox="0 0 100 100">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+    + `<stop offset="0" stop-color="hsl(${hue},70%,45%)"/><stop offset="1" stop-color="hsl(${hue2},70%,30%)"/>`
+    + `</linearGradient></defs><rect width="100" height="100" fill="url(#g)"/>`
+    + `<text x="50" y="50" dy=".35em" text-anchor="middle" font-family="system-ui,sans-serif" font-weight="900" font-size="38" fill="white">${initialsOf(name)}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/** Centre-crops an image file to a small square JPEG data URL. */
+export function resizeImageFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!file.type.startsWith('image/')) {
+      reject(new Error('Please choose an image file.'));
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const side = Math.min(img.width, img.height);
+      const canvas = document.createElement('canvas');
+      canvas.width = AVATAR_SIZE;
+      canvas.height = AVATAR_SIZE;
+      canvas.getContext('2d')!.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('That image could not be read.'));
+    };
+    img.src = url;
+  });
+}
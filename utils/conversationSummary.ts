@@ -0,0 +1,58 @@
+import { ChatTurn } from '../types';
+
+export interface SummaryOptions {
+  /** Number of most recent turns quoted verbatim. */
+  recentTurns?: number;
+  /** Rough character budget for the whole summary. */
+  maxChars?: number;
+}
+
+const speakerLabel = (turn: ChatTurn) => (turn.role === 'user' ? 'Learner' : 'Coach');
+
+const firstSentence = (text: string, maxLength: number) => {
+  const trimmed = text.trim();
+  const match = trimmed.match(/^.*?[.!?](\s|$)/);
+  const sentence = (match ? match[0] : trimmed).trim();
+  return sentence.length > maxLength ? `${sentence.slice(0, maxLength - 1).trimEnd()}…` : sentence;
+};
+
+/**
+ * Builds a compact, prompt-ready summary of a conversation so a resumed live
+ * session can pick up where the previous one stopped. Older turns are reduced
+ * to their opening sentence, the latest exchange is quoted in full.
+ */
+export function summarizeConversation(turns: ChatTurn[], options: SummaryOptions = {}): string {
+  const { recentTurns = 6, maxChars = 1500 } = options;
+  const spoken = turns.filter(t => t.text.trim().length > 0);
+  if (spoken.length === 0) return '';
+
+  const recent = spoken.slice(-recentTurns);
+  const earlier = spoken.slice(0, spoken.length - recent.length);
+  const learnerTurns = spoken.filter(t => t.role === 'user').length;
+
+  const recentLines = recent.map(t => `${speakerLabel(t)}: ${t.text.trim()}`);
+  let budget = maxChars - recentLines.join('\n').length;
+
+  // Walk backwards so the most recent earlier points survive the budget
+  const earlierPoints: string[] = [];
+  for (let i = earlier.length - 1; i >= 0 && budget > 0; i--) {
+    const point = `${speakerLabel(earlier[i])}: ${firstSentence(earlier[i].text, 90)}`;
+    budget -= point.length + 2;
+    if (budget < 0) break;
+    earlierPoints.unshift(point);
+  }
+
+  const sections = [
+    `So far the call has ${spoken.length} turns (${learnerTurns} from the learner).`
+  ];
+  if (earlier.length > 0) {
+    const skipped = earlier.length - earlierPoints.length;
+    const omitted = skipped > 0 ? ` (${skipped} older turns omitted)` : '';
+    sections.push(earlierPoints.length > 0
+      ? `Earlier points${omitted}: ${earlierPoints.join('; ')}.`
+      : `Earlier points${omitted}.`);
+  }
+  sections.push(`Most recent exchange:\n${recentLines.join('\n')}`);
+
+  return sections.join('\n');
+}
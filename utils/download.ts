@@ -0,0 +1,15 @@
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadText(content: string, fileName: string, mimeType: string) {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ChatTurn } from '../types';
+import { computeSessionMetrics, countFillers, typeTokenRatio } from './fluencyMetrics';
+
+describe('countFillers', () => {
+  it('does not count "like" as a verb or a preposition', () => {
+    expect(countFillers('I like tea. It looks like rain. I would like that, and it was, like, fine.')).toEqual({ like: 1 });
+  });
+
+  it('counts multi-word fillers', () => {
+    expect(countFillers('It was, you know, kind of hard. I mean it.')).toEqual({ 'you know': 1, 'i mean': 1, 'kind of': 1 });
+  });
+
+  it('uses the filler list of the language practised', () => {
+    expect(countFillers('Er hat, äh, gestern ähm angerufen.', 'de')).toEqual({ 'äh': 1, 'ähm': 1 });
+    expect(countFillers('Er hat, äh, gestern angerufen.', 'en')).toEqual({ er: 1 });
+    expect(countFillers('Quiero este libro, o sea, eh, el rojo.', 'es')).toEqual({ eh: 1, 'o sea': 1 });
+  });
+});
+
+describe('typeTokenRatio', () => {
+  it('is the plain ratio below the window size', () => {
+    expect(typeTokenRatio(['a', 'b', 'a', 'b'])).toBe(0.5);
+    expect(typeTokenRatio([])).toBe(0);
+  });
+
+  it('averages over 50-word windows for longer text', () => {
+    const distinct = Array.from({ length: 50 }, (_, i) => `w${i}`);
+    // Every 50-word window is all different words, though the text repeats ten of them
+    expect(typeTokenRatio([...distinct, ...distinct.slice(0, 10)])).toBe(1);
+  });
+});
+
+describe('computeSessionMetrics', () => {
+  const turn = (text: string, typed = false): ChatTurn => ({ role: 'user', text, timestamp: 0, typed });
+
+  it('measures nothing from a session of only typed turns', () => {
+    const metrics = computeSessionMetrics([turn('Hello, um, how are you?', true), turn('Fine thanks.', true)]);
+    expect(metrics).toMatchObject({ userTurns: 0, typedTurns: 2, totalWords: 0, wpm: null, fillerCount: 0, fillerRate: 0, typeTokenRatio: 0, avgUtteranceLength: 0 });
+  });
+
+  it('leaves typed turns out of the spoken figures', () => {
+    const metrics = computeSessionMetrics([turn('Um, I went home.'), turn('Um, typed words here.', true)]);
+    expect(metrics).toMatchObject({ userTurns: 1, typedTurns: 1, totalWords: 4, fillerCount: 1 });
+  });
+});
@@ -0,0 +1,125 @@
+import { ChatTurn, TargetLanguage } from '../types';
+
+// Only words that are hardly ever meant literally: German "er" is "he", Spanish "este" is "this"
+export const FILLER_PHRASES: Record<TargetLanguage, string[]> = {
+  en: ['um', 'uh', 'er', 'erm', 'hmm', 'like', 'you know', 'i mean', 'kind of', 'sort of', 'basically', 'actually', 'literally'],
+  es: ['eh', 'em', 'ehm', 'mmm', 'o sea', 'en plan', 'digamos', 'sabes'],
+  de: ['äh', 'ähm', 'öhm', 'hmm', 'sozusagen', 'quasi', 'irgendwie', 'weißt du']
+};
+
+// "like" is only a filler when it is not doing grammatical work ("I like", "looks like", "would like")
+const LIKE_AS_VERB_OR_PREPOSITION = /\b(i|you|we|they|he|she|would|'d|do|don't|did|didn't|really|just|look|looks|looked|feel|feels|felt|sound|sounds|seem|seems|something|anything|nothing|more|much|not|is it|what's it)\s+like\b/gi;
+
+// Window for the moving-average type-token ratio; plain TTR falls as text gets longer
+const MATTR_WINDOW = 50;
+
+export interface TurnMetrics {
+  words: number;
+  /** Words per minute across the whole turn, pauses included. Null without timing. */
+  wpm: number | null;
+  /** Words per minute of actual voiced time. */
+  articulationWpm: number | null;
+  fillerCount: number;
+  fillers: Record<string, number>;
+  pausesMs: number[];
+}
+
+export interface SessionMetrics {
+  /** Spoken learner turns; every other figure is measured over these only. */
+  userTurns: number;
+  /** Learner turns typed in the composer, which have no speaking rate, pauses or fillers to measure. */
+  typedTurns: number;
+  totalWords: number;
+  wpm: number | null;
+  fillerCount: number;
+  /** Fillers per 100 words. */
+  fillerRate: number;
+  topFillers: [string, number][];
+  /** Moving-average type-token ratio (window of 50 words); plain TTR for shorter sessions. */
+  typeTokenRatio: number;
+  avgUtteranceLength: number;
+  pauseCount: number;
+  avgPauseMs: number | null;
+  longestPauseMs: number;
+  voicedMs: number;
+}
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/[’]/g, "'").match(/\p{L}+(?:'\p{L}+)?/gu) ?? [];
+
+export function countFillers(text: string, language: TargetLanguage = 'en'): Record<string, number> {
+  const normalized = ` ${tokenize(text).join(' ')} `;
+  const counts: Record<string, number> = {};
+  for (const phrase of FILLER_PHRASES[language]) {
+    // Tokens are joined by single spaces; \b would not treat letters like "ä" as part of a word
+    let matches = normalized.match(new RegExp(`(?<= )${phrase}(?= )`, 'g'))?.length ?? 0;
+    if (language === 'en' && phrase === 'like') {
+      matches -= normalized.match(LIKE_AS_VERB_OR_PREPOSITION)?.length ?? 0;
+    }
+    if (matches > 0) counts[phrase] = matches;
+  }
+  return counts;
+}
+
+export function typeTokenRatio(tokens: string[]): number {
+  if (tokens.length === 0) return 0;
+  if (tokens.length < MATTR_WINDOW) return new Set(tokens).size / tokens.length;
+  let total = 0;
+  const windows = tokens.length - MATTR_WINDOW + 1;
+  for (let i = 0; i < windows; i++) {
+    total += new Set(tokens.slice(i, i + MATTR_WINDOW)).size / MATTR_WINDOW;
+  }
+  return total / windows;
+}
+
+const perMinute = (words: number, ms: number) => (ms > 0 ? Math.round(words / (ms / 60000)) : null);
+
+export function computeTurnMetrics(turn: ChatTurn, language: TargetLanguage = 'en'): TurnMetrics {
+  const words = tokenize(turn.text).length;
+  const fillers = countFillers(turn.text, language);
+  const speech = turn.speech;
+  // Very short spans give meaningless rates
+  const spanMs = speech ? speech.endedAt - speech.startedAt : 0;
+  return {
+    words,
+    wpm: spanMs >= 1000 ? perMinute(words, spanMs) : null,
+    articulationWpm: speech && speech.voicedMs >= 1000 ? perMinute(words, speech.voicedMs) : null,
+    fillerCount: Object.values(fillers).reduce((a, b) => a + b, 0),
+    fillers,
+    pausesMs: speech?.pausesMs ?? []
+  };
+}
+
+export function computeSessionMetrics(turns: ChatTurn[], language: TargetLanguage = 'en'): SessionMetrics {
+  const learnerTurns = turns.filter(t => t.role === 'user' && t.text.trim());
+  const userTurns = learnerTurns.filter(t => !t.typed);
+  const perTurn = userTurns.map(t => computeTurnMetrics(t, language));
+  const tokens = userTurns.flatMap(t => tokenize(t.text));
+
+  const fillers: Record<string, number> = {};
+  perTurn.forEach(m => Object.entries(m.fillers).forEach(([f, n]) => { fillers[f] = (fillers[f] ?? 0) + n; }));
+  const fillerCount = Object.values(fillers).reduce((a, b) => a + b, 0);
+
+  // Session rate only counts turns that have timing, so words and time stay matched
+  const timed = userTurns.filter(t => t.speech && t.speech.endedAt - t.speech.startedAt >= 1000);
+  const timedWords = timed.reduce((sum, t) => sum + tokenize(t.text).length, 0);
+  const timedMs = timed.reduce((sum, t) => sum + (t.speech!.endedAt - t.speech!.startedAt), 0);
+
+  const pauses = perTurn.flatMap(m => m.pausesMs);
+
+  return {
+    userTurns: userTurns.length,
+    typedTurns: learnerTurns.length - userTurns.length,
+    totalWords: tokens.length,
+    wpm: perMinute(timedWords, timedMs),
+    fillerCount,
+    fillerRate: tokens.length ? (fillerCount / tokens.length) * 100 : 0,
+    topFillers: Object.entries(fillers).sort((a, b) => b[1] - a[1]).slice(0, 3),
+    typeTokenRatio: typeTokenRatio(tokens),
+    avgUtteranceLength: userTurns.length ? tokens.length / userTurns.length : 0,
+    pauseCount: pauses.length,
+    avgPauseMs: pauses.length ? pauses.reduce((a, b) => a + b, 0) / pauses.length : null,
+    longestPauseMs: pauses.length ? Math.max(...pauses) : 0,
+    voicedMs: userTurns.reduce((sum, t) => sum + (t.speech?.voicedMs ?? 0), 0)
+  };
+}
@@ -0,0 +1,25 @@
+import { TargetLanguage } from '../types';
+import { TARGET_LANGUAGES } from '../constants';
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mm = hours > 0 ? String(minutes).padStart(2, '0') : String(minutes);
+  return `${hours > 0 ? `${hours}:` : ''}${mm}:${String(seconds).padStart(2, '0')}`;
+}
+
+export function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+/** The English name of a target language, e.g. "Spanish". */
+export function languageName(code: TargetLanguage): string {
+  return TARGET_LANGUAGES.find(l => l.code === code)?.name ?? 'English';
+}
@@ -0,0 +1,29 @@
+import en from '../i18n/en.json';
+import es from '../i18n/es.json';
+import pt from '../i18n/pt.json';
+import fr from '../i18n/fr.json';
+import zh from '../i18n/zh.json';
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Partial<Record<MessageKey, string>>;
+
+/** Interface languages with a bundled catalog; English is the fallback for anything missing. */
+export const CATALOGS: Record<string, Catalog> = { en, es, pt, fr, zh };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/** Catalog language for a language code such as "pt-BR"; English when none is bundled. */
+export function resolveLocale(language: string): string {
+  const base = language.toLowerCase().split('-')[0];
+  return base in CATALOGS ? base : 'en';
+}
+
+/** Looks up messages for `locale`, filling `{name}` placeholders from `params`. */
+export function createTranslator(locale: string): Translate {
+  const catalog = CATALOGS[resolveLocale(locale)];
+  return (key, params = {}) => {
+    const message = catalog[key] ?? en[key];
+    return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+  };
+}
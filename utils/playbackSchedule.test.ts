@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { PlaybackSchedule, trimToPlayed } from './playbackSchedule';
+
+describe('trimToPlayed', () => {
+  const text = ' one two three four ';
+
+  it('keeps nothing when no audio had been scheduled', () => {
+    expect(trimToPlayed(text, 0, 0)).toBe('');
+  });
+
+  it('keeps the words heard in proportion to the audio played', () => {
+    expect(trimToPlayed(text, 500, 1000)).toBe('one two');
+    expect(trimToPlayed(text, 700, 1000)).toBe('one two');
+  });
+
+  it('keeps the whole transcript once all the audio has played', () => {
+    expect(trimToPlayed(text, 1000, 1000)).toBe('one two three four');
+  });
+});
+
+describe('PlaybackSchedule', () => {
+  it('counts only what the current turn has played', () => {
+    const schedule = new PlaybackSchedule();
+    expect(schedule.schedule(1, 0)).toBe(0);
+    expect(schedule.schedule(1, 0.5)).toBe(1);
+    expect(schedule.playedMs(1.5)).toBe(1500);
+    schedule.nextTurn();
+    expect(schedule.schedule(1, 1.5)).toBe(2);
+    expect(schedule.playedMs(2.25)).toBe(250);
+  });
+});
@@ -0,0 +1,50 @@
+interface ScheduledBuffer {
+  start: number;
+  duration: number;
+}
+
+/**
+ * Queues coach audio buffers back to back on an AudioContext clock (seconds)
+ * and remembers where the current turn's buffers sit, so an interruption can
+ * tell how much of the turn was actually heard.
+ */
+export class PlaybackSchedule {
+  private nextStartTime = 0;
+  private turn: ScheduledBuffer[] = [];
+
+  /** Start time for a buffer: straight after the queued audio, or `now` once the queue has run dry. */
+  schedule(duration: number, now: number): number {
+    const start = Math.max(this.nextStartTime, now);
+    this.nextStartTime = start + duration;
+    this.turn.push({ start, duration });
+    return start;
+  }
+
+  /** Milliseconds of the current turn's audio played by `now`. */
+  playedMs(now: number): number {
+    return this.turn.reduce((sum, b) => sum + Math.min(b.duration, Math.max(0, now - b.start)), 0) * 1000;
+  }
+
+  /** Starts tracking a new turn. Audio already queued keeps playing and the next buffer still follows it. */
+  nextTurn() {
+    this.turn = [];
+  }
+
+  /** Forgets everything queued, for when playback is stopped; the next buffer starts immediately. */
+  clear() {
+    this.turn = [];
+    this.nextStartTime = 0;
+  }
+}
+
+/**
+ * Cuts a transcript down to the words heard before an interruption, assuming
+ * words are spread evenly over the audio. Partly heard words are dropped, and
+ * nothing was heard if no audio had been scheduled yet.
+ */
+export function trimToPlayed(text: string, playedMs: number, totalMs: number): string {
+  if (totalMs <= 0) return '';
+  if (playedMs >= totalMs) return text.trim();
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  return words.slice(0, Math.floor(words.length * (playedMs / totalMs))).join(' ');
+}
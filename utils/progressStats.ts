@@ -0,0 +1,160 @@
+import { ChatTurn, StoredSession, WeeklyGoal } from '../types';
+import { computeSessionMetrics, tokenize } from './fluencyMetrics';
+import { DAY_MS } from './spacedRepetition';
+
+// Speaking rates used when a turn has no measured timing (older sessions, imported transcripts)
+const ESTIMATED_LEARNER_WPM = 110;
+const ESTIMATED_COACH_WPM = 150;
+
+// Shorter sessions give noisy rates and diversity, so they stay out of the trends
+const MIN_TREND_WORDS = 30;
+
+export interface TalkTime {
+  learnerMs: number;
+  coachMs: number;
+}
+
+export interface Streaks {
+  /** Consecutive days with a call, ending today, or yesterday if there is no call yet today. */
+  current: number;
+  longest: number;
+}
+
+export interface TrendPoint {
+  at: number;
+  wpm: number | null;
+  /** Fillers per 100 words. */
+  fillerRate: number;
+  typeTokenRatio: number;
+}
+
+export interface GoalProgress {
+  value: number;
+  target: number;
+  /** Share of the target reached, capped at 1. */
+  fraction: number;
+}
+
+const estimateMs = (text: string, wpm: number) => (tokenize(text).length / wpm) * 60000;
+
+/** Voiced learner time and spoken coach audio, estimated from word counts where a turn has no timing. Typed turns take no talk time. */
+export function talkTime(turns: ChatTurn[]): TalkTime {
+  return turns.reduce<TalkTime>((total, turn) => {
+    if (turn.typed) return total;
+    if (turn.role === 'user') {
+      total.learnerMs += turn.speech?.voicedMs ?? estimateMs(turn.text, ESTIMATED_LEARNER_WPM);
+    } else {
+      total.coachMs += turn.audioMs ?? estimateMs(turn.text, ESTIMATED_COACH_WPM);
+    }
+    return total;
+  }, { learnerMs: 0, coachMs: 0 });
+}
+
+/** Local calendar day, as YYYY-MM-DD. */
+export function dayKey(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Calendar arithmetic rather than adding DAY_MS, which drifts across daylight-saving changes
+const addDays = (timestamp: number, days: number) => {
+  const d = new Date(timestamp);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+/** Midnight at the start of the Monday of the week containing `timestamp`. */
+export function weekStart(timestamp: number): number {
+  const day = startOfDay(timestamp);
+  return addDays(day, -((new Date(day).getDay() + 6) % 7));
+}
+
+export function computeStreaks(sessions: StoredSession[], now = Date.now()): Streaks {
+  const days = new Set(sessions.map(s => dayKey(s.startedAt)));
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const key of [...days].sort()) {
+    const [y, m, d] = key.split('-').map(Number);
+    const day = new Date(y, m - 1, d).getTime();
+    run = previous !== null && dayKey(addDays(previous, 1)) === key ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  let current = 0;
+  let cursor = startOfDay(now);
+  if (!days.has(dayKey(cursor))) cursor = addDays(cursor, -1);
+  while (days.has(dayKey(cursor))) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+  return { current, longest };
+}
+
+/** Minutes of call time on each of the last `days` days, oldest first. */
+export function dailyMinutes(sessions: StoredSession[], days: number, now = Date.now()): { day: string; minutes: number }[] {
+  const totals = new Map<string, number>();
+  for (const session of sessions) {
+    const key = dayKey(session.startedAt);
+    totals.set(key, (totals.get(key) ?? 0) + session.durationMs / 60000);
+  }
+  const today = startOfDay(now);
+  return Array.from({ length: days }, (_, i) => {
+    const day = dayKey(addDays(today, i - days + 1));
+    return { day, minutes: totals.get(day) ?? 0 };
+  });
+}
+
+/** Session counts per label, most frequent first. */
+export function countBy(sessions: StoredSession[], label: (session: StoredSession) => string): [string, number][] {
+  const counts = new Map<string, number>();
+  sessions.forEach(s => counts.set(label(s), (counts.get(label(s)) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+/** One point per session with enough learner speech, oldest first. */
+export function trendPoints(sessions: StoredSession[]): TrendPoint[] {
+  return sessions
+    .map(session => ({ session, metrics: computeSessionMetrics(session.turns, session.language) }))
+    .filter(({ metrics }) => metrics.totalWords >= MIN_TREND_WORDS)
+    .sort((a, b) => a.session.startedAt - b.session.startedAt)
+    .map(({ session, metrics }) => ({
+      at: session.startedAt,
+      wpm: metrics.wpm,
+      fillerRate: metrics.fillerRate,
+      typeTokenRatio: metrics.typeTokenRatio
+    }));
+}
+
+/** Progress towards a goal over the week containing `now`. */
+export function goalProgress(goal: WeeklyGoal, sessions: StoredSession[], now = Date.now()): GoalProgress {
+  const from = weekStart(now);
+  const to = addDays(from, 7);
+  const week = sessions.filter(s => s.startedAt >= from && s.startedAt < to);
+  let value: number;
+  switch (goal.metric) {
+    case 'practiceMinutes':
+      value = week.reduce((sum, s) => sum + s.durationMs, 0) / 60000;
+      break;
+    case 'learnerMinutes':
+      value = week.reduce((sum, s) => sum + talkTime(s.turns).learnerMs, 0) / 60000;
+      break;
+    case 'sessions':
+      value = week.length;
+      break;
+    case 'activeDays':
+      value = new Set(week.map(s => dayKey(s.startedAt))).size;
+      break;
+  }
+  return { value, target: goal.target, fraction: goal.target > 0 ? Math.min(1, value / goal.target) : 0 };
+}
+
+/** Whole days left in the current week, today included. */
+export const daysLeftInWeek = (now = Date.now()) => Math.round((addDays(weekStart(now), 7) - startOfDay(now)) / DAY_MS);
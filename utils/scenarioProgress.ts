@@ -0,0 +1,39 @@
+import { ChatTurn, Scenario, ScenarioGoal } from '../types';
+
+export interface GoalProgress {
+  goal: ScenarioGoal;
+  met: boolean;
+  /** Index into the turns of the learner turn that first met the goal. */
+  turnIndex: number | null;
+}
+
+export interface ScenarioProgress {
+  goals: GoalProgress[];
+  phrases: { phrase: string; used: boolean }[];
+  metCount: number;
+  complete: boolean;
+}
+
+const normalize = (text: string) => ` ${text.toLowerCase().replace(/[’]/g, "'").replace(/[^\p{L}\p{N}' -]+/gu, ' ').replace(/\s+/g, ' ')} `;
+
+// Whole-word containment, so "hi" does not match "this"
+const mentions = (normalizedText: string, phrase: string) => normalizedText.includes(normalize(phrase));
+
+/** Ticks off goals and required phrases from what the learner has said so far. */
+export function evaluateScenario(scenario: Scenario, turns: ChatTurn[]): ScenarioProgress {
+  const learner = turns
+    .map((turn, index) => ({ index, text: normalize(turn.text), role: turn.role }))
+    .filter(t => t.role === 'user');
+
+  const goals = scenario.goals.map(goal => {
+    const hit = learner.find(t => goal.evidence.some(e => mentions(t.text, e)));
+    return { goal, met: !!hit, turnIndex: hit?.index ?? null };
+  });
+  const phrases = scenario.requiredPhrases.map(phrase => ({
+    phrase,
+    used: learner.some(t => mentions(t.text, phrase))
+  }));
+  const metCount = goals.filter(g => g.met).length;
+
+  return { goals, phrases, metCount, complete: metCount === goals.length };
+}
@@ -0,0 +1,39 @@
+import { ReviewGrade, VocabularyEntry } from '../types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export type SchedulingState = Pick<VocabularyEntry, 'easeFactor' | 'intervalDays' | 'repetitions' | 'dueAt' | 'lastReviewedAt'>;
+
+/** A new card is due straight away. */
+export const newSchedulingState = (now = Date.now()): SchedulingState => ({
+  easeFactor: INITIAL_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  dueAt: now
+});
+
+/**
+ * SM-2: a grade below 3 restarts the card at a one-day interval; otherwise the
+ * interval goes 1 day, 6 days, then grows by the ease factor. Ease moves with
+ * every grade and never drops below 1.3.
+ */
+export function scheduleReview<T extends SchedulingState>(card: T, grade: ReviewGrade, now = Date.now()): T {
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (grade < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * easeFactor);
+  }
+
+  return { ...card, easeFactor, repetitions, intervalDays, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+}
+
+export const isDue = (card: SchedulingState, now = Date.now()) => card.dueAt <= now;
@@ -0,0 +1,41 @@
+import { SpeechTiming } from '../types';
+
+// Gaps shorter than this are ordinary articulation, not pauses
+const MIN_PAUSE_MS = 250;
+
+/** Accumulates per-frame voiced/unvoiced decisions into the timing of one learner turn. */
+export class SpeechTimer {
+  private startedAt: number | null = null;
+  private endedAt = 0;
+  private voicedMs = 0;
+  private silenceMs = 0;
+  private pausesMs: number[] = [];
+
+  addFrame(voiced: boolean, frameMs: number, now = Date.now()) {
+    if (!voiced) {
+      if (this.startedAt !== null) this.silenceMs += frameMs;
+      return;
+    }
+    if (this.startedAt === null) this.startedAt = now - frameMs;
+    if (this.silenceMs >= MIN_PAUSE_MS) this.pausesMs.push(Math.round(this.silenceMs));
+    this.silenceMs = 0;
+    this.voicedMs += frameMs;
+    this.endedAt = now;
+  }
+
+  /** Returns the timing so far and starts a new turn; null if nothing was voiced. */
+  take(): SpeechTiming | null {
+    const timing = this.startedAt === null ? null : {
+      startedAt: this.startedAt,
+      endedAt: this.endedAt,
+      voicedMs: Math.round(this.voicedMs),
+      pausesMs: this.pausesMs
+    };
+    this.startedAt = null;
+    this.endedAt = 0;
+    this.voicedMs = 0;
+    this.silenceMs = 0;
+    this.pausesMs = [];
+    return timing;
+  }
+}
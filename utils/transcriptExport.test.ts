@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { StoredSession } from '../types';
+import { parseTranscriptJson, toJson, TRANSCRIPT_SCHEMA } from './transcriptExport';
+
+const session: StoredSession = {
+  id: 'session-1',
+  avatarId: 'coach',
+  level: 'B2',
+  language: 'es',
+  mode: 'General Speaking',
+  turns: [
+    { role: 'model', text: '¿Qué tal?', timestamp: 1000 },
+    { role: 'user', text: 'Muy bien, gracias.', timestamp: 3000 }
+  ],
+  startedAt: 0,
+  endedAt: 4000,
+  durationMs: 4000
+};
+
+const v1File = (fields: object) => JSON.stringify({
+  schema: TRANSCRIPT_SCHEMA,
+  version: 1,
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  session: { ...session, language: undefined, turns: session.turns.map(t => ({ ...t, offsetMs: t.timestamp })), ...fields }
+});
+
+describe('parseTranscriptJson', () => {
+  it('reads back what toJson wrote', () => {
+    expect(parseTranscriptJson(toJson(session, 'Coach'))).toEqual(session);
+  });
+
+  it('upgrades version 1 files to CEFR levels and English practice', () => {
+    const parsed = parseTranscriptJson(v1File({ level: 'Advanced', mode: 'General English Speaking' }));
+    expect(parsed.level).toBe('C1');
+    expect(parsed.language).toBe('en');
+    expect(parsed.mode).toBe('General Speaking');
+  });
+
+  it('rejects a version 2 file with an old-style level', () => {
+    const file = JSON.parse(toJson(session));
+    file.session.level = 'Advanced';
+    expect(() => parseTranscriptJson(JSON.stringify(file))).toThrow('"level" must be one of');
+  });
+
+  it('rejects a version 2 file with an unknown practice mode', () => {
+    const file = JSON.parse(toJson(session));
+    file.session.mode = 'General English Speaking';
+    expect(() => parseTranscriptJson(JSON.stringify(file))).toThrow('"mode" must be one of');
+  });
+
+  it('rejects files from a newer version of the app', () => {
+    const file = JSON.parse(toJson(session));
+    file.version = 3;
+    expect(() => parseTranscriptJson(JSON.stringify(file))).toThrow('Unsupported transcript version 3');
+  });
+});
@@ -0,0 +1,185 @@
+import { ChatTurn, StoredSession } from '../types';
+import { formatDuration, languageName } from './format';
+import { upgradeSession } from '../services/legacyRecords';
+import { LEVELS, PRACTICE_MODES, TARGET_LANGUAGES } from '../constants';
+
+export const TRANSCRIPT_SCHEMA = 'speakflow.transcript';
+// Version 2 added `language` and CEFR levels; version 1 files are English with Basic/Intermediate/Advanced levels
+export const TRANSCRIPT_SCHEMA_VERSION = 2;
+
+export type TranscriptFormat = 'markdown' | 'json' | 'srt' | 'vtt';
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  srt: { label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' }
+};
+
+export interface TranscriptExportFile {
+  schema: typeof TRANSCRIPT_SCHEMA;
+  version: number;
+  exportedAt: string;
+  session: Omit<StoredSession, 'turns'> & {
+    avatarName?: string;
+    turns: (ChatTurn & { offsetMs: number })[];
+  };
+}
+
+export interface TurnSpan {
+  turn: ChatTurn;
+  startMs: number;
+  endMs: number;
+}
+
+// Average conversational pace, used to estimate how long a turn took to say
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1000;
+
+const estimateSpeakingMs = (text: string) =>
+  Math.max(MIN_CUE_MS, (text.trim().split(/\s+/).filter(Boolean).length / WORDS_PER_SECOND) * 1000);
+
+/**
+ * Places each turn on the call timeline. Learner turns with measured speech
+ * timing use it; otherwise `timestamp` marks when the turn completed and its
+ * start is estimated from its length. Spans never overlap.
+ */
+export function getTurnSpans(session: Pick<StoredSession, 'turns' | 'startedAt'>): TurnSpan[] {
+  let previousEnd = 0;
+  return session.turns.map(turn => {
+    if (turn.speech) {
+      // Measured from the mic: use it as is
+      const startMs = Math.max(previousEnd, turn.speech.startedAt - session.startedAt);
+      const endMs = Math.max(startMs + MIN_CUE_MS, turn.speech.endedAt - session.startedAt);
+      previousEnd = endMs;
+      return { turn, startMs, endMs };
+    }
+    const speakingMs = estimateSpeakingMs(turn.text);
+    const completedAt = Math.max(0, turn.timestamp - session.startedAt);
+    const startMs = Math.max(previousEnd, completedAt - speakingMs);
+    const endMs = Math.max(completedAt, startMs + MIN_CUE_MS);
+    previousEnd = endMs;
+    return { turn, startMs, endMs };
+  });
+}
+
+const speaker = (turn: ChatTurn, avatarName: string) => (turn.role === 'user' ? 'You' : avatarName);
+
+const pad = (n: number, width = 2) => String(Math.floor(n)).padStart(width, '0');
+
+const formatCueTime = (ms: number, separator: ',' | '.') => {
+  const hours = ms / 3600000;
+  const minutes = (ms % 3600000) / 60000;
+  const seconds = (ms % 60000) / 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export function toMarkdown(session: StoredSession, avatarName = 'Coach'): string {
+  const lines = [
+    `# ${avatarName} · ${session.mode}`,
+    '',
+    `- **Language:** ${languageName(session.language)}`,
+    `- **Level:** ${session.level}`,
+    `- **Date:** ${new Date(session.startedAt).toLocaleString()}`,
+    `- **Duration:** ${formatDuration(session.durationMs)}`,
+    ''
+  ];
+  getTurnSpans(session).forEach(({ turn, startMs }) => {
+    const note = turn.typed ? ', typed' : turn.interrupted ? ', interrupted' : '';
+    lines.push(`**${speaker(turn, avatarName)}** _(${formatDuration(startMs)}${note})_: ${turn.text.trim()}${turn.interrupted ? '…' : ''}`, '');
+  });
+  return lines.join('\n');
+}
+
+export function toJson(session: StoredSession, avatarName?: string): string {
+  const file: TranscriptExportFile = {
+    schema: TRANSCRIPT_SCHEMA,
+    version: TRANSCRIPT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      ...session,
+      avatarName,
+      turns: session.turns.map(turn => ({ ...turn, offsetMs: Math.max(0, turn.timestamp - session.startedAt) }))
+    }
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function toSrt(session: StoredSession, avatarName = 'Coach'): string {
+  return getTurnSpans(session)
+    .map(({ turn, startMs, endMs }, i) =>
+      `${i + 1}\n${formatCueTime(startMs, ',')} --> ${formatCueTime(endMs, ',')}\n${speaker(turn, avatarName)}: ${turn.text.trim()}\n`)
+    .join('\n');
+}
+
+export function toVtt(session: StoredSession, avatarName = 'Coach'): string {
+  const cues = getTurnSpans(session).map(({ turn, startMs, endMs }) =>
+    `${formatCueTime(startMs, '.')} --> ${formatCueTime(endMs, '.')}\n<v ${speaker(turn, avatarName)}>${turn.text.trim()}\n`);
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+export function exportTranscript(session: StoredSession, format: TranscriptFormat, avatarName?: string): string {
+  switch (format) {
+    case 'markdown': return toMarkdown(session, avatarName);
+    case 'json': return toJson(session, avatarName);
+    case 'srt': return toSrt(session, avatarName);
+    case 'vtt': return toVtt(session, avatarName);
+  }
+}
+
+export function transcriptFileName(session: StoredSession, format: TranscriptFormat): string {
+  const date = new Date(session.startedAt).toISOString().slice(0, 10);
+  return `speakflow-${date}-${session.id.slice(0, 8)}.${TRANSCRIPT_FORMATS[format].extension}`;
+}
+
+/** Parses a file written by `toJson` back into a session. Throws with a readable message if it is not one. */
+export function parseTranscriptJson(text: string): StoredSession {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (data?.schema !== TRANSCRIPT_SCHEMA) {
+    throw new Error('This file is not a SpeakFlow transcript export.');
+  }
+  if (typeof data.version !== 'number' || data.version > TRANSCRIPT_SCHEMA_VERSION) {
+    throw new Error(`Unsupported transcript version ${data.version}. Please update the app.`);
+  }
+
+  const s = data.session;
+  if (!s || typeof s.id !== 'string' || typeof s.avatarId !== 'string' || typeof s.level !== 'string'
+    || typeof s.mode !== 'string' || typeof s.startedAt !== 'number' || !Array.isArray(s.turns)) {
+    throw new Error('The transcript is missing required session fields.');
+  }
+  const turns: ChatTurn[] = s.turns.map((t: any, i: number) => {
+    if ((t?.role !== 'user' && t?.role !== 'model') || typeof t.text !== 'string') {
+      throw new Error(`Turn ${i + 1} is malformed.`);
+    }
+    const { offsetMs, ...turn } = t;
+    return {
+      ...turn,
+      timestamp: typeof t.timestamp === 'number' ? t.timestamp : s.startedAt + (offsetMs ?? 0)
+    };
+  });
+
+  const { avatarName, ...rest } = s;
+  const session = {
+    ...rest,
+    turns,
+    endedAt: typeof s.endedAt === 'number' ? s.endedAt : turns[turns.length - 1]?.timestamp ?? s.startedAt,
+    durationMs: typeof s.durationMs === 'number' ? s.durationMs : 0
+  };
+  // Version 1 exports are upgraded like sessions stored before CEFR levels and target languages
+  if (data.version < 2) return upgradeSession(session);
+  if (!LEVELS.includes(s.level)) {
+    throw new Error(`"level" must be one of ${LEVELS.join(', ')}.`);
+  }
+  if (!TARGET_LANGUAGES.some(l => l.code === s.language)) {
+    throw new Error(`"language" must be one of ${TARGET_LANGUAGES.map(l => l.code).join(', ')}.`);
+  }
+  if (!PRACTICE_MODES.includes(s.mode)) {
+    throw new Error(`"mode" must be one of ${PRACTICE_MODES.join(', ')}.`);
+  }
+  return session;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceActivityDetector } from './vad';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 40;
+const FRAME_SIZE = SAMPLE_RATE * FRAME_MS / 1000;
+
+// A tone stands in for sound with a speech-like zero-crossing rate
+const tone = (frequency: number, amplitude: number, index: number) =>
+  Float32Array.from({ length: FRAME_SIZE }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * (index * FRAME_SIZE + i) / SAMPLE_RATE));
+
+const mix = (a: Float32Array, b: Float32Array) => a.map((x, i) => x + b[i]);
+
+const silence = () => new Float32Array(FRAME_SIZE);
+
+describe('VoiceActivityDetector', () => {
+  it('detects speech after silence and ends it after the hangover', () => {
+    const vad = new VoiceActivityDetector(FRAME_MS);
+    for (let i = 0; i < 25; i++) expect(vad.process(silence()).isSpeech).toBe(false);
+    const events = [];
+    for (let i = 0; i < 25; i++) events.push(vad.process(tone(200, 0.3, i)).event);
+    for (let i = 0; i < 25; i++) events.push(vad.process(silence()).event);
+    expect(events.filter(Boolean)).toEqual(['speech-start', 'speech-end']);
+  });
+
+  it('closes the gate on a steady noise bed and still hears speech over it', () => {
+    const vad = new VoiceActivityDetector(FRAME_MS);
+    // Ten seconds of a fan-like hum at about -29 dBFS, well above the starting floor
+    let frame = 0;
+    for (; frame < 250; frame++) vad.process(tone(300, 0.05, frame));
+    expect(vad.process(tone(300, 0.05, frame++)).isSpeech).toBe(false);
+
+    // Speech over the hum, with the short pauses real speech has
+    let heard = false;
+    for (let i = 0; i < 50; i++, frame++) {
+      const talking = i % 10 < 7;
+      const result = vad.process(talking ? mix(tone(300, 0.05, frame), tone(180, 0.4, frame)) : tone(300, 0.05, frame));
+      heard ||= result.isSpeech;
+    }
+    expect(heard).toBe(true);
+
+    // Back to the hum alone: the gate closes again
+    let result = vad.process(tone(300, 0.05, frame++));
+    for (let i = 0; i < 25; i++, frame++) result = vad.process(tone(300, 0.05, frame));
+    expect(result.isSpeech).toBe(false);
+  });
+});
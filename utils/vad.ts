@@ -0,0 +1,113 @@
+export interface VadOptions {
+  /** Frames quieter than this (dBFS RMS) are never speech. */
+  minEnergyDb: number;
+  /** Speech must also sit this far above the tracked noise floor. */
+  noiseMarginDb: number;
+  /** Zero-crossing rate band (crossings per sample) that voiced speech falls into. */
+  minZeroCrossingRate: number;
+  maxZeroCrossingRate: number;
+  /** Consecutive speech frames needed before speech is reported as started. */
+  attackMs: number;
+  /** How long speech keeps being reported after the last speech frame. */
+  hangoverMs: number;
+  /** Time constant for the noise floor to rise under sound that never pauses, such as a fan. */
+  noiseAdaptMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  minEnergyDb: -50,
+  noiseMarginDb: 10,
+  minZeroCrossingRate: 0.01,
+  maxZeroCrossingRate: 0.35,
+  attackMs: 60,
+  hangoverMs: 500,
+  noiseAdaptMs: 4000
+};
+
+export type VadEvent = 'speech-start' | 'speech-end' | null;
+
+export interface VadResult {
+  /** Gate state, including attack and hangover. */
+  isSpeech: boolean;
+  /** Raw decision for this frame alone. */
+  voiced: boolean;
+  event: VadEvent;
+  energyDb: number;
+}
+
+export const frameEnergyDb = (frame: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  const rms = Math.sqrt(sum / Math.max(1, frame.length));
+  return 20 * Math.log10(rms + 1e-10);
+};
+
+export const zeroCrossingRate = (frame: Float32Array) => {
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+  }
+  return crossings / Math.max(1, frame.length - 1);
+};
+
+/**
+ * Frame-level voice activity detector: energy above an adaptive noise floor,
+ * gated by zero-crossing rate to reject hiss and clicks, with attack and
+ * hangover so short dips between words do not end the utterance.
+ */
+export class VoiceActivityDetector {
+  private options: VadOptions;
+  private noiseFloorDb: number;
+  private speaking = false;
+  private speechRun = 0;
+  private silenceRun = 0;
+
+  constructor(private frameMs: number, options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+    this.noiseFloorDb = this.options.minEnergyDb;
+  }
+
+  process(frame: Float32Array): VadResult {
+    const { minEnergyDb, noiseMarginDb, minZeroCrossingRate, maxZeroCrossingRate, attackMs, hangoverMs, noiseAdaptMs } = this.options;
+    const energyDb = frameEnergyDb(frame);
+    const zcr = zeroCrossingRate(frame);
+
+    const threshold = Math.max(minEnergyDb, this.noiseFloorDb + noiseMarginDb);
+    const voiced = energyDb > threshold && zcr >= minZeroCrossingRate && zcr <= maxZeroCrossingRate;
+
+    if (!voiced) {
+      // Track the floor quickly downwards and slowly upwards so speech does not raise it
+      const rate = energyDb < this.noiseFloorDb ? 0.3 : 0.02;
+      this.noiseFloorDb += (energyDb - this.noiseFloorDb) * rate;
+    } else {
+      // Much slower still while voiced: the pauses in real speech pull the floor back down,
+      // but a steady noise bed has none and would otherwise hold the gate open for good
+      this.noiseFloorDb += (energyDb - this.noiseFloorDb) * Math.min(1, this.frameMs / noiseAdaptMs);
+    }
+
+    let event: VadEvent = null;
+    if (voiced) {
+      this.speechRun++;
+      this.silenceRun = 0;
+      if (!this.speaking && this.speechRun * this.frameMs >= attackMs) {
+        this.speaking = true;
+        event = 'speech-start';
+      }
+    } else {
+      this.speechRun = 0;
+      this.silenceRun++;
+      if (this.speaking && this.silenceRun * this.frameMs >= hangoverMs) {
+        this.speaking = false;
+        event = 'speech-end';
+      }
+    }
+
+    return { isSpeech: this.speaking, voiced, event, energyDb };
+  }
+
+  reset() {
+    this.speaking = false;
+    this.speechRun = 0;
+    this.silenceRun = 0;
+  }
+}
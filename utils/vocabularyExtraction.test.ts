@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { candidateFromSelection } from './vocabularyExtraction';
+
+describe('candidateFromSelection', () => {
+  it('trims punctuation around the selection', () => {
+    expect(candidateFromSelection('That was "brilliant", honestly.', ' "brilliant", ')?.term).toBe('brilliant');
+  });
+
+  it('keeps accented letters at either end of a word', () => {
+    expect(candidateFromSelection('Das ist über alles.', 'über')?.term).toBe('über');
+    expect(candidateFromSelection('On se voit au café ?', 'café ?')?.term).toBe('café');
+    expect(candidateFromSelection('Wir wohnen in der Straße.', '«Straße».')?.term).toBe('Straße');
+  });
+
+  it('uses the sentence around the word as its example', () => {
+    expect(candidateFromSelection('Ich bin müde. Das ist über alles. Gut!', 'über')?.example).toBe('Das ist über alles.');
+  });
+
+  it('ignores a selection with no letters', () => {
+    expect(candidateFromSelection('It costs 20 euros.', ' 20 ')).toBeNull();
+  });
+});
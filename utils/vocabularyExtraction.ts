@@ -0,0 +1,74 @@
+import { ChatTurn, FeedbackReport, VocabularySource } from '../types';
+
+export interface VocabularyCandidate {
+  term: string;
+  example: string;
+  meaning?: string;
+  source: VocabularySource;
+}
+
+const MAX_TERM_WORDS = 4;
+
+// Quoted terms the coach is pointing at: "resilient", “make ends meet”
+const QUOTED_TERM = /["“](\p{L}[\p{L}' -]*\p{L})[.,!?]?["”]/gu;
+
+// A quoted term after these is the plain word being replaced, not the one to learn
+const REPLACED_CUE = /\b(?:instead of|rather than|not)\s*$/i;
+
+// Unquoted single words introduced by a cue: the word resilient, try using resilient
+const CUED_WORD = /\b(?:the (?:word|phrase|expression|idiom)|you (?:could|can|might) (?:say|use)|try (?:saying|using)|(?:a|another) word for that is)\s+(\p{L}[\p{L}'-]+)/giu;
+
+export const normalizeTerm = (term: string) => term.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** The sentence of `text` that contains the character at `index`. */
+export function sentenceAround(text: string, index: number): string {
+  const before = text.slice(0, index);
+  const start = Math.max(before.lastIndexOf('. '), before.lastIndexOf('! '), before.lastIndexOf('? '));
+  const endMatch = /[.!?](\s|$)/.exec(text.slice(index));
+  const end = endMatch ? index + endMatch.index + 1 : text.length;
+  return text.slice(start < 0 ? 0 : start + 2, end).trim();
+}
+
+/** Builds a candidate for text the learner selected inside a turn. */
+export function candidateFromSelection(turnText: string, selection: string): VocabularyCandidate | null {
+  const term = selection.trim().replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '');
+  if (!term) return null;
+  const index = turnText.indexOf(term);
+  return { term, example: index >= 0 ? sentenceAround(turnText, index) : turnText, source: 'transcript' };
+}
+
+/**
+ * Finds words the coach introduced: quoted terms and words following cues like
+ * "the word" or "you could say". Short everyday words are skipped.
+ */
+export function extractFromCoachTurns(turns: ChatTurn[]): VocabularyCandidate[] {
+  const found = new Map<string, VocabularyCandidate>();
+  const add = (term: string, text: string, index: number) => {
+    const key = normalizeTerm(term);
+    const words = key.split(' ').length;
+    if (words > MAX_TERM_WORDS || (words === 1 && key.length < 5) || found.has(key)) return;
+    found.set(key, { term: term.trim(), example: sentenceAround(text, index), source: 'coach' });
+  };
+
+  for (const turn of turns) {
+    if (turn.role !== 'model') continue;
+    for (const match of turn.text.matchAll(QUOTED_TERM)) {
+      if (REPLACED_CUE.test(turn.text.slice(0, match.index))) continue;
+      add(match[1], turn.text, match.index!);
+    }
+    for (const match of turn.text.matchAll(CUED_WORD)) add(match[1], turn.text, match.index!);
+  }
+  return [...found.values()];
+}
+
+/** Report suggestions first, since they come with a meaning, then anything else the coach introduced. */
+export function extractVocabulary(turns: ChatTurn[], report?: FeedbackReport): VocabularyCandidate[] {
+  const fromReport: VocabularyCandidate[] = (report?.vocabulary ?? []).map(v => ({
+    term: v.word,
+    example: v.example,
+    meaning: v.meaning,
+    source: 'report'
+  }));
+  const seen = new Set(fromReport.map(c => normalizeTerm(c.term)));
+  return [...fromReport, ...extractFromCoachTurns(turns).filter(c => !seen.has(normalizeTerm(c.term)))];
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { mixTracks } from './wav';
+
+describe('mixTracks', () => {
+  it('sums tracks that stay within range unchanged', () => {
+    const mixed = mixTracks([
+      { samples: new Float32Array([0.25, 0.5]), sampleRate: 8000 },
+      { samples: new Float32Array([0.25]), sampleRate: 8000 }
+    ], 8000);
+    expect(Array.from(mixed.samples)).toEqual([0.5, 0.5]);
+  });
+
+  it('scales the whole mix down by its peak instead of clipping', () => {
+    const mixed = mixTracks([
+      { samples: new Float32Array([0.8, 0.2, -0.5]), sampleRate: 8000 },
+      { samples: new Float32Array([0.8, 0.2, -0.5]), sampleRate: 8000 }
+    ], 8000);
+    expect(Array.from(mixed.samples).map(s => Number(s.toFixed(4)))).toEqual([1, 0.25, -0.625]);
+  });
+});
@@ -0,0 +1,83 @@
+export interface PcmTrack {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/** The 44-byte header of a mono 16-bit PCM WAV file holding `sampleCount` samples. */
+export function wavHeader(sampleCount: number, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + sampleCount * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, sampleCount * 2, true);
+  return buffer;
+}
+
+/** Float samples from -1 to 1 as 16-bit PCM, clipped at full scale. */
+export function toInt16(samples: Float32Array): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return out;
+}
+
+/** Encodes mono float samples as a 16-bit PCM WAV file. */
+export function encodeWav({ samples, sampleRate }: PcmTrack): Blob {
+  // Typed arrays use the platform's byte order, which is little-endian like WAV wherever browsers run
+  return new Blob([wavHeader(samples.length, sampleRate), toInt16(samples)], { type: 'audio/wav' });
+}
+
+/** Reads back a mono 16-bit PCM WAV written by `encodeWav`. */
+export async function decodeWav(blob: Blob): Promise<PcmTrack> {
+  const view = new DataView(await blob.arrayBuffer());
+  const sampleRate = view.getUint32(24, true);
+  const dataLength = view.getUint32(40, true);
+  const samples = new Float32Array(dataLength / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(44 + i * 2, true) / 32768;
+  }
+  return { samples, sampleRate };
+}
+
+const resampleLinear = ({ samples, sampleRate }: PcmTrack, targetRate: number): Float32Array => {
+  if (sampleRate === targetRate) return samples;
+  const out = new Float32Array(Math.round(samples.length * targetRate / sampleRate));
+  const step = sampleRate / targetRate;
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * step;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, samples.length - 1);
+    out[i] = samples[index] + (samples[next] - samples[index]) * (pos - index);
+  }
+  return out;
+};
+
+/** Sums tracks into one at `sampleRate`. If the sum would clip, the whole mix is scaled down so its peak fits. */
+export function mixTracks(tracks: PcmTrack[], sampleRate: number): PcmTrack {
+  const resampled = tracks.map(t => resampleLinear(t, sampleRate));
+  const mixed = new Float32Array(Math.max(0, ...resampled.map(r => r.length)));
+  resampled.forEach(r => r.forEach((s, i) => { mixed[i] += s; }));
+  let peak = 0;
+  for (let i = 0; i < mixed.length; i++) peak = Math.max(peak, Math.abs(mixed[i]));
+  // One gain for the whole mix keeps overlapping speech undistorted
+  if (peak > 1) {
+    for (let i = 0; i < mixed.length; i++) mixed[i] /= peak;
+  }
+  return { samples: mixed, sampleRate };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { alignWords, scoreDiff } from './wordAlignment';
+
+describe('alignWords', () => {
+  it('pairs a misheard word with the word it replaced', () => {
+    expect(alignWords('I have a cat.', 'I had a cat')).toEqual([
+      { type: 'match', expected: 'i', heard: 'i' },
+      { type: 'substitute', expected: 'have', heard: 'had' },
+      { type: 'match', expected: 'a', heard: 'a' },
+      { type: 'match', expected: 'cat', heard: 'cat' }
+    ]);
+  });
+
+  it('marks missing and extra words', () => {
+    expect(alignWords('I like green tea', 'I like tea')).toEqual([
+      { type: 'match', expected: 'i', heard: 'i' },
+      { type: 'match', expected: 'like', heard: 'like' },
+      { type: 'missing', expected: 'green' },
+      { type: 'match', expected: 'tea', heard: 'tea' }
+    ]);
+    expect(alignWords('I like tea', 'I really like tea').map(d => d.type)).toEqual(['match', 'extra', 'match', 'match']);
+  });
+
+  it('reads small numbers written as digits in the language practised', () => {
+    expect(scoreDiff(alignWords('I have two cats', 'I have 2 cats'))).toBe(100);
+    expect(scoreDiff(alignWords('Tengo tres gatos', 'Tengo 3 gatos', 'es'))).toBe(100);
+    expect(scoreDiff(alignWords('Ich habe zwei Katzen', 'Ich habe 2 Katzen', 'de'))).toBe(100);
+    expect(alignWords('Tengo tres gatos', 'Tengo 3 gatos')[1]).toEqual({ type: 'substitute', expected: 'tres', heard: 'three' });
+  });
+
+  it('marks every word missing for an empty attempt', () => {
+    const diff = alignWords('Good morning', '');
+    expect(diff).toEqual([{ type: 'missing', expected: 'good' }, { type: 'missing', expected: 'morning' }]);
+    expect(scoreDiff(diff)).toBe(0);
+  });
+});
+
+describe('scoreDiff', () => {
+  it('scores the share of target words said, less one per extra word', () => {
+    expect(scoreDiff(alignWords('I like green tea', 'I like tea'))).toBe(75);
+    expect(scoreDiff(alignWords('I like green tea', 'I really like green tea'))).toBe(75);
+  });
+
+  it('scores zero when there is no target', () => {
+    expect(scoreDiff([])).toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+import { TargetLanguage, WordDiff } from '../types';
+
+const NUMBER_WORDS: Record<TargetLanguage, string[]> = {
+  en: ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'],
+  es: ['cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez', 'once', 'doce'],
+  de: ['null', 'eins', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun', 'zehn', 'elf', 'zwölf']
+};
+
+/**
+ * Lower-cased words without punctuation. Small numbers are spelled out,
+ * since transcription writes "3" for a spoken "three".
+ */
+export const alignmentWords = (text: string, language: TargetLanguage = 'en'): string[] =>
+  (text.toLowerCase().replace(/[’]/g, "'").match(/[\p{L}\p{N}]+(?:'\p{L}+)?/gu) ?? [])
+    .map(word => /^\d+$/.test(word) && Number(word) < NUMBER_WORDS[language].length ? NUMBER_WORDS[language][Number(word)] : word);
+
+/**
+ * Lines an attempt up against the target sentence word by word, with the
+ * fewest substitutions, missing and extra words (Levenshtein distance over words).
+ */
+export function alignWords(target: string, spoken: string, language: TargetLanguage = 'en'): WordDiff[] {
+  const expected = alignmentWords(target, language);
+  const heard = alignmentWords(spoken, language);
+  const rows = expected.length + 1;
+  const cols = heard.length + 1;
+  // cost[i][j]: edits to turn the first i target words into the first j heard words
+  const cost = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const same = expected[i - 1] === heard[j - 1] ? 0 : 1;
+      cost[i][j] = Math.min(cost[i - 1][j - 1] + same, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  // Walk back from the end, preferring a match or substitution so paired words stay side by side
+  const diff: WordDiff[] = [];
+  let i = expected.length;
+  let j = heard.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (expected[i - 1] === heard[j - 1] ? 0 : 1)) {
+      diff.push({ type: expected[i - 1] === heard[j - 1] ? 'match' : 'substitute', expected: expected[i - 1], heard: heard[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      diff.push({ type: 'missing', expected: expected[i - 1] });
+      i--;
+    } else {
+      diff.push({ type: 'extra', heard: heard[j - 1] });
+      j--;
+    }
+  }
+  return diff.reverse();
+}
+
+/** Share of target words said correctly, less one for each extra word, from 0 to 100. */
+export function scoreDiff(diff: WordDiff[]): number {
+  const targetWords = diff.filter(d => d.type !== 'extra').length;
+  if (targetWords === 0) return 0;
+  const matches = diff.filter(d => d.type === 'match').length;
+  const extras = diff.filter(d => d.type === 'extra').length;
+  return Math.round(100 * Math.max(0, matches - extras) / targetWords);
+}